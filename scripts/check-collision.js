@@ -0,0 +1,190 @@
+/**
+ * Collision Tunneling Check
+ * 
+ * Regression scenario for swept collision: fires a player-sized body at every
+ * solid and one-way platform tile type (down, up and sideways), and drops an
+ * enemy onto every one of them, at the fastest speeds the game can
+ * produce (physics presets, power-ups, springs and pads) over the longest
+ * frame the game loop allows (MAX_FRAME_TIME). Fails if any body ends up
+ * past a tile instead of stopping on or against it.
+ * 
+ * Usage:
+ *   npm run check:collision
+ * 
+ * Exits with code 1 if any tile can be skipped.
+ */
+
+import { TILE_SIZE, PLAYER_WIDTH, PLAYER_HEIGHT, MAX_FRAME_TIME } from '../src/core/constants/index.ts'
+import { TILE_TYPES, TileTypeId, isTileTypeSolid, isTileTypePlatform, getTileSurface } from '../src/core/types/shapes.ts'
+import { POWER_UP_DEFINITIONS } from '../src/core/types/powerups.ts'
+import { DEFAULT_PHYSICS_PROFILE, PHYSICS_PRESETS, setLevelPhysicsOverrides } from '../src/core/types/physics.ts'
+import { physicsService } from '../src/services/PhysicsService.ts'
+import { entityService } from '../src/services/EntityService.ts'
+import { LevelStore } from '../src/stores/LevelStore.ts'
+import { EntityStore } from '../src/stores/EntityStore.ts'
+
+// Test grid: the tile under test sits alone in the middle of an empty room
+const GRID_WIDTH = 7
+const GRID_HEIGHT = 9
+const TILE_COL = 3
+const TILE_ROW = 4
+const TILE_X = TILE_COL * TILE_SIZE
+const TILE_Y = TILE_ROW * TILE_SIZE
+
+// Frames each body gets to reach and pass the tile
+const MAX_FRAMES = 20
+
+// ============================================
+// Maximum Speeds
+// ============================================
+
+const profiles = [DEFAULT_PHYSICS_PROFILE, ...Object.values(PHYSICS_PRESETS).map(p => ({ ...DEFAULT_PHYSICS_PROFILE, ...p.overrides }))]
+const modifiers = Object.values(POWER_UP_DEFINITIONS).map(d => d.modifiers)
+const launchSpeeds = Object.keys(TILE_TYPES).map(id => getTileSurface(Number(id)).launchSpeed ?? 0)
+
+const maxOf = (values) => Math.max(...values)
+const maxSpeedMultiplier = maxOf(modifiers.map(m => m.speedMultiplier ?? 1))
+const maxJumpMultiplier = maxOf(modifiers.map(m => m.jumpMultiplier ?? 1))
+
+const SPEEDS = {
+  fall: maxOf(profiles.map(p => p.maxFallSpeed)),
+  rise: maxOf([...profiles.map(p => -p.jumpVelocity * maxJumpMultiplier), ...launchSpeeds]),
+  run: maxOf([...profiles.map(p => p.playerSpeed * maxSpeedMultiplier), ...launchSpeeds]),
+}
+
+// ============================================
+// Player Scenarios
+// ============================================
+
+/**
+ * Minimal PhysicsBody standing in for the player
+ */
+function createBody(x, y, vx, vy) {
+  return {
+    x, y, vx, vy,
+    width: PLAYER_WIDTH,
+    height: PLAYER_HEIGHT,
+    isGrounded: false,
+    onLand() { this.isGrounded = true },
+    onLaunch() {},
+  }
+}
+
+/**
+ * Room with a single tile in the middle
+ */
+function createGrid(tileId) {
+  return {
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    getTileAt: (col, row) => (col === TILE_COL && row === TILE_ROW ? tileId : TileTypeId.EMPTY),
+  }
+}
+
+/**
+ * Move a body at constant velocity (no gravity) until it stops or runs out of frames
+ * @param passed - Whether the body is entirely beyond the tile
+ * @returns Whether the body skipped the tile
+ */
+function fire(tileId, body, passed) {
+  const grid = createGrid(tileId)
+  for (let frame = 0; frame < MAX_FRAMES; frame++) {
+    physicsService.stepBody(body, grid, MAX_FRAME_TIME, SPEEDS.fall, 1, 0)
+    if (passed(body)) return true
+    if (body.vx === 0 && body.vy === 0) return false
+  }
+  return false
+}
+
+function checkPlayer(tileId) {
+  const failures = []
+  const centerX = TILE_X + (TILE_SIZE - PLAYER_WIDTH) / 2
+
+  // Falling onto the tile (springs and pads launch the body back up, which is fine)
+  const falling = createBody(centerX, 0, 0, SPEEDS.fall)
+  if (fire(tileId, falling, b => b.y >= TILE_Y + TILE_SIZE)) failures.push(`fell through at ${SPEEDS.fall}px/s`)
+
+  if (isTileTypeSolid(tileId)) {
+    // Rising into the tile from below
+    const rising = createBody(centerX, TILE_Y + TILE_SIZE * 3, 0, -SPEEDS.rise)
+    if (fire(tileId, rising, b => b.y + b.height <= TILE_Y)) failures.push(`jumped through at ${SPEEDS.rise}px/s`)
+
+    // Running into the tile from either side (body spans the tile's full height)
+    const bodyY = TILE_Y - (PLAYER_HEIGHT - TILE_SIZE) / 2
+    const right = createBody(0, bodyY, SPEEDS.run, 0)
+    if (fire(tileId, right, b => b.x >= TILE_X + TILE_SIZE)) failures.push(`ran through rightward at ${SPEEDS.run}px/s`)
+    const left = createBody((GRID_WIDTH - 1) * TILE_SIZE, bodyY, -SPEEDS.run, 0)
+    if (fire(tileId, left, b => b.x + b.width <= TILE_X)) failures.push(`ran through leftward at ${SPEEDS.run}px/s`)
+  }
+
+  return failures
+}
+
+// ============================================
+// Entity Scenario
+// ============================================
+
+/**
+ * Drop a static enemy from the top of the room onto the tile at terminal velocity
+ */
+function checkEntity(tileId) {
+  const collision = Array.from({ length: GRID_HEIGHT }, (_, row) =>
+    Array.from({ length: GRID_WIDTH }, (_, col) => (col === TILE_COL && row === TILE_ROW ? tileId : TileTypeId.EMPTY))
+  )
+  const levelStore = new LevelStore()
+  levelStore.loadLevelDefinition({
+    id: 'collision_check',
+    name: 'Collision Check',
+    width: GRID_WIDTH,
+    height: GRID_HEIGHT,
+    playerSpawn: { col: 0, row: 0 },
+    collision,
+    physics: { maxFallSpeed: SPEEDS.fall },
+  })
+  const entityStore = new EntityStore()
+  entityStore.loadFromLevel([{ definitionId: 'enemy_static', position: { col: TILE_COL, row: 0 } }])
+  const [enemy] = entityStore.getActive()
+  enemy.vy = SPEEDS.fall
+
+  for (let frame = 0; frame < MAX_FRAMES; frame++) {
+    entityService.update(MAX_FRAME_TIME, entityStore, levelStore)
+    if (enemy.y >= TILE_Y + TILE_SIZE) return [`enemy fell through at ${SPEEDS.fall}px/s`]
+    if (enemy.isGrounded) break
+  }
+  return []
+}
+
+// ============================================
+// Main
+// ============================================
+
+function main() {
+  console.log(`\n🧱 Checking for tunneling at ${MAX_FRAME_TIME * 1000}ms frames (fall ${SPEEDS.fall}, rise ${SPEEDS.rise}, run ${SPEEDS.run} px/s)...\n`)
+
+  let checked = 0
+  let failed = 0
+  for (const tileType of Object.values(TILE_TYPES)) {
+    const tileId = tileType.id
+    if (!isTileTypeSolid(tileId) && !isTileTypePlatform(tileId)) continue
+
+    const failures = [...checkPlayer(tileId), ...checkEntity(tileId)]
+    checked += 1
+
+    if (failures.length > 0) {
+      failed += 1
+      console.log(`❌ ${tileType.name}`)
+      failures.forEach(f => console.log(`   - ${f}`))
+    }
+  }
+  setLevelPhysicsOverrides()
+
+  console.log('')
+  if (failed > 0) {
+    console.log(`⚠️  ${failed} of ${checked} tile type(s) can be skipped`)
+    process.exit(1)
+  } else {
+    console.log(`✅ None of ${checked} blocking tile types can be skipped`)
+  }
+}
+
+main()
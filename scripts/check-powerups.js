@@ -0,0 +1,117 @@
+/**
+ * Power-Up Override Check
+ * 
+ * Regression scenario for pack power-ups: loads `powerUps` entries through
+ * AssetStore the way a pack would and checks which power-up each pickup
+ * tile grants afterwards. Overrides that don't name a tile must keep the
+ * built-in's pickup tile, and clearing the pack must restore the built-ins.
+ * 
+ * Usage:
+ *   npm run check:powerups
+ * 
+ * Exits with code 1 if any scenario fails.
+ */
+
+import { TileTypeId } from '../src/core/types/shapes.ts'
+import { POWER_UP_DEFINITIONS, getPowerUpForTile } from '../src/core/types/powerups.ts'
+import { AssetStore } from '../src/stores/AssetStore.ts'
+
+// ============================================
+// Scenarios
+// ============================================
+
+/**
+ * Pack power-up entries, and the power-up each pickup tile must grant with them loaded
+ */
+const SCENARIOS = [
+  {
+    name: 'Duration-only override keeps its pickup tile',
+    powerUps: { speed_boost: { duration: 3 } },
+    expect: [{ tileId: TileTypeId.POWERUP_SPEED, id: 'speed_boost', duration: 3 }],
+  },
+  {
+    name: 'Modifier-only override keeps its pickup tile',
+    powerUps: { super_jump: { modifiers: { jumpMultiplier: 2 } } },
+    expect: [{ tileId: TileTypeId.POWERUP_SUPER_JUMP, id: 'super_jump', duration: POWER_UP_DEFINITIONS.super_jump.duration }],
+  },
+  {
+    name: 'Override naming a non-pickup tile keeps its pickup tile',
+    powerUps: { slow_fall: { tile: 'Grass', duration: 5 } },
+    expect: [{ tileId: TileTypeId.POWERUP_SLOW_FALL, id: 'slow_fall', duration: 5 }],
+  },
+  {
+    name: 'Pack power-up takes over the pickup tile it names',
+    powerUps: { rocket: { tile: 'Speed Boost', duration: 4 } },
+    expect: [{ tileId: TileTypeId.POWERUP_SPEED, id: 'rocket', duration: 4 }],
+  },
+]
+
+/**
+ * Loaded pack assets holding nothing but power-ups
+ */
+function packAssets(powerUps) {
+  return {
+    tileSprites: new Map(),
+    entitySprites: new Map(),
+    playerSprites: {},
+    uiSprites: new Map(),
+    sfx: new Map(),
+    hitboxes: new Map(),
+    surfaces: new Map(),
+    powerUps: new Map(Object.entries(powerUps)),
+    physics: {},
+  }
+}
+
+/**
+ * Compare the power-up each pickup tile grants against the expected ones
+ */
+function checkTiles(expect) {
+  const failures = []
+  for (const { tileId, id, duration } of expect) {
+    const granted = getPowerUpForTile(tileId)
+    if (granted?.id !== id || granted.duration !== duration) {
+      const actual = granted ? `${granted.id} (${granted.duration}s)` : 'nothing'
+      failures.push(`tile ${tileId} grants ${actual}, expected ${id} (${duration}s)`)
+    }
+  }
+  return failures
+}
+
+// ============================================
+// Main
+// ============================================
+
+function main() {
+  console.log('\n⚡ Checking pack power-up overrides...\n')
+
+  const assetStore = new AssetStore()
+  const builtIns = Object.values(POWER_UP_DEFINITIONS)
+    .map(({ tileId, id, duration }) => ({ tileId, id, duration }))
+  let failed = 0
+
+  for (const scenario of SCENARIOS) {
+    assetStore.loadAssets(packAssets(scenario.powerUps), { name: 'Power-Up Check' })
+    const failures = checkTiles(scenario.expect)
+    assetStore.clear()
+    failures.push(...checkTiles(builtIns).map(f => `after clearing: ${f}`))
+
+    if (failures.length > 0) {
+      failed += 1
+      console.log(`❌ ${scenario.name}`)
+      failures.forEach(f => console.log(`   - ${f}`))
+    } else {
+      console.log(`✅ ${scenario.name}`)
+    }
+  }
+
+  console.log('')
+  if (failed > 0) {
+    console.log(`⚠️  ${failed} of ${SCENARIOS.length} scenario(s) failed`)
+    process.exit(1)
+  } else {
+    console.log(`✅ All ${SCENARIOS.length} scenarios passed`)
+  }
+}
+
+main()
@@ -0,0 +1,174 @@
+/**
+ * Headless Level Simulator
+ * 
+ * Plays levels without a browser by driving RootStore with recorded
+ * (F6 in-game, Ctrl+Shift+S to export) or scripted input, then reports
+ * whether the goal was reached, simulated time, and deaths.
+ * 
+ * Usage:
+ *   npm run sim:levels                                  # all campaign levels
+ *   npm run sim:levels -- <level-id>                    # one level
+ *   npm run sim:levels -- --replay <file.replay.json>   # a specific recording
+ *   npm run sim:levels -- --script <file.script.json>   # a specific input script
+ * 
+ * Options:
+ *   --dir <path>          Where to look for <level-id>.replay.json / .script.json
+ *                         (default: replays)
+ *   --max-seconds <n>     Simulated time limit per level (default: 300)
+ *   --skip-missing        Skip levels with no recording or script instead of failing
+ * 
+ * Script files look like:
+ *   { "levelId": "level_1", "steps": [{ "seconds": 1.5, "right": true }, { "frames": 30, "right": true, "jump": true }] }
+ * 
+ * Every campaign level has an input script committed in replays/. Exits with
+ * code 1 if any level is missing its input or fails to reach its goal.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { RootStore } from '../src/stores/RootStore.ts'
+import { simulationService } from '../src/services/SimulationService.ts'
+import { replayService } from '../src/services/ReplayService.ts'
+import { levelRegistry, CAMPAIGN_LEVELS } from '../src/levels/index.ts'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const ROOT = path.join(__dirname, '..')
+
+// ============================================
+// Argument Parsing
+// ============================================
+
+function parseArgs(argv) {
+  const args = { levelId: null, replay: null, script: null, dir: 'replays', maxSeconds: 300, skipMissing: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--replay') args.replay = argv[++i]
+    else if (arg === '--script') args.script = argv[++i]
+    else if (arg === '--dir') args.dir = argv[++i]
+    else if (arg === '--max-seconds') args.maxSeconds = Number(argv[++i])
+    else if (arg === '--skip-missing') args.skipMissing = true
+    else if (!arg.startsWith('--')) args.levelId = arg
+  }
+  return args
+}
+
+// ============================================
+// Input Loading
+// ============================================
+
+function readJSON(file) {
+  return JSON.parse(fs.readFileSync(path.resolve(ROOT, file), 'utf-8'))
+}
+
+function loadReplayFile(file) {
+  const { replay, errors } = replayService.validateReplay(readJSON(file))
+  if (!replay) {
+    throw new Error(`${file}: ${errors.join(', ')}`)
+  }
+  return replay
+}
+
+function loadScriptFile(file, fallbackLevelId) {
+  const script = readJSON(file)
+  const levelId = script.levelId ?? fallbackLevelId
+  if (!levelId) {
+    throw new Error(`${file}: script is missing levelId`)
+  }
+  if (!Array.isArray(script.steps)) {
+    throw new Error(`${file}: script is missing steps`)
+  }
+  return simulationService.replayFromScript(levelId, script.steps)
+}
+
+/**
+ * Find a recording or script for a level in the input directory
+ */
+function findInputForLevel(dir, levelId) {
+  const replayFile = path.join(dir, `${levelId}.replay.json`)
+  if (fs.existsSync(path.resolve(ROOT, replayFile))) return loadReplayFile(replayFile)
+
+  const scriptFile = path.join(dir, `${levelId}.script.json`)
+  if (fs.existsSync(path.resolve(ROOT, scriptFile))) return loadScriptFile(scriptFile, levelId)
+
+  return null
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+function report(levelId, result) {
+  const name = levelRegistry[levelId]?.name ?? 'Unknown'
+  const stats = `${result.time.toFixed(2)}s, ${result.deaths} death${result.deaths === 1 ? '' : 's'}, ${result.coins} coins`
+
+  if (result.reachedGoal) {
+    console.log(`✅ ${levelId} (${name}) - goal reached in ${stats}`)
+  } else {
+    const reason = result.gameOver ? 'game over' : 'goal not reached'
+    console.log(`❌ ${levelId} (${name}) - ${reason} after ${stats}`)
+    result.errors.forEach(err => console.log(`   - ${err}`))
+  }
+}
+
+// ============================================
+// Main
+// ============================================
+
+function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const runs = []
+  let missing = 0
+
+  try {
+    if (args.replay) {
+      runs.push(loadReplayFile(args.replay))
+    } else if (args.script) {
+      runs.push(loadScriptFile(args.script, args.levelId))
+    } else {
+      const levelIds = args.levelId ? [args.levelId] : CAMPAIGN_LEVELS
+      for (const levelId of levelIds) {
+        const replay = findInputForLevel(args.dir, levelId)
+        if (replay) {
+          runs.push(replay)
+        } else if (args.skipMissing) {
+          console.log(`⏭️  ${levelId} - no recording or script in ${args.dir}/`)
+        } else {
+          console.log(`❌ ${levelId} - no recording or script in ${args.dir}/`)
+          missing += 1
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`❌ ${error.message}`)
+    process.exit(1)
+  }
+
+  if (runs.length === 0) {
+    console.log('\n⚠️  Nothing to simulate')
+    if (!args.skipMissing) process.exit(1)
+    return
+  }
+
+  console.log(`\n🎮 Simulating ${runs.length} level(s)...\n`)
+
+  let failures = missing
+  for (const replay of runs) {
+    // Fresh stores per run so state never leaks between levels
+    const rootStore = new RootStore()
+    const result = simulationService.run(rootStore, replay, { maxSeconds: args.maxSeconds })
+    report(replay.levelId, result)
+    if (!result.reachedGoal) failures += 1
+  }
+
+  console.log('')
+
+  if (failures > 0) {
+    console.log(`⚠️  ${failures} of ${runs.length + missing} level(s) did not reach the goal`)
+    process.exit(1)
+  } else {
+    console.log(`✅ All ${runs.length} level(s) reached the goal`)
+  }
+}
+
+main()
@@ -2,7 +2,12 @@
 /**
  * Validate all registered levels
  * 
+ * Checks level structure, then runs the reachability analyzer to confirm the
+ * goal can be reached from the spawn point and to list unreachable coins and
+ * checkpoints.
+ * 
  * Usage: npm run validate:levels
+ *        npm run validate:levels -- --skip-reachability   # structure only (fast)
  */
 
 import { execSync } from 'child_process'
@@ -11,20 +16,51 @@ import { fileURLToPath } from 'url'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const ROOT = path.join(__dirname, '..')
+const checkReachability = !process.argv.includes('--skip-reachability')
 
 // We need to use tsx or ts-node to run TypeScript
 // This script creates a temporary validation runner
 
 const validationCode = `
-import { getAllLevels, validateLevel } from './src/levels/index'
+import { getAllLevels, validateLevel, hasDoubleJumpUnlocked, hasWallJumpUnlocked } from './src/levels/index'
+import { reachabilityService } from './src/services/ReachabilityService'
+
+const checkReachability = ${checkReachability}
 
 console.log('\\n🔍 Validating registered levels...\\n')
 
 const levels = getAllLevels()
 let hasErrors = false
 
+const formatTiles = (tiles) => tiles.map(t => \`(\${t.col},\${t.row})\`).join(' ')
+
 for (const level of levels) {
   const errors = validateLevel(level)
+  const warnings = []
+  
+  if (errors.length === 0 && checkReachability) {
+    const report = reachabilityService.analyze(level, {
+      maxJumps: hasDoubleJumpUnlocked(level.id) ? 2 : 1,
+      wallJump: hasWallJumpUnlocked(level.id),
+    })
+    
+    // Boss levels are completed by the boss kill, not a GOAL tile
+    if (!report.goalReachable && level.winCondition !== 'boss') {
+      if (report.truncated) {
+        warnings.push(\`Could not confirm goal is reachable (stopped after \${report.statesExplored} states)\`)
+      } else {
+        errors.push('Goal is not reachable from player spawn')
+      }
+    } else if (report.truncated) {
+      warnings.push(\`Reachability search stopped after \${report.statesExplored} states - lists may be incomplete\`)
+    }
+    if (report.unreachableCoins.length > 0) {
+      warnings.push(\`\${report.unreachableCoins.length} unreachable coin(s): \${formatTiles(report.unreachableCoins)}\`)
+    }
+    if (report.unreachableCheckpoints.length > 0) {
+      warnings.push(\`\${report.unreachableCheckpoints.length} unreachable checkpoint(s): \${formatTiles(report.unreachableCheckpoints)}\`)
+    }
+  }
   
   if (errors.length > 0) {
     console.log(\`❌ \${level.id} (\${level.name})\`)
@@ -33,6 +69,7 @@ for (const level of levels) {
   } else {
     console.log(\`✅ \${level.id} (\${level.name})\`)
   }
+  warnings.forEach(warning => console.log(\`   ⚠️  \${warning}\`))
 }
 
 console.log('')
@@ -33,6 +33,28 @@ const TILE_SYMBOLS = {
   // Triggers
   [TileTypeId.GOAL]: 'G',
   [TileTypeId.CHECKPOINT]: 'C',
+  [TileTypeId.SWITCH_PRESSURE_PLATE]: '_',
+  [TileTypeId.SWITCH_TOGGLE]: '!',
+  [TileTypeId.SWITCH_TIMED]: 't',
+  [TileTypeId.SWITCH_ARENA_LOCK]: 'L',
+  [TileTypeId.TELEPORTER]: '@',
+  
+  // Mechanisms (as placed)
+  [TileTypeId.DOOR_CLOSED]: 'D',
+  [TileTypeId.GATE_OPEN]: ':',
+  [TileTypeId.BRIDGE_HIDDEN]: '-',
+  
+  // Keys and locked doors (any color)
+  [TileTypeId.KEY]: 'k',
+  [TileTypeId.KEY_RED]: 'k',
+  [TileTypeId.KEY_BLUE]: 'k',
+  [TileTypeId.KEY_GREEN]: 'k',
+  [TileTypeId.KEY_YELLOW]: 'k',
+  [TileTypeId.LOCKED_DOOR]: 'K',
+  [TileTypeId.LOCKED_DOOR_RED]: 'K',
+  [TileTypeId.LOCKED_DOOR_BLUE]: 'K',
+  [TileTypeId.LOCKED_DOOR_GREEN]: 'K',
+  [TileTypeId.LOCKED_DOOR_YELLOW]: 'K',
   
   // Hazards
   [TileTypeId.HAZARD_FULL]: 'X',
@@ -123,6 +145,7 @@ function visualizeLevel(levelId) {
   console.log('  L  Half Left      R  Half Right      T  Half Top         B  Half Bottom')
   console.log('  1  Quarter TL     2  Quarter TR      3  Quarter BL       4  Quarter BR')
   console.log('  /  Slope          \\  Slope')
+  console.log('  k  Key            K  Locked Door     @  Teleporter')
   console.log()
   
   // Analysis
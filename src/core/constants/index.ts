@@ -14,12 +14,44 @@ export const CAMERA_LERP_SPEED = 8      // Higher = snappier follow (1-10 recomm
 export const CAMERA_DEADZONE_X = 80     // Pixels before camera moves horizontally
 export const CAMERA_DEADZONE_Y = 60     // Pixels before camera moves vertically
 
-// Physics constants
+// Game loop constants
+export const FIXED_TIMESTEP = 1 / 120   // Seconds per simulation step (120 Hz)
+export const MAX_FRAME_TIME = 0.1       // Cap frame time at 100ms to prevent huge jumps
+
+// Physics constants (defaults, overridable per pack and per level via PhysicsProfile)
 export const GRAVITY = 1500           // Pixels/sec² downward
 export const PLAYER_SPEED = 300       // Pixels/sec horizontal
 export const JUMP_VELOCITY = -640     // Initial upward velocity (negative = up)
 export const MAX_FALL_SPEED = 800     // Terminal velocity
 export const FRICTION = 0.85          // Ground deceleration multiplier
+export const GROUND_DECELERATION = 0  // Ground deceleration with no input, px/s² (0 = stop instantly)
+
+// Jump feel (defaults, overridable per level via jumpSettings)
+export const COYOTE_TIME = 0.1        // Seconds the ground jump survives after walking off a ledge
+export const JUMP_BUFFER_TIME = 0.12  // Seconds a jump press is remembered before landing
+export const JUMP_CUT_MULTIPLIER = 0.5  // Upward velocity kept when jump is released early (1 = fixed height)
+
+// Wall slide & wall jump (levels with hasWallJumpUnlocked)
+export const WALL_SLIDE_SPEED = 150         // Fall speed cap while pushing into a wall
+export const WALL_JUMP_VELOCITY_X = 360     // Kick away from the wall
+export const WALL_JUMP_VELOCITY_Y = -600    // Upward velocity of a wall jump
+export const WALL_JUMP_LOCK_DURATION = 0.15 // Seconds horizontal input is ignored after the kick
+
+// Swimming (water and other liquid tiles)
+export const SWIM_STROKE_VELOCITY = -360    // Upward kick of a swim stroke (jump while submerged)
+export const OXYGEN_REFILL_RATE = 4         // Seconds of air regained per second above the surface
+
+// Climbing (ladder and vine tiles)
+export const CLIMB_SPEED = 200              // Vertical speed while holding up/down on a climbable
+
+// Springs and bounce pads (launch speeds are per tile surface)
+export const LAUNCH_LOCK_DURATION = 0.3     // Seconds horizontal input is ignored after a sideways launch
+
+// One-way platforms (platform tiles and one-way moving platforms)
+export const DROP_THROUGH_DURATION = 0.25   // Seconds one-way platforms are ignored after down+jump
+
+// Teleporters (the cooldown only runs once the player is off every teleporter)
+export const TELEPORT_COOLDOWN = 0.5        // Seconds teleporters stay inactive after arriving
 
 // Player dimensions (smaller than tile for forgiving collision)
 export const PLAYER_WIDTH = 60   // Slightly less than 1 tile wide
@@ -43,12 +75,12 @@ export const COLORS = {
 // Default lives per level
 export const DEFAULT_LIVES = 3
 
-// Power-up durations (seconds)
-export const TRIPLE_JUMP_DURATION = 10
-export const SPEED_BOOST_DURATION = 8
-export const SUPER_JUMP_DURATION = 8
-export const INVINCIBILITY_DURATION = 6
+// Health & damage (levels with maxHealth)
+export const HURT_INVULNERABILITY_DURATION = 1.5  // I-frame seconds after taking damage
+export const KNOCKBACK_DURATION = 0.25       // Seconds horizontal input is ignored after a hit
+export const KNOCKBACK_VELOCITY_X = 320      // Pushed away from the damage source
+export const KNOCKBACK_VELOCITY_Y = -420     // Popped upward
 
-// Power-up multipliers
-export const SPEED_BOOST_MULTIPLIER = 2.0    // 2x movement speed
-export const SUPER_JUMP_MULTIPLIER = 1.5     // 1.5x jump height
+// Switches & channels
+export const TIMED_SWITCH_DURATION = 5       // Seconds a timed switch stays on
+export const DEFAULT_CHANNEL = 'A'           // Channel for switches/mechanisms with no wiring
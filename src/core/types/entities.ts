@@ -13,14 +13,56 @@ import type { GridPosition } from '../../levels/types'
 export type EntityType =
   | 'enemy_patrol'      // Walks back and forth on platforms
   | 'enemy_static'      // Stationary hazard enemy
-  | 'enemy_flying'      // Aerial enemy (future)
-  | 'enemy_jumping'     // Jumps periodically (future)
+  | 'enemy_flying'      // Aerial patrol (sine wave or waypoints), ignores gravity
+  | 'enemy_jumping'     // Hops toward or away from the player on an interval
+  | 'enemy_turret'      // Stationary shooter, fires projectiles
+  | 'enemy_boss'        // Multi-hit enemy driven by a scripted phase sequence
+  | 'projectile'        // Short-lived shot, spawned at runtime from the pool
+  | 'platform_moving'   // Rideable platform following a waypoint path
+  | 'crate'             // Pushable box with gravity, can be stood on
 
 /**
  * Direction an entity is facing/moving
  */
 export type EntityDirection = 'left' | 'right'
 
+/**
+ * Which way a jumping enemy hops relative to the player
+ */
+export type JumpDirection = 'toward' | 'away'
+
+/**
+ * When a turret fires: on a fixed timer, or only while the player is in line of sight
+ */
+export type FireMode = 'timer' | 'sight'
+
+/**
+ * Boss behavior phases
+ * - idle: stands still facing the player
+ * - charge: rushes toward the player until the phase ends or it reaches a wall/ledge
+ * - vulnerable: stunned; the only phase in which a stomp deals damage
+ */
+export type BossPhase = 'idle' | 'charge' | 'vulnerable'
+
+/**
+ * One step of a boss's phase sequence
+ */
+export interface BossPhaseStep {
+  phase: BossPhase
+  /** Seconds the phase lasts */
+  duration: number
+  /** Movement speed override for this phase (pixels per second) */
+  speed?: number
+}
+
+/**
+ * Phase sequence a boss loops through while its health is at or below the threshold
+ */
+export interface BossStage {
+  healthThreshold: number
+  steps: BossPhaseStep[]
+}
+
 /**
  * Runtime entity instance - an active entity in the game world
  */
@@ -38,6 +80,10 @@ export interface Entity {
   x: number
   y: number
   
+  /** Position at the start of the current simulation step (for render interpolation) */
+  prevX: number
+  prevY: number
+  
   /** Velocity in pixels per second */
   vx: number
   vy: number
@@ -93,6 +139,12 @@ export interface EntityDefinition {
   
   /** Sprite ID for custom rendering (future) */
   spriteId?: string
+  
+  /** Only collides from above, like one-way platform tiles (platforms) */
+  isOneWay?: boolean
+  
+  /** Phase script by health stage, highest threshold first (bosses) */
+  bossStages?: BossStage[]
 }
 
 /**
@@ -113,6 +165,26 @@ export interface EntitySpawn {
     respawns?: boolean
     /** Custom patrol range in tiles (0 = infinite) */
     patrolRange?: number
+    /** Grid positions visited after the spawn position (moving platforms) */
+    waypoints?: GridPosition[]
+    /** Return to the spawn position after the last waypoint instead of reversing */
+    loop?: boolean
+    /** Override movement speed in pixels per second */
+    speed?: number
+    /** Vertical sine-wave amplitude in tiles (flying enemies, default 1) */
+    waveAmplitude?: number
+    /** Seconds per sine-wave cycle (flying enemies, default 2) */
+    wavePeriod?: number
+    /** Seconds between hops (jumping enemies, default 1.5) */
+    jumpInterval?: number
+    /** Hop toward or away from the player (jumping enemies, default toward) */
+    jumpDirection?: JumpDirection
+    /** Seconds between shots (turrets, default 2) */
+    fireInterval?: number
+    /** Fire on a timer or on line of sight (turrets, default timer) */
+    fireMode?: FireMode
+    /** Line-of-sight range in tiles (turrets in sight mode, default 8) */
+    sightRange?: number
   }
 }
 
@@ -150,12 +222,162 @@ export const ENEMY_STATIC: EntityDefinition = {
   color: '#9b2c2c', // Dark red
 }
 
+/**
+ * Flying enemy - weaves through the air along a sine wave or waypoint path
+ */
+export const ENEMY_FLYING: EntityDefinition = {
+  id: 'enemy_flying',
+  type: 'enemy_flying',
+  displayName: 'Flying Enemy',
+  width: 48,
+  height: 40,
+  speed: 90,
+  damage: 1,
+  health: 1,
+  color: '#805ad5', // Purple
+}
+
+/**
+ * Jumping enemy - hops toward (or away from) the player at a fixed interval
+ */
+export const ENEMY_JUMPING: EntityDefinition = {
+  id: 'enemy_jumping',
+  type: 'enemy_jumping',
+  displayName: 'Jumping Enemy',
+  width: 48,
+  height: 48,
+  speed: 140,
+  damage: 1,
+  health: 1,
+  color: '#dd6b20', // Orange
+}
+
+/**
+ * Turret enemy - stays put and fires projectiles in its facing direction
+ */
+export const ENEMY_TURRET: EntityDefinition = {
+  id: 'enemy_turret',
+  type: 'enemy_turret',
+  displayName: 'Turret',
+  width: 48,
+  height: 48,
+  speed: 0,
+  damage: 1,
+  health: 1,
+  color: '#4a5568', // Slate
+}
+
+/**
+ * Boss enemy - idles, charges, then is briefly stunned; each stomp during
+ * the stun costs it one health and it speeds up below half health
+ */
+export const ENEMY_BOSS: EntityDefinition = {
+  id: 'enemy_boss',
+  type: 'enemy_boss',
+  displayName: 'Boss',
+  width: 128,
+  height: 128,
+  speed: 240,
+  damage: 1,
+  health: 6,
+  color: '#702459', // Dark magenta
+  bossStages: [
+    {
+      healthThreshold: 6,
+      steps: [
+        { phase: 'idle', duration: 1.5 },
+        { phase: 'charge', duration: 2 },
+        { phase: 'vulnerable', duration: 2.5 },
+      ],
+    },
+    {
+      healthThreshold: 3,
+      steps: [
+        { phase: 'idle', duration: 0.8 },
+        { phase: 'charge', duration: 1.5, speed: 340 },
+        { phase: 'vulnerable', duration: 1.5 },
+      ],
+    },
+  ],
+}
+
+/**
+ * Projectile - fired by turrets, speed is the muzzle velocity
+ * Never placed in levels; spawned and recycled through EntityStore's pool.
+ */
+export const PROJECTILE: EntityDefinition = {
+  id: 'projectile',
+  type: 'projectile',
+  displayName: 'Projectile',
+  width: 16,
+  height: 16,
+  speed: 320,
+  damage: 1,
+  health: 1,
+  color: '#f6e05e', // Yellow
+}
+
+/**
+ * Moving platform - solid block that carries the player along its waypoints
+ */
+export const PLATFORM_MOVING: EntityDefinition = {
+  id: 'platform_moving',
+  type: 'platform_moving',
+  displayName: 'Moving Platform',
+  width: 128,
+  height: 32,
+  speed: 100,
+  damage: 0,
+  health: 1,
+  color: '#8b6914', // Dark gold
+}
+
+/**
+ * One-way moving platform - can be jumped through from below
+ */
+export const PLATFORM_MOVING_ONE_WAY: EntityDefinition = {
+  id: 'platform_moving_oneway',
+  type: 'platform_moving',
+  displayName: 'Moving Platform (One-Way)',
+  width: 128,
+  height: 16,
+  speed: 100,
+  damage: 0,
+  health: 1,
+  color: '#b7791f', // Amber
+  isOneWay: true,
+}
+
+/**
+ * Crate - falls under gravity and slides when pushed, speed is the top push speed
+ * Players and enemies can stand on it, and it holds down pressure plates.
+ */
+export const CRATE: EntityDefinition = {
+  id: 'crate',
+  type: 'crate',
+  displayName: 'Crate',
+  width: 64,
+  height: 64,
+  speed: 150,
+  damage: 0,
+  health: 1,
+  color: '#a0522d', // Sienna
+}
+
 /**
  * Registry of all entity definitions
  */
 export const ENTITY_DEFINITIONS: Record<string, EntityDefinition> = {
   [ENEMY_PATROL.id]: ENEMY_PATROL,
   [ENEMY_STATIC.id]: ENEMY_STATIC,
+  [ENEMY_FLYING.id]: ENEMY_FLYING,
+  [ENEMY_JUMPING.id]: ENEMY_JUMPING,
+  [ENEMY_TURRET.id]: ENEMY_TURRET,
+  [ENEMY_BOSS.id]: ENEMY_BOSS,
+  [PROJECTILE.id]: PROJECTILE,
+  [PLATFORM_MOVING.id]: PLATFORM_MOVING,
+  [PLATFORM_MOVING_ONE_WAY.id]: PLATFORM_MOVING_ONE_WAY,
+  [CRATE.id]: CRATE,
 }
 
 /**
@@ -165,6 +387,25 @@ export function getEntityDefinition(id: string): EntityDefinition | undefined {
   return ENTITY_DEFINITIONS[id]
 }
 
+/**
+ * Get the full waypoint path of a spawn (spawn position first)
+ */
+export function getWaypointPath(spawn: EntitySpawn): GridPosition[] {
+  return [spawn.position, ...(spawn.properties?.waypoints ?? [])]
+}
+
+/**
+ * Get the boss stage for the current health (the lowest threshold at or above it)
+ */
+export function getBossStageIndex(definition: EntityDefinition, health: number): number {
+  const stages = definition.bossStages ?? []
+  let index = 0
+  for (let i = 0; i < stages.length; i++) {
+    if (health <= stages[i].healthThreshold) index = i
+  }
+  return index
+}
+
 /**
  * Generate a unique entity ID
  */
@@ -0,0 +1,174 @@
+/**
+ * Physics Profile Types
+ * 
+ * The movement constants a level pack (config/params.json) or a single level
+ * can override. The active profile layers level overrides over pack overrides
+ * over the core/constants defaults, and drops the level layer on level exit.
+ */
+
+import { GRAVITY, JUMP_VELOCITY, PLAYER_SPEED, MAX_FALL_SPEED, GROUND_DECELERATION } from '../constants'
+
+/**
+ * Movement constants used by the player, entities and falling tiles
+ */
+export interface PhysicsProfile {
+  /** Pixels/sec² downward */
+  gravity: number
+  /** Initial upward velocity of a jump (negative = up) */
+  jumpVelocity: number
+  /** Pixels/sec horizontal */
+  playerSpeed: number
+  /** Terminal velocity */
+  maxFallSpeed: number
+  /** Ground deceleration with no input, px/s² (0 = stop instantly; surfaces with their own friction win) */
+  groundDeceleration: number
+}
+
+/**
+ * Per-level or per-pack overrides (omitted fields keep the layer below)
+ */
+export type PhysicsOverrides = Partial<PhysicsProfile>
+
+/**
+ * Pack parameter file (config/params.json)
+ */
+export interface PackParams {
+  physics?: PhysicsOverrides
+}
+
+/**
+ * Game defaults from core/constants
+ */
+export const DEFAULT_PHYSICS_PROFILE: PhysicsProfile = {
+  gravity: GRAVITY,
+  jumpVelocity: JUMP_VELOCITY,
+  playerSpeed: PLAYER_SPEED,
+  maxFallSpeed: MAX_FALL_SPEED,
+  groundDeceleration: GROUND_DECELERATION,
+}
+
+/**
+ * Preset IDs offered by the editor
+ */
+export type PhysicsPresetId = 'floaty' | 'speedy' | 'hardcore'
+
+/**
+ * Named set of overrides the editor can apply in one click
+ */
+export interface PhysicsPreset {
+  id: PhysicsPresetId
+  displayName: string
+  description: string
+  overrides: PhysicsOverrides
+}
+
+/**
+ * Low gravity and a slow fall: higher, longer jumps and a little slide on landing
+ */
+export const PHYSICS_PRESET_FLOATY: PhysicsPreset = {
+  id: 'floaty',
+  displayName: 'Floaty',
+  description: 'Low gravity, high slow jumps, slight slide',
+  overrides: { gravity: 900, jumpVelocity: -560, maxFallSpeed: 450, groundDeceleration: 1200 },
+}
+
+/**
+ * Fast running with snappier jumps to match
+ */
+export const PHYSICS_PRESET_SPEEDY: PhysicsPreset = {
+  id: 'speedy',
+  displayName: 'Speedy',
+  description: 'Fast running, quick jumps, short skid',
+  overrides: { gravity: 1800, jumpVelocity: -720, playerSpeed: 450, groundDeceleration: 2400 },
+}
+
+/**
+ * Heavy and fast: lower jumps and a harder fall leave less room for error
+ */
+export const PHYSICS_PRESET_HARDCORE: PhysicsPreset = {
+  id: 'hardcore',
+  displayName: 'Hardcore',
+  description: 'Heavy gravity, lower jumps, fast falls',
+  overrides: { gravity: 1900, jumpVelocity: -680, playerSpeed: 340, maxFallSpeed: 1000 },
+}
+
+/**
+ * Registry of editor presets (also the menu order)
+ */
+export const PHYSICS_PRESETS: Record<PhysicsPresetId, PhysicsPreset> = {
+  floaty: PHYSICS_PRESET_FLOATY,
+  speedy: PHYSICS_PRESET_SPEEDY,
+  hardcore: PHYSICS_PRESET_HARDCORE,
+}
+
+// Pack overrides (config/params.json) and current level overrides
+let packPhysicsOverrides: PhysicsOverrides = {}
+let levelPhysicsOverrides: PhysicsOverrides = {}
+let activeProfile: PhysicsProfile = DEFAULT_PHYSICS_PROFILE
+
+/**
+ * Layer overrides over a profile, skipping omitted fields
+ */
+function applyOverrides(profile: PhysicsProfile, overrides: PhysicsOverrides): PhysicsProfile {
+  const result = { ...profile }
+  for (const key of Object.keys(result) as (keyof PhysicsProfile)[]) {
+    const value = overrides[key]
+    if (value !== undefined) result[key] = value
+  }
+  return result
+}
+
+/**
+ * Replace the pack's overrides (an empty object restores the defaults)
+ */
+export function setPackPhysicsOverrides(overrides: PhysicsOverrides): void {
+  packPhysicsOverrides = { ...overrides }
+  activeProfile = resolvePhysicsProfile(levelPhysicsOverrides)
+}
+
+/**
+ * Replace the current level's overrides (call with none on level exit)
+ */
+export function setLevelPhysicsOverrides(overrides: PhysicsOverrides = {}): void {
+  levelPhysicsOverrides = { ...overrides }
+  activeProfile = resolvePhysicsProfile(levelPhysicsOverrides)
+}
+
+/**
+ * Get the profile for the level being played
+ */
+export function getPhysicsProfile(): PhysicsProfile {
+  return activeProfile
+}
+
+/**
+ * Get the profile a level would play with under the loaded pack
+ * (used by level analysis without touching the active profile)
+ */
+export function resolvePhysicsProfile(levelOverrides: PhysicsOverrides = {}): PhysicsProfile {
+  return applyOverrides(applyOverrides(DEFAULT_PHYSICS_PROFILE, packPhysicsOverrides), levelOverrides)
+}
+
+/**
+ * Check override values are usable
+ * @returns One message per bad field (empty when valid)
+ */
+export function validatePhysicsOverrides(overrides: PhysicsOverrides): string[] {
+  const errors: string[] = []
+  const finite = (value: number) => typeof value === 'number' && Number.isFinite(value)
+  const { gravity, jumpVelocity, playerSpeed, maxFallSpeed, groundDeceleration } = overrides
+
+  for (const [name, value] of [['gravity', gravity], ['playerSpeed', playerSpeed], ['maxFallSpeed', maxFallSpeed]] as const) {
+    if (value !== undefined && !(finite(value) && value > 0)) {
+      errors.push(`${name} must be a positive number`)
+    }
+  }
+  if (jumpVelocity !== undefined && !(finite(jumpVelocity) && jumpVelocity < 0)) {
+    errors.push('jumpVelocity must be negative (up)')
+  }
+  if (groundDeceleration !== undefined && !(finite(groundDeceleration) && groundDeceleration >= 0)) {
+    errors.push('groundDeceleration must be zero or more')
+  }
+
+  return errors
+}
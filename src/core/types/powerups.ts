@@ -0,0 +1,309 @@
+/**
+ * Power-Up System Types
+ * 
+ * Power-ups are timed effects granted by pickup tiles. Each one is declared
+ * as data: how long it lasts, what a second pickup does, how it modifies the
+ * player and how its HUD indicator looks. Packs can add or tweak them.
+ */
+
+import { TileTypeId, TILE_COLORS } from './shapes'
+
+/**
+ * What picking up a power-up does while it is already active
+ * - refresh: restart the timer at the full duration
+ * - extend: add the duration to the time left (up to maxDuration)
+ * - ignore: keep the current timer
+ */
+export type PowerUpStacking = 'refresh' | 'extend' | 'ignore'
+
+/**
+ * How a power-up changes the player while active (omitted fields change nothing)
+ */
+export interface PowerUpModifiers {
+  /** Horizontal speed multiplier */
+  speedMultiplier?: number
+  /** Jump velocity multiplier */
+  jumpMultiplier?: number
+  /** Gravity multiplier while falling */
+  fallGravityMultiplier?: number
+  /** Fall speed cap multiplier */
+  fallSpeedMultiplier?: number
+  /** Jumps per landing (used when above the level's own) */
+  maxJumps?: number
+  /** Hazards, enemies and projectiles can't hurt the player; touched enemies die */
+  damageImmunity?: boolean
+  /** Blocks the next hit, then ends */
+  absorbsHit?: boolean
+  /** Coins within this many pixels of the player's center are collected */
+  coinMagnetRadius?: number
+}
+
+/**
+ * Procedural HUD indicator drawn above the player
+ */
+export interface PowerUpIcon {
+  color: string
+  /** Decoration drawn with the indicator dot */
+  glyph?: 'speedLines' | 'arrowUp' | 'arrowDown' | 'ring' | 'horseshoe'
+  /** Pulse and glow the dot */
+  pulse?: boolean
+  /** Outline the player while active */
+  outlinePlayer?: boolean
+}
+
+/**
+ * Static power-up definition
+ */
+export interface PowerUpDefinition {
+  /** Unique identifier */
+  id: string
+  
+  /** Display name for HUD/debug */
+  displayName: string
+  
+  /** Seconds the effect lasts */
+  duration: number
+  
+  /** What a pickup does while the power-up is active */
+  stacking: PowerUpStacking
+  
+  /** Longest an extended timer may run (extend stacking, default: no cap) */
+  maxDuration?: number
+  
+  /** Effect on the player */
+  modifiers: PowerUpModifiers
+  
+  /** HUD indicator */
+  icon: PowerUpIcon
+  
+  /** Pickup tile that grants it */
+  tileId?: number
+}
+
+/**
+ * Combined effect of every active power-up
+ * Multipliers multiply, jumps and radii take the largest, flags combine.
+ */
+export interface PowerUpEffects {
+  speedMultiplier: number
+  jumpMultiplier: number
+  fallGravityMultiplier: number
+  fallSpeedMultiplier: number
+  maxJumps: number
+  damageImmunity: boolean
+  absorbsHit: boolean
+  coinMagnetRadius: number
+}
+
+/**
+ * Pack-provided power-up fields (PackManifest.powerUps), merged over the
+ * built-in with the same ID; unknown IDs become new power-ups
+ */
+export type PowerUpOverride = Partial<Omit<PowerUpDefinition, 'id'>>
+
+// ============================================
+// Predefined Power-Up Definitions
+// ============================================
+
+/**
+ * Triple jump - three jumps per landing
+ */
+export const POWERUP_TRIPLE_JUMP: PowerUpDefinition = {
+  id: 'triple_jump',
+  displayName: 'Triple Jump',
+  duration: 10,
+  stacking: 'refresh',
+  modifiers: { maxJumps: 3 },
+  icon: { color: TILE_COLORS.powerup },
+  tileId: TileTypeId.POWERUP_TRIPLE_JUMP,
+}
+
+/**
+ * Speed boost - 2x movement speed
+ */
+export const POWERUP_SPEED_BOOST: PowerUpDefinition = {
+  id: 'speed_boost',
+  displayName: 'Speed Boost',
+  duration: 8,
+  stacking: 'refresh',
+  modifiers: { speedMultiplier: 2 },
+  icon: { color: TILE_COLORS.speedBoost, glyph: 'speedLines' },
+  tileId: TileTypeId.POWERUP_SPEED,
+}
+
+/**
+ * Super jump - 1.5x jump velocity
+ */
+export const POWERUP_SUPER_JUMP: PowerUpDefinition = {
+  id: 'super_jump',
+  displayName: 'Super Jump',
+  duration: 8,
+  stacking: 'refresh',
+  modifiers: { jumpMultiplier: 1.5 },
+  icon: { color: TILE_COLORS.superJump, glyph: 'arrowUp' },
+  tileId: TileTypeId.POWERUP_SUPER_JUMP,
+}
+
+/**
+ * Invincibility - immune to damage, kills enemies on contact
+ */
+export const POWERUP_INVINCIBILITY: PowerUpDefinition = {
+  id: 'invincibility',
+  displayName: 'Invincibility',
+  duration: 6,
+  stacking: 'refresh',
+  modifiers: { damageImmunity: true },
+  icon: { color: TILE_COLORS.invincibility, pulse: true, outlinePlayer: true },
+  tileId: TileTypeId.POWERUP_INVINCIBILITY,
+}
+
+/**
+ * Shield - blocks one hit then disappears
+ */
+export const POWERUP_SHIELD: PowerUpDefinition = {
+  id: 'shield',
+  displayName: 'Shield',
+  duration: 20,
+  stacking: 'refresh',
+  modifiers: { absorbsHit: true },
+  icon: { color: TILE_COLORS.shield, glyph: 'ring', outlinePlayer: true },
+  tileId: TileTypeId.POWERUP_SHIELD,
+}
+
+/**
+ * Magnet - collects nearby coins; extra magnets add time
+ */
+export const POWERUP_MAGNET: PowerUpDefinition = {
+  id: 'magnet',
+  displayName: 'Magnet',
+  duration: 10,
+  stacking: 'extend',
+  maxDuration: 20,
+  modifiers: { coinMagnetRadius: 160 },
+  icon: { color: TILE_COLORS.magnet, glyph: 'horseshoe' },
+  tileId: TileTypeId.POWERUP_MAGNET,
+}
+
+/**
+ * Slow fall - reduced gravity and fall speed while descending
+ */
+export const POWERUP_SLOW_FALL: PowerUpDefinition = {
+  id: 'slow_fall',
+  displayName: 'Slow Fall',
+  duration: 10,
+  stacking: 'refresh',
+  modifiers: { fallGravityMultiplier: 0.35, fallSpeedMultiplier: 0.3 },
+  icon: { color: TILE_COLORS.slowFall, glyph: 'arrowDown' },
+  tileId: TileTypeId.POWERUP_SLOW_FALL,
+}
+
+/**
+ * Registry of all built-in power-up definitions (also the HUD stacking order)
+ */
+export const POWER_UP_DEFINITIONS: Record<string, PowerUpDefinition> = {
+  [POWERUP_TRIPLE_JUMP.id]: POWERUP_TRIPLE_JUMP,
+  [POWERUP_SPEED_BOOST.id]: POWERUP_SPEED_BOOST,
+  [POWERUP_SUPER_JUMP.id]: POWERUP_SUPER_JUMP,
+  [POWERUP_INVINCIBILITY.id]: POWERUP_INVINCIBILITY,
+  [POWERUP_SHIELD.id]: POWERUP_SHIELD,
+  [POWERUP_MAGNET.id]: POWERUP_MAGNET,
+  [POWERUP_SLOW_FALL.id]: POWERUP_SLOW_FALL,
+}
+
+// Pack-provided power-ups by ID (PackManifest.powerUps)
+const powerUpOverrides = new Map<string, PowerUpOverride>()
+
+/**
+ * Replace pack-provided power-ups (an empty map restores the built-ins)
+ */
+export function setPowerUpOverrides(overrides: Map<string, PowerUpOverride>): void {
+  powerUpOverrides.clear()
+  for (const [id, override] of overrides) {
+    powerUpOverrides.set(id, override)
+  }
+}
+
+/**
+ * Get power-up definition by ID (pack overrides win per field)
+ */
+export function getPowerUpDefinition(id: string): PowerUpDefinition | undefined {
+  const builtIn = POWER_UP_DEFINITIONS[id]
+  const override = powerUpOverrides.get(id)
+  if (!override) return builtIn
+
+  // Pack-only power-ups start from a plain 10-second, no-effect definition
+  const base: PowerUpDefinition = builtIn ?? {
+    id,
+    displayName: id,
+    duration: 10,
+    stacking: 'refresh',
+    modifiers: {},
+    icon: { color: TILE_COLORS.powerup },
+  }
+  return {
+    ...base,
+    ...override,
+    id,
+    modifiers: { ...base.modifiers, ...override.modifiers },
+    icon: { ...base.icon, ...override.icon },
+  }
+}
+
+/**
+ * Get every power-up definition: built-ins first, then pack-only ones
+ */
+export function getPowerUpDefinitions(): PowerUpDefinition[] {
+  const ids = new Set([...Object.keys(POWER_UP_DEFINITIONS), ...powerUpOverrides.keys()])
+  return [...ids].map(id => getPowerUpDefinition(id)!)
+}
+
+/**
+ * Get the power-up a pickup tile grants (pack mappings win over built-ins)
+ */
+export function getPowerUpForTile(tileId: number): PowerUpDefinition | undefined {
+  const definitions = getPowerUpDefinitions()
+  const fromPack = definitions.find(d => powerUpOverrides.get(d.id)?.tileId === tileId)
+  return fromPack ?? definitions.find(d => d.tileId === tileId)
+}
+
+/**
+ * Combine the modifiers of a set of active power-ups
+ */
+export function combinePowerUpEffects(ids: Iterable<string>): PowerUpEffects {
+  const effects: PowerUpEffects = {
+    speedMultiplier: 1,
+    jumpMultiplier: 1,
+    fallGravityMultiplier: 1,
+    fallSpeedMultiplier: 1,
+    maxJumps: 0,
+    damageImmunity: false,
+    absorbsHit: false,
+    coinMagnetRadius: 0,
+  }
+
+  for (const id of ids) {
+    const modifiers = getPowerUpDefinition(id)?.modifiers
+    if (!modifiers) continue
+
+    effects.speedMultiplier *= modifiers.speedMultiplier ?? 1
+    effects.jumpMultiplier *= modifiers.jumpMultiplier ?? 1
+    effects.fallGravityMultiplier *= modifiers.fallGravityMultiplier ?? 1
+    effects.fallSpeedMultiplier *= modifiers.fallSpeedMultiplier ?? 1
+    effects.maxJumps = Math.max(effects.maxJumps, modifiers.maxJumps ?? 0)
+    effects.damageImmunity ||= modifiers.damageImmunity ?? false
+    effects.absorbsHit ||= modifiers.absorbsHit ?? false
+    effects.coinMagnetRadius = Math.max(effects.coinMagnetRadius, modifiers.coinMagnetRadius ?? 0)
+  }
+
+  return effects
+}
+
+/**
+ * Timer a pickup leaves a power-up with, per its stacking rule
+ * @param remaining - Seconds left if already active
+ */
+export function getStackedDuration(definition: PowerUpDefinition, remaining?: number): number {
+  if (remaining === undefined || definition.stacking === 'refresh') return definition.duration
+  if (definition.stacking === 'ignore') return remaining
+  return Math.min(remaining + definition.duration, definition.maxDuration ?? Infinity)
+}
@@ -0,0 +1,51 @@
+/**
+ * Replay Types
+ *
+ * Recorded input streams for deterministic playback.
+ * One input frame is captured per fixed simulation step.
+ */
+
+/**
+ * Bit flags for packing an InputState into a single number
+ */
+export const InputBit = {
+  LEFT: 1 << 0,
+  RIGHT: 1 << 1,
+  UP: 1 << 2,
+  DOWN: 1 << 3,
+  JUMP: 1 << 4,
+  JUMP_JUST_PRESSED: 1 << 5,
+} as const
+
+/**
+ * Every bit a recorded frame may set
+ */
+export const INPUT_BIT_MASK = Object.values(InputBit).reduce((all, bit) => all | bit, 0)
+
+/**
+ * Run of identical input frames: [bitmask, repeatCount]
+ */
+export type ReplayFrameRun = [number, number]
+
+/**
+ * Replay file format (JSON-serializable)
+ */
+export interface ReplayData {
+  /** Format version for future migrations */
+  formatVersion: 1
+
+  /** Level the replay was recorded on (registry ID) */
+  levelId: string
+
+  /** Simulation step in seconds the frames were recorded at */
+  timestep: number
+
+  /** Total number of recorded frames (after run-length expansion) */
+  frameCount: number
+
+  /** Run-length encoded input bitmasks */
+  frames: ReplayFrameRun[]
+
+  /** ISO timestamp of when the recording finished */
+  recordedAt?: string
+}
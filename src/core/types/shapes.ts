@@ -26,15 +26,47 @@ export interface CollisionShape {
   vertices?: NormalizedPoint[]  // For polygon type
 }
 
+// How a surface feels underfoot (omitted fields behave like normal ground)
+export interface SurfaceProperties {
+  friction?: number      // Deceleration with no input, px/s² (default: stop instantly)
+  acceleration?: number  // Speed-up toward the input direction, px/s² (default: instant)
+  maxSpeed?: number      // Top speed multiplier (default 1)
+  bounciness?: number    // Share of landing speed bounced back up, 0-1 (default 0)
+  conveyorSpeed?: number // Sideways speed added to bodies standing on it, px/s (+ is right)
+  launchSpeed?: number   // Launch speed on landing, px/s; a faster landing keeps its own speed (springs, pads)
+  launchAngle?: number   // Launch direction in degrees from straight up, + is right (default 0)
+}
+
+// How a liquid moves bodies whose center is inside it (replaces normal gravity)
+export interface LiquidProperties {
+  buoyancy: number         // Upward push against GRAVITY, px/s²
+  drag: number             // Share of vertical speed lost per second
+  speedMultiplier: number  // Horizontal speed multiplier
+}
+
+// How a tile gives way after being stood on (crumbling blocks, falling platforms)
+export interface CrumbleProperties {
+  delay: number             // Seconds of shaking before it gives way
+  falls?: boolean           // Drops out of the level instead of vanishing on the spot
+  regenerateAfter?: number  // Seconds after giving way until it reappears (default: never)
+}
+
 // Tile type definition with collision shape and visual info
 export interface TileType {
   id: number
   name: string
-  category: 'solid' | 'hazard' | 'pickup' | 'trigger' | 'decoration'
+  category: 'solid' | 'platform' | 'hazard' | 'pickup' | 'trigger' | 'liquid' | 'climbable' | 'decoration'
   collision: CollisionShape
   color: string  // MVP color, replaced by sprite later
+  damage?: number  // Health lost on contact (hazards, default 1)
+  surface?: SurfaceProperties  // Movement on top of the tile (solids and platforms)
+  liquid?: LiquidProperties  // Swimming physics inside the tile (water, lava)
+  crumble?: CrumbleProperties  // Gives way after being stood on (solids)
 }
 
+// Key colors: a key only opens locked doors of its own color
+export type KeyColor = 'plain' | 'red' | 'blue' | 'green' | 'yellow'
+
 // ============================================
 // Predefined Collision Shapes
 // ============================================
@@ -171,6 +203,18 @@ export const SHAPES = {
     type: 'rect',
     rect: { x: 0.25, y: 0.25, w: 0.5, h: 0.5 }
   } as CollisionShape,
+  
+  // Thin plate on the tile floor (pressure plates)
+  FLOOR_PLATE: {
+    type: 'rect',
+    rect: { x: 0.1, y: 0.85, w: 0.8, h: 0.15 }
+  } as CollisionShape,
+  
+  // Upright post (lever switches)
+  LEVER: {
+    type: 'rect',
+    rect: { x: 0.35, y: 0.3, w: 0.3, h: 0.7 }
+  } as CollisionShape,
 } as const
 
 // ============================================
@@ -208,6 +252,19 @@ export const TileTypeId = {
   SOLID_CRYSTAL: 22,
   SOLID_LAVA_ROCK: 23,
   
+  // Dynamic surfaces (30-39) - solids that carry or launch what lands on them
+  CONVEYOR_LEFT: 30,
+  CONVEYOR_RIGHT: 31,
+  SPRING: 32,
+  BOUNCE_PAD_LEFT: 33,
+  BOUNCE_PAD_RIGHT: 34,
+  
+  // Crumbling solids (40-49) - shake when stood on, then vanish or fall
+  CRUMBLING_BLOCK: 40,
+  CRUMBLING_BLOCK_REGROWING: 41,
+  FALLING_PLATFORM: 42,
+  FALLING_PLATFORM_RETURNING: 43,
+  
   // One-way platforms (50-59)
   PLATFORM_FULL: 50,
   PLATFORM_HALF_LEFT: 51,
@@ -226,10 +283,46 @@ export const TileTypeId = {
   POWERUP_SPEED: 82,
   POWERUP_SUPER_JUMP: 83,
   POWERUP_INVINCIBILITY: 84,
+  POWERUP_SHIELD: 85,
+  POWERUP_MAGNET: 86,
+  POWERUP_SLOW_FALL: 87,
+  KEY: 88,
+  KEY_RED: 89,
+  KEY_BLUE: 90,
+  KEY_GREEN: 91,
+  KEY_YELLOW: 92,
   
   // Triggers (100-119)
   GOAL: 100,
   CHECKPOINT: 101,
+  SWITCH_PRESSURE_PLATE: 102,
+  SWITCH_TOGGLE: 103,
+  SWITCH_TIMED: 104,
+  SWITCH_ARENA_LOCK: 105,
+  TELEPORTER: 106,
+  
+  // Mechanisms (120-139) - swap between inactive/active tiles via channels
+  DOOR_CLOSED: 120,
+  DOOR_OPEN: 121,
+  GATE_OPEN: 122,
+  GATE_CLOSED: 123,
+  BRIDGE_HIDDEN: 124,
+  BRIDGE_EXTENDED: 125,
+  
+  // Liquids (140-149) - swum through instead of stood on
+  WATER: 140,
+  LAVA: 141,
+  
+  // Climbables (150-159) - grabbed with up/down, no collision
+  LADDER: 150,
+  VINE: 151,
+  
+  // Locked doors (160-169) - solid until touched while holding a matching key
+  LOCKED_DOOR: 160,
+  LOCKED_DOOR_RED: 161,
+  LOCKED_DOOR_BLUE: 162,
+  LOCKED_DOOR_GREEN: 163,
+  LOCKED_DOOR_YELLOW: 164,
 } as const
 export type TileTypeId = typeof TileTypeId[keyof typeof TileTypeId]
 
@@ -244,8 +337,33 @@ export const TILE_COLORS = {
   speedBoost: '#f6ad55',    // Orange for speed boost
   superJump: '#9f7aea',     // Purple for super jump
   invincibility: '#ffd700', // Gold for invincibility
+  shield: '#63b3ed',        // Sky blue for shield
+  magnet: '#f56565',        // Light red for magnet
+  slowFall: '#b2f5ea',      // Pale teal for slow fall
   goal: '#48bb78',
   checkpoint: '#4299e1',
+  switch: '#ed8936',
+  switchTimed: '#d69e2e',
+  arenaLock: '#b83280',
+  teleporter: '#00b5d8',
+  door: '#975a16',
+  gate: '#718096',
+  bridge: '#b7791f',
+  conveyor: '#4a5568',
+  spring: '#d53f8c',
+  bouncePad: '#38b2ac',
+  crumbling: '#a68a64',
+  falling: '#c05621',
+  water: '#3182ce',
+  lava: '#f05e16',
+  ladder: '#a0522d',
+  vine: '#38a169',
+  // Keys and locked doors share their key color
+  keyPlain: '#cbd5e0',  // Silver
+  keyRed: '#c53030',
+  keyBlue: '#2b6cb0',
+  keyGreen: '#2f855a',
+  keyYellow: '#d69e2e',
   // Custom solid colors (for different sprite themes)
   brick: '#8b4513',     // Saddle brown
   stone: '#708090',     // Slate gray
@@ -397,6 +515,7 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     category: 'solid',
     collision: SHAPES.FULL,
     color: TILE_COLORS.ice,
+    surface: { friction: 300, acceleration: 600 },
   },
   [TileTypeId.SOLID_GRASS]: {
     id: TileTypeId.SOLID_GRASS,
@@ -411,6 +530,7 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     category: 'solid',
     collision: SHAPES.FULL,
     color: TILE_COLORS.sand,
+    surface: { maxSpeed: 0.55 },
   },
   [TileTypeId.SOLID_DIRT]: {
     id: TileTypeId.SOLID_DIRT,
@@ -434,26 +554,102 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     color: TILE_COLORS.lavaRock,
   },
   
+  // Dynamic surfaces
+  [TileTypeId.CONVEYOR_LEFT]: {
+    id: TileTypeId.CONVEYOR_LEFT,
+    name: 'Conveyor Left',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.conveyor,
+    surface: { conveyorSpeed: -150 },
+  },
+  [TileTypeId.CONVEYOR_RIGHT]: {
+    id: TileTypeId.CONVEYOR_RIGHT,
+    name: 'Conveyor Right',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.conveyor,
+    surface: { conveyorSpeed: 150 },
+  },
+  [TileTypeId.SPRING]: {
+    id: TileTypeId.SPRING,
+    name: 'Spring',
+    category: 'solid',
+    collision: SHAPES.HALF_BOTTOM,
+    color: TILE_COLORS.spring,
+    surface: { launchSpeed: 1000 },
+  },
+  [TileTypeId.BOUNCE_PAD_LEFT]: {
+    id: TileTypeId.BOUNCE_PAD_LEFT,
+    name: 'Bounce Pad Left',
+    category: 'solid',
+    collision: SHAPES.SLOPE_UP_RIGHT,  // Faces up and to the left
+    color: TILE_COLORS.bouncePad,
+    surface: { launchSpeed: 900, launchAngle: -45 },
+  },
+  [TileTypeId.BOUNCE_PAD_RIGHT]: {
+    id: TileTypeId.BOUNCE_PAD_RIGHT,
+    name: 'Bounce Pad Right',
+    category: 'solid',
+    collision: SHAPES.SLOPE_UP_LEFT,  // Faces up and to the right
+    color: TILE_COLORS.bouncePad,
+    surface: { launchSpeed: 900, launchAngle: 45 },
+  },
+  
+  // Crumbling solids
+  [TileTypeId.CRUMBLING_BLOCK]: {
+    id: TileTypeId.CRUMBLING_BLOCK,
+    name: 'Crumbling Block',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.crumbling,
+    crumble: { delay: 0.5 },
+  },
+  [TileTypeId.CRUMBLING_BLOCK_REGROWING]: {
+    id: TileTypeId.CRUMBLING_BLOCK_REGROWING,
+    name: 'Crumbling Block (Regrows)',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.crumbling,
+    crumble: { delay: 0.5, regenerateAfter: 3 },
+  },
+  [TileTypeId.FALLING_PLATFORM]: {
+    id: TileTypeId.FALLING_PLATFORM,
+    name: 'Falling Platform',
+    category: 'solid',
+    collision: SHAPES.HALF_TOP,
+    color: TILE_COLORS.falling,
+    crumble: { delay: 0.4, falls: true },
+  },
+  [TileTypeId.FALLING_PLATFORM_RETURNING]: {
+    id: TileTypeId.FALLING_PLATFORM_RETURNING,
+    name: 'Falling Platform (Returns)',
+    category: 'solid',
+    collision: SHAPES.HALF_TOP,
+    color: TILE_COLORS.falling,
+    crumble: { delay: 0.4, falls: true, regenerateAfter: 4 },
+  },
+  
   // One-way platforms
   [TileTypeId.PLATFORM_FULL]: {
     id: TileTypeId.PLATFORM_FULL,
     name: 'Platform',
-    category: 'solid',
-    collision: SHAPES.HALF_TOP,  // Only top half collides
+    category: 'platform',
+    collision: SHAPES.HALF_TOP,  // Only top half collides (from above)
     color: TILE_COLORS.platform,
   },
   [TileTypeId.PLATFORM_HALF_LEFT]: {
     id: TileTypeId.PLATFORM_HALF_LEFT,
     name: 'Platform Half Left',
-    category: 'solid',
-    collision: SHAPES.QUARTER_TL,
+    category: 'platform',
+    collision: SHAPES.QUARTER_TL,  // Left half of the top only
     color: TILE_COLORS.platform,
   },
   [TileTypeId.PLATFORM_HALF_RIGHT]: {
     id: TileTypeId.PLATFORM_HALF_RIGHT,
     name: 'Platform Half Right',
-    category: 'solid',
-    collision: SHAPES.QUARTER_TR,
+    category: 'platform',
+    collision: SHAPES.QUARTER_TR,  // Right half of the top only
     color: TILE_COLORS.platform,
   },
   
@@ -464,6 +660,7 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     category: 'hazard',
     collision: SHAPES.FULL,
     color: TILE_COLORS.hazard,
+    damage: 2,
   },
   [TileTypeId.HAZARD_SPIKE_UP]: {
     id: TileTypeId.HAZARD_SPIKE_UP,
@@ -530,6 +727,62 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     collision: SHAPES.PICKUP,
     color: TILE_COLORS.invincibility,
   },
+  [TileTypeId.POWERUP_SHIELD]: {
+    id: TileTypeId.POWERUP_SHIELD,
+    name: 'Shield',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.shield,
+  },
+  [TileTypeId.POWERUP_MAGNET]: {
+    id: TileTypeId.POWERUP_MAGNET,
+    name: 'Magnet',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.magnet,
+  },
+  [TileTypeId.POWERUP_SLOW_FALL]: {
+    id: TileTypeId.POWERUP_SLOW_FALL,
+    name: 'Slow Fall',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.slowFall,
+  },
+  [TileTypeId.KEY]: {
+    id: TileTypeId.KEY,
+    name: 'Key',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.keyPlain,
+  },
+  [TileTypeId.KEY_RED]: {
+    id: TileTypeId.KEY_RED,
+    name: 'Red Key',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.keyRed,
+  },
+  [TileTypeId.KEY_BLUE]: {
+    id: TileTypeId.KEY_BLUE,
+    name: 'Blue Key',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.keyBlue,
+  },
+  [TileTypeId.KEY_GREEN]: {
+    id: TileTypeId.KEY_GREEN,
+    name: 'Green Key',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.keyGreen,
+  },
+  [TileTypeId.KEY_YELLOW]: {
+    id: TileTypeId.KEY_YELLOW,
+    name: 'Yellow Key',
+    category: 'pickup',
+    collision: SHAPES.PICKUP,
+    color: TILE_COLORS.keyYellow,
+  },
   
   // Triggers
   [TileTypeId.GOAL]: {
@@ -546,6 +799,178 @@ export const TILE_TYPES: Record<TileTypeId, TileType> = {
     collision: SHAPES.FULL,
     color: TILE_COLORS.checkpoint,
   },
+  [TileTypeId.SWITCH_PRESSURE_PLATE]: {
+    id: TileTypeId.SWITCH_PRESSURE_PLATE,
+    name: 'Pressure Plate',
+    category: 'trigger',
+    collision: SHAPES.FLOOR_PLATE,
+    color: TILE_COLORS.switch,
+  },
+  [TileTypeId.SWITCH_TOGGLE]: {
+    id: TileTypeId.SWITCH_TOGGLE,
+    name: 'Toggle Switch',
+    category: 'trigger',
+    collision: SHAPES.LEVER,
+    color: TILE_COLORS.switch,
+  },
+  [TileTypeId.SWITCH_TIMED]: {
+    id: TileTypeId.SWITCH_TIMED,
+    name: 'Timed Switch',
+    category: 'trigger',
+    collision: SHAPES.LEVER,
+    color: TILE_COLORS.switchTimed,
+  },
+  [TileTypeId.SWITCH_ARENA_LOCK]: {
+    id: TileTypeId.SWITCH_ARENA_LOCK,
+    name: 'Arena Lock',
+    category: 'trigger',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.arenaLock,
+  },
+  [TileTypeId.TELEPORTER]: {
+    id: TileTypeId.TELEPORTER,
+    name: 'Teleporter',
+    category: 'trigger',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.teleporter,
+  },
+  
+  // Mechanisms (open/hidden states have no collision)
+  [TileTypeId.DOOR_CLOSED]: {
+    id: TileTypeId.DOOR_CLOSED,
+    name: 'Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.door,
+  },
+  [TileTypeId.DOOR_OPEN]: {
+    id: TileTypeId.DOOR_OPEN,
+    name: 'Door (Open)',
+    category: 'decoration',
+    collision: SHAPES.NONE,
+    color: TILE_COLORS.door,
+  },
+  [TileTypeId.GATE_OPEN]: {
+    id: TileTypeId.GATE_OPEN,
+    name: 'Gate',
+    category: 'decoration',
+    collision: SHAPES.NONE,
+    color: TILE_COLORS.gate,
+  },
+  [TileTypeId.GATE_CLOSED]: {
+    id: TileTypeId.GATE_CLOSED,
+    name: 'Gate (Closed)',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.gate,
+  },
+  [TileTypeId.BRIDGE_HIDDEN]: {
+    id: TileTypeId.BRIDGE_HIDDEN,
+    name: 'Bridge',
+    category: 'decoration',
+    collision: SHAPES.NONE,
+    color: TILE_COLORS.bridge,
+  },
+  [TileTypeId.BRIDGE_EXTENDED]: {
+    id: TileTypeId.BRIDGE_EXTENDED,
+    name: 'Bridge (Extended)',
+    category: 'solid',
+    collision: SHAPES.HALF_TOP,
+    color: TILE_COLORS.bridge,
+  },
+  
+  // Liquids (lava is also a hazard, so it burns like one)
+  [TileTypeId.WATER]: {
+    id: TileTypeId.WATER,
+    name: 'Water',
+    category: 'liquid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.water,
+    liquid: { buoyancy: 1200, drag: 3, speedMultiplier: 0.6 },
+  },
+  [TileTypeId.LAVA]: {
+    id: TileTypeId.LAVA,
+    name: 'Lava',
+    category: 'hazard',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.lava,
+    damage: 2,
+    liquid: { buoyancy: 1350, drag: 6, speedMultiplier: 0.4 },
+  },
+  
+  // Climbables
+  [TileTypeId.LADDER]: {
+    id: TileTypeId.LADDER,
+    name: 'Ladder',
+    category: 'climbable',
+    collision: SHAPES.NONE,
+    color: TILE_COLORS.ladder,
+  },
+  [TileTypeId.VINE]: {
+    id: TileTypeId.VINE,
+    name: 'Vine',
+    category: 'climbable',
+    collision: SHAPES.NONE,
+    color: TILE_COLORS.vine,
+  },
+  
+  // Locked doors
+  [TileTypeId.LOCKED_DOOR]: {
+    id: TileTypeId.LOCKED_DOOR,
+    name: 'Locked Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.keyPlain,
+  },
+  [TileTypeId.LOCKED_DOOR_RED]: {
+    id: TileTypeId.LOCKED_DOOR_RED,
+    name: 'Red Locked Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.keyRed,
+  },
+  [TileTypeId.LOCKED_DOOR_BLUE]: {
+    id: TileTypeId.LOCKED_DOOR_BLUE,
+    name: 'Blue Locked Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.keyBlue,
+  },
+  [TileTypeId.LOCKED_DOOR_GREEN]: {
+    id: TileTypeId.LOCKED_DOOR_GREEN,
+    name: 'Green Locked Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.keyGreen,
+  },
+  [TileTypeId.LOCKED_DOOR_YELLOW]: {
+    id: TileTypeId.LOCKED_DOOR_YELLOW,
+    name: 'Yellow Locked Door',
+    category: 'solid',
+    collision: SHAPES.FULL,
+    color: TILE_COLORS.keyYellow,
+  },
+}
+
+/**
+ * Mechanism tile pairs: the tile placed in the level (inactive) and the tile
+ * it becomes while its channel is on (active)
+ */
+export const MECHANISM_PAIRS: { inactive: TileTypeId; active: TileTypeId }[] = [
+  { inactive: TileTypeId.DOOR_CLOSED, active: TileTypeId.DOOR_OPEN },
+  { inactive: TileTypeId.GATE_OPEN, active: TileTypeId.GATE_CLOSED },
+  { inactive: TileTypeId.BRIDGE_HIDDEN, active: TileTypeId.BRIDGE_EXTENDED },
+]
+
+/**
+ * Key pickup and locked door tiles of each key color
+ */
+export const KEY_TILES: Record<KeyColor, { key: TileTypeId; door: TileTypeId }> = {
+  plain: { key: TileTypeId.KEY, door: TileTypeId.LOCKED_DOOR },
+  red: { key: TileTypeId.KEY_RED, door: TileTypeId.LOCKED_DOOR_RED },
+  blue: { key: TileTypeId.KEY_BLUE, door: TileTypeId.LOCKED_DOOR_BLUE },
+  green: { key: TileTypeId.KEY_GREEN, door: TileTypeId.LOCKED_DOOR_GREEN },
+  yellow: { key: TileTypeId.KEY_YELLOW, door: TileTypeId.LOCKED_DOOR_YELLOW },
 }
 
 // Helper to get tile type by ID
@@ -553,6 +978,36 @@ export function getTileType(id: number): TileType {
   return TILE_TYPES[id as TileTypeId] || TILE_TYPES[TileTypeId.EMPTY]
 }
 
+// Pack-provided surface properties by tile type ID (PackManifest.surfaces)
+const tileSurfaceOverrides = new Map<number, SurfaceProperties>()
+
+// Helper to replace tile surfaces with pack-provided ones (an empty map restores the built-ins)
+export function setTileSurfaceOverrides(overrides: Map<number, SurfaceProperties>): void {
+  tileSurfaceOverrides.clear()
+  for (const [id, surface] of overrides) {
+    tileSurfaceOverrides.set(id, surface)
+  }
+}
+
+// Helper to get the surface properties of a tile type (pack overrides win per field)
+export function getTileSurface(id: number): SurfaceProperties {
+  return { ...getTileType(id).surface, ...tileSurfaceOverrides.get(id) }
+}
+
+// Helper to find a tile type by name, ignoring case, spaces and underscores (pack manifests)
+export function findTileTypeIdByName(name: string): TileTypeId | undefined {
+  const normalizedName = name.toLowerCase().replace(/[_\s]+/g, '')
+
+  for (const [idStr, tileType] of Object.entries(TILE_TYPES)) {
+    const tileName = tileType.name.toLowerCase().replace(/[_\s]+/g, '')
+    if (tileName === normalizedName) {
+      return Number(idStr) as TileTypeId
+    }
+  }
+
+  return undefined
+}
+
 // Helper to check if tile type is solid (blocks movement)
 export function isTileTypeSolid(id: number): boolean {
   const tileType = getTileType(id)
@@ -571,13 +1026,76 @@ export function isTileTypePickup(id: number): boolean {
   return tileType.category === 'pickup'
 }
 
+// Helper to check if tile type is a power-up pickup (which power-up is up to the power-up registry)
+export function isTileTypePowerUp(id: number): boolean {
+  return id >= TileTypeId.POWERUP_TRIPLE_JUMP && id <= TileTypeId.POWERUP_SLOW_FALL
+}
+
 // Helper to check if tile type is a trigger
 export function isTileTypeTrigger(id: number): boolean {
   const tileType = getTileType(id)
   return tileType.category === 'trigger'
 }
 
-// Helper to check if tile type is a one-way platform
+// Helper to check if tile type is a switch (broadcasts on a channel)
+export function isTileTypeSwitch(id: number): boolean {
+  return id >= TileTypeId.SWITCH_PRESSURE_PLATE && id <= TileTypeId.SWITCH_ARENA_LOCK
+}
+
+// Helper to check if tile type is a mechanism (listens on a channel)
+export function isTileTypeMechanism(id: number): boolean {
+  return id >= TileTypeId.DOOR_CLOSED && id <= TileTypeId.BRIDGE_EXTENDED
+}
+
+// Helper to get the tile a mechanism shows in the given channel state
+export function getMechanismTile(id: number, active: boolean): number {
+  const pair = MECHANISM_PAIRS.find(p => p.inactive === id || p.active === id)
+  if (!pair) return id
+  return active ? pair.active : pair.inactive
+}
+
+// Helper to check if tile type is a key pickup
+export function isTileTypeKey(id: number): boolean {
+  return id >= TileTypeId.KEY && id <= TileTypeId.KEY_YELLOW
+}
+
+// Helper to check if tile type is a locked door
+export function isTileTypeLockedDoor(id: number): boolean {
+  return id >= TileTypeId.LOCKED_DOOR && id <= TileTypeId.LOCKED_DOOR_YELLOW
+}
+
+// Helper to get the key color of a key or locked door tile (undefined for anything else)
+export function getTileKeyColor(id: number): KeyColor | undefined {
+  return (Object.keys(KEY_TILES) as KeyColor[])
+    .find(color => KEY_TILES[color].key === id || KEY_TILES[color].door === id)
+}
+
+// Helper to get the swimming physics of a tile type (undefined if it isn't a liquid)
+export function getTileLiquid(id: number): LiquidProperties | undefined {
+  return getTileType(id).liquid
+}
+
+// Helper to check if tile type is a liquid (water, lava)
+export function isTileTypeLiquid(id: number): boolean {
+  return getTileLiquid(id) !== undefined
+}
+
+// Helper to get how a tile type gives way (undefined if it doesn't crumble)
+export function getTileCrumble(id: number): CrumbleProperties | undefined {
+  return getTileType(id).crumble
+}
+
+// Helper to check if tile type crumbles or falls when stood on
+export function isTileTypeCrumbling(id: number): boolean {
+  return getTileCrumble(id) !== undefined
+}
+
+// Helper to check if tile type can be climbed (ladders, vines)
+export function isTileTypeClimbable(id: number): boolean {
+  return getTileType(id).category === 'climbable'
+}
+
+// Helper to check if tile type is a one-way platform (lands from above, passable otherwise)
 export function isTileTypePlatform(id: number): boolean {
-  return id >= TileTypeId.PLATFORM_FULL && id <= TileTypeId.PLATFORM_HALF_RIGHT
+  return getTileType(id).category === 'platform'
 }
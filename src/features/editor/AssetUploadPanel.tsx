@@ -34,6 +34,9 @@ const TILE_GROUPS: TileGroup[] = [
       TileTypeId.POWERUP_SPEED,
       TileTypeId.POWERUP_SUPER_JUMP,
       TileTypeId.POWERUP_INVINCIBILITY,
+      TileTypeId.POWERUP_SHIELD,
+      TileTypeId.POWERUP_MAGNET,
+      TileTypeId.POWERUP_SLOW_FALL,
     ],
   },
   {
@@ -41,6 +44,37 @@ const TILE_GROUPS: TileGroup[] = [
     tiles: [
       TileTypeId.GOAL,
       TileTypeId.CHECKPOINT,
+      TileTypeId.TELEPORTER,
+      TileTypeId.SWITCH_PRESSURE_PLATE,
+      TileTypeId.SWITCH_TOGGLE,
+      TileTypeId.SWITCH_TIMED,
+      TileTypeId.SWITCH_ARENA_LOCK,
+    ],
+  },
+  {
+    name: 'Mechanisms',
+    tiles: [
+      TileTypeId.DOOR_CLOSED,
+      TileTypeId.DOOR_OPEN,
+      TileTypeId.GATE_OPEN,
+      TileTypeId.GATE_CLOSED,
+      TileTypeId.BRIDGE_HIDDEN,
+      TileTypeId.BRIDGE_EXTENDED,
+    ],
+  },
+  {
+    name: 'Keys & Locks',
+    tiles: [
+      TileTypeId.KEY,
+      TileTypeId.KEY_RED,
+      TileTypeId.KEY_BLUE,
+      TileTypeId.KEY_GREEN,
+      TileTypeId.KEY_YELLOW,
+      TileTypeId.LOCKED_DOOR,
+      TileTypeId.LOCKED_DOOR_RED,
+      TileTypeId.LOCKED_DOOR_BLUE,
+      TileTypeId.LOCKED_DOOR_GREEN,
+      TileTypeId.LOCKED_DOOR_YELLOW,
     ],
   },
   {
@@ -58,6 +92,25 @@ const TILE_GROUPS: TileGroup[] = [
       TileTypeId.SOLID_LAVA_ROCK,
     ],
   },
+  {
+    name: 'Dynamic Surfaces',
+    tiles: [
+      TileTypeId.CONVEYOR_LEFT,
+      TileTypeId.CONVEYOR_RIGHT,
+      TileTypeId.SPRING,
+      TileTypeId.BOUNCE_PAD_LEFT,
+      TileTypeId.BOUNCE_PAD_RIGHT,
+    ],
+  },
+  {
+    name: 'Crumbling Tiles',
+    tiles: [
+      TileTypeId.CRUMBLING_BLOCK,
+      TileTypeId.CRUMBLING_BLOCK_REGROWING,
+      TileTypeId.FALLING_PLATFORM,
+      TileTypeId.FALLING_PLATFORM_RETURNING,
+    ],
+  },
 ]
 
 /**
@@ -68,7 +121,7 @@ const ENTITY_LIST: EntityDefinition[] = Object.values(ENTITY_DEFINITIONS)
 /**
  * SFX names that can be customized
  */
-const SFX_NAMES = ['jump', 'coin', 'death', 'goal', 'checkpoint'] as const
+const SFX_NAMES = ['jump', 'coin', 'death', 'hurt', 'goal', 'checkpoint', 'key', 'unlock', 'teleport'] as const
 type SfxName = typeof SFX_NAMES[number]
 
 /**
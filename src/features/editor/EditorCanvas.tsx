@@ -84,6 +84,11 @@ export const EditorCanvas = observer(function EditorCanvas() {
           if (tileId !== TileTypeId.EMPTY) {
             editorStore.setSelectedTileType(tileId as TileTypeId)
           }
+          // Pick up the channel too, so wired tiles can be copied
+          const channel = editorStore.getChannelAt(col, row)
+          if (channel) {
+            editorStore.setSelectedChannel(channel)
+          }
           // Switch back to paint after picking
           editorStore.setTool('paint')
         }
@@ -194,6 +199,9 @@ export const EditorCanvas = observer(function EditorCanvas() {
    */
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Let text fields (e.g. channel name) receive typing
+      if (e.target instanceof HTMLInputElement && e.target.type === 'text') return
+
       // Exit editor mode
       if (e.code === 'KeyE' || e.code === 'Escape') {
         editorStore.setMode('game')
@@ -360,7 +368,7 @@ export const EditorCanvas = observer(function EditorCanvas() {
     
     // Check spawn point is not inside a solid tile
     const spawnTile = editorStore.collision[spawn.row]?.[spawn.col]
-    if (spawnTile !== undefined && spawnTile >= TileTypeId.SOLID_FULL && spawnTile <= TileTypeId.SOLID_LAVA_ROCK) {
+    if (spawnTile !== undefined && spawnTile >= TileTypeId.SOLID_FULL && spawnTile <= TileTypeId.FALLING_PLATFORM_RETURNING) {
       errors.push('Player spawn point is inside a solid tile')
     }
     
@@ -423,9 +431,17 @@ export const EditorCanvas = observer(function EditorCanvas() {
             position: { col: e.position.col, row: e.position.row },
             properties: e.properties,
           })),
+          wiring: json.wiring,
+          teleporters: json.teleporters,
           description: json.description,
           author: json.author,
           startingLives: json.startingLives,
+          maxHealth: json.maxHealth,
+          winCondition: json.winCondition,
+          jumpSettings: json.jumpSettings,
+          oxygenTime: json.oxygenTime,
+          keepKeysAtCheckpoint: json.keepKeysAtCheckpoint,
+          physics: json.physics,
           parTime: json.parTime,
           themeId: json.themeId,
         })
@@ -507,6 +523,9 @@ export const EditorCanvas = observer(function EditorCanvas() {
           background,
           music,
           sfx: sfx.size > 0 ? sfx : undefined,
+          surfaces: assetStore.surfaces.size > 0 ? new Map(assetStore.surfaces) : undefined,
+          powerUps: assetStore.powerUps.size > 0 ? new Map(assetStore.powerUps) : undefined,
+          physics: Object.keys(assetStore.physics).length > 0 ? { ...assetStore.physics } : undefined,
         },
         {
           name: level.name,
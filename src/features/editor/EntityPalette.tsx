@@ -1,11 +1,11 @@
 import { observer } from 'mobx-react-lite'
 import { useEditorStore, useAssetStore } from '../../stores/RootStore'
-import { ENTITY_DEFINITIONS, type EntityDefinition } from '../../core/types/entities'
+import { ENTITY_DEFINITIONS, type EntityDefinition, type FireMode, type JumpDirection } from '../../core/types/entities'
 
 /**
- * Get all entity definitions as an array
+ * Get all placeable entity definitions as an array (projectiles only spawn at runtime)
  */
-const ENTITY_LIST: EntityDefinition[] = Object.values(ENTITY_DEFINITIONS)
+const ENTITY_LIST: EntityDefinition[] = Object.values(ENTITY_DEFINITIONS).filter(d => d.type !== 'projectile')
 
 /**
  * EntityPalette - Entity selection panel for the editor
@@ -97,6 +97,87 @@ export const EntityPalette = observer(function EntityPalette() {
               <span>Direction:</span>
               <span>{editorStore.selectedEntity.properties?.startDirection || 'right'}</span>
             </div>
+            {editorStore.selectedEntity.definitionId === 'enemy_flying' && (
+              <div className="entity-instance-row">
+                <label htmlFor="entity-wave-amplitude">Wave (tiles):</label>
+                <input
+                  id="entity-wave-amplitude"
+                  type="number"
+                  min="0"
+                  max="10"
+                  step="0.5"
+                  value={editorStore.selectedEntity.properties?.waveAmplitude ?? 1}
+                  onChange={(e) => editorStore.updateEntityProperties(editorStore.selectedEntity!.editorId, {
+                    waveAmplitude: Number(e.target.value),
+                  })}
+                  className="size-input"
+                />
+              </div>
+            )}
+            {editorStore.selectedEntity.definitionId === 'enemy_turret' && (
+              <>
+                <div className="entity-instance-row">
+                  <label htmlFor="entity-fire-interval">Fire every (s):</label>
+                  <input
+                    id="entity-fire-interval"
+                    type="number"
+                    min="0.25"
+                    max="10"
+                    step="0.25"
+                    value={editorStore.selectedEntity.properties?.fireInterval ?? 2}
+                    onChange={(e) => editorStore.updateEntityProperties(editorStore.selectedEntity!.editorId, {
+                      fireInterval: Number(e.target.value),
+                    })}
+                    className="size-input"
+                  />
+                </div>
+                <div className="entity-instance-row">
+                  <label htmlFor="entity-fire-mode">Fires:</label>
+                  <select
+                    id="entity-fire-mode"
+                    value={editorStore.selectedEntity.properties?.fireMode ?? 'timer'}
+                    onChange={(e) => editorStore.updateEntityProperties(editorStore.selectedEntity!.editorId, {
+                      fireMode: e.target.value as FireMode,
+                    })}
+                  >
+                    <option value="timer">On a timer</option>
+                    <option value="sight">When player in sight</option>
+                  </select>
+                </div>
+              </>
+            )}
+            {editorStore.selectedEntity.definitionId === 'enemy_jumping' && (
+              <>
+                <div className="entity-instance-row">
+                  <label htmlFor="entity-jump-interval">Interval (s):</label>
+                  <input
+                    id="entity-jump-interval"
+                    type="number"
+                    min="0.25"
+                    max="10"
+                    step="0.25"
+                    value={editorStore.selectedEntity.properties?.jumpInterval ?? 1.5}
+                    onChange={(e) => editorStore.updateEntityProperties(editorStore.selectedEntity!.editorId, {
+                      jumpInterval: Number(e.target.value),
+                    })}
+                    className="size-input"
+                  />
+                </div>
+                <div className="entity-instance-row">
+                  <label htmlFor="entity-jump-direction">Hops:</label>
+                  <select
+                    id="entity-jump-direction"
+                    value={editorStore.selectedEntity.properties?.jumpDirection ?? 'toward'}
+                    onChange={(e) => editorStore.updateEntityProperties(editorStore.selectedEntity!.editorId, {
+                      jumpDirection: e.target.value as JumpDirection,
+                    })}
+                  >
+                    <option value="toward">Toward player</option>
+                    <option value="away">Away from player</option>
+                  </select>
+                </div>
+              </>
+            )}
             <button
               className="action-button danger"
               onClick={() => editorStore.removeSelectedEntity()}
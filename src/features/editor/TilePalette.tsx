@@ -1,8 +1,31 @@
 import { useState } from 'react'
 import { observer } from 'mobx-react-lite'
 import { useEditorStore, useAssetStore } from '../../stores/RootStore'
-import { TileTypeId, TILE_TYPES, getTileType } from '../../core/types/shapes'
+import { TileTypeId, TILE_TYPES, getTileType, isTileTypeSwitch, isTileTypeMechanism } from '../../core/types/shapes'
 import type { EditorTool } from '../../stores/EditorStore'
+import { COYOTE_TIME, JUMP_BUFFER_TIME, JUMP_CUT_MULTIPLIER } from '../../core/constants'
+import type { JumpSettings, TeleportCamera, WinCondition } from '../../levels/types'
+import { PHYSICS_PRESETS, resolvePhysicsProfile, type PhysicsOverrides, type PhysicsPresetId } from '../../core/types/physics'
+
+/**
+ * Per-level jump setting inputs (blank = game default, shown as placeholder)
+ */
+const JUMP_SETTING_INPUTS: { key: keyof JumpSettings; label: string; fallback: number; max: number; title: string }[] = [
+  { key: 'coyoteTime', label: 'Coyote:', fallback: COYOTE_TIME, max: 1, title: 'Seconds the player can still jump after walking off a ledge' },
+  { key: 'jumpBuffer', label: 'Buffer:', fallback: JUMP_BUFFER_TIME, max: 1, title: 'Seconds a jump press is remembered before landing' },
+  { key: 'jumpCut', label: 'Jump cut:', fallback: JUMP_CUT_MULTIPLIER, max: 1, title: 'Rising speed kept when jump is released early (1 = fixed height)' },
+]
+
+/**
+ * Per-level physics inputs (blank = pack or game default, shown as placeholder)
+ */
+const PHYSICS_INPUTS: { key: keyof PhysicsOverrides; label: string; step: number; title: string }[] = [
+  { key: 'gravity', label: 'Gravity:', step: 50, title: 'Downward acceleration, pixels/sec²' },
+  { key: 'jumpVelocity', label: 'Jump:', step: 10, title: 'Initial jump velocity, pixels/sec (negative = up)' },
+  { key: 'playerSpeed', label: 'Run:', step: 10, title: 'Running speed, pixels/sec' },
+  { key: 'maxFallSpeed', label: 'Max fall:', step: 50, title: 'Terminal velocity, pixels/sec' },
+  { key: 'groundDeceleration', label: 'Decel:', step: 100, title: 'Ground deceleration with no input, pixels/sec² (0 = stop instantly)' },
+]
 
 /**
  * Tile categories for organization
@@ -47,6 +70,25 @@ const TILE_CATEGORIES: TileCategory[] = [
       TileTypeId.SOLID_LAVA_ROCK,
     ],
   },
+  {
+    name: 'Dynamic',
+    tiles: [
+      TileTypeId.CONVEYOR_LEFT,
+      TileTypeId.CONVEYOR_RIGHT,
+      TileTypeId.SPRING,
+      TileTypeId.BOUNCE_PAD_LEFT,
+      TileTypeId.BOUNCE_PAD_RIGHT,
+    ],
+  },
+  {
+    name: 'Crumbling',
+    tiles: [
+      TileTypeId.CRUMBLING_BLOCK,
+      TileTypeId.CRUMBLING_BLOCK_REGROWING,
+      TileTypeId.FALLING_PLATFORM,
+      TileTypeId.FALLING_PLATFORM_RETURNING,
+    ],
+  },
   {
     name: 'Platform',
     tiles: [
@@ -73,6 +115,29 @@ const TILE_CATEGORIES: TileCategory[] = [
       TileTypeId.POWERUP_SPEED,
       TileTypeId.POWERUP_SUPER_JUMP,
       TileTypeId.POWERUP_INVINCIBILITY,
+      TileTypeId.POWERUP_SHIELD,
+      TileTypeId.POWERUP_MAGNET,
+      TileTypeId.POWERUP_SLOW_FALL,
+    ],
+  },
+  {
+    name: 'Key',
+    tiles: [
+      TileTypeId.KEY,
+      TileTypeId.KEY_RED,
+      TileTypeId.KEY_BLUE,
+      TileTypeId.KEY_GREEN,
+      TileTypeId.KEY_YELLOW,
+    ],
+  },
+  {
+    name: 'Locked Door',
+    tiles: [
+      TileTypeId.LOCKED_DOOR,
+      TileTypeId.LOCKED_DOOR_RED,
+      TileTypeId.LOCKED_DOOR_BLUE,
+      TileTypeId.LOCKED_DOOR_GREEN,
+      TileTypeId.LOCKED_DOOR_YELLOW,
     ],
   },
   {
@@ -80,6 +145,38 @@ const TILE_CATEGORIES: TileCategory[] = [
     tiles: [
       TileTypeId.GOAL,
       TileTypeId.CHECKPOINT,
+      TileTypeId.TELEPORTER,
+    ],
+  },
+  {
+    name: 'Switch',
+    tiles: [
+      TileTypeId.SWITCH_PRESSURE_PLATE,
+      TileTypeId.SWITCH_TOGGLE,
+      TileTypeId.SWITCH_TIMED,
+      TileTypeId.SWITCH_ARENA_LOCK,
+    ],
+  },
+  {
+    name: 'Mechanism',
+    tiles: [
+      TileTypeId.DOOR_CLOSED,
+      TileTypeId.GATE_OPEN,
+      TileTypeId.BRIDGE_HIDDEN,
+    ],
+  },
+  {
+    name: 'Liquid',
+    tiles: [
+      TileTypeId.WATER,
+      TileTypeId.LAVA,
+    ],
+  },
+  {
+    name: 'Climbable',
+    tiles: [
+      TileTypeId.LADDER,
+      TileTypeId.VINE,
     ],
   },
 ]
@@ -233,6 +330,115 @@ export const TilePalette = observer(function TilePalette() {
             Reset
           </button>
         </div>
+        <div className="size-input-group">
+          <label htmlFor="level-max-health">Health:</label>
+          <input
+            id="level-max-health"
+            type="number"
+            min="0"
+            max="10"
+            value={editorStore.maxHealth}
+            onChange={(e) => editorStore.setMaxHealth(Number(e.target.value))}
+            className="size-input"
+            title="Player hit points (0 = one-hit deaths)"
+          />
+        </div>
+        <div className="size-input-group">
+          <label htmlFor="level-win-condition">Win:</label>
+          <select
+            id="level-win-condition"
+            value={editorStore.winCondition}
+            onChange={(e) => editorStore.setWinCondition(e.target.value as WinCondition)}
+            title="Reach a goal tile, or defeat every boss"
+          >
+            <option value="goal">Reach goal</option>
+            <option value="boss">Defeat boss</option>
+          </select>
+        </div>
+        <div className="size-input-group">
+          <label htmlFor="level-oxygen-time">Air:</label>
+          <input
+            id="level-oxygen-time"
+            type="number"
+            min="0"
+            max="60"
+            value={editorStore.oxygenTime}
+            onChange={(e) => editorStore.setOxygenTime(Number(e.target.value))}
+            className="size-input"
+            title="Seconds the player can stay underwater (0 = unlimited)"
+          />
+        </div>
+        <div className="size-input-group">
+          <label htmlFor="level-keep-keys">Keys:</label>
+          <select
+            id="level-keep-keys"
+            value={editorStore.keepKeysAtCheckpoint ? 'checkpoint' : 'reset'}
+            onChange={(e) => editorStore.setKeepKeysAtCheckpoint(e.target.value === 'checkpoint')}
+            title="Whether keys held at the last checkpoint survive a death"
+          >
+            <option value="reset">Lost on death</option>
+            <option value="checkpoint">Kept at checkpoint</option>
+          </select>
+        </div>
+        {JUMP_SETTING_INPUTS.map(({ key, label, fallback, max, title }) => (
+          <div key={key} className="size-input-group">
+            <label htmlFor={`level-jump-${key}`}>{label}</label>
+            <input
+              id={`level-jump-${key}`}
+              type="number"
+              min="0"
+              max={max}
+              step="0.01"
+              value={editorStore.jumpSettings[key] ?? ''}
+              placeholder={String(fallback)}
+              onChange={(e) => editorStore.setJumpSetting(key, e.target.value === '' ? undefined : Number(e.target.value))}
+              className="size-input"
+              title={title}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Physics Parameters */}
+      <div className="palette-section">
+        <h3>Physics</h3>
+        <div className="size-input-group">
+          <label htmlFor="level-physics-preset">Preset:</label>
+          <select
+            id="level-physics-preset"
+            value={editorStore.physicsPreset}
+            onChange={(e) => {
+              const value = e.target.value
+              if (value !== 'custom') {
+                editorStore.applyPhysicsPreset(value === 'default' ? null : value as PhysicsPresetId)
+              }
+            }}
+            title="Replace the physics values below with a preset"
+          >
+            <option value="default">Default</option>
+            {Object.values(PHYSICS_PRESETS).map((preset) => (
+              <option key={preset.id} value={preset.id} title={preset.description}>
+                {preset.displayName}
+              </option>
+            ))}
+            <option value="custom" disabled>Custom</option>
+          </select>
+        </div>
+        {PHYSICS_INPUTS.map(({ key, label, step, title }) => (
+          <div key={key} className="size-input-group">
+            <label htmlFor={`level-physics-${key}`}>{label}</label>
+            <input
+              id={`level-physics-${key}`}
+              type="number"
+              step={step}
+              value={editorStore.physics[key] ?? ''}
+              placeholder={String(resolvePhysicsProfile()[key])}
+              onChange={(e) => editorStore.setPhysicsValue(key, e.target.value === '' ? undefined : Number(e.target.value))}
+              className="size-input"
+              title={title}
+            />
+          </div>
+        ))}
       </div>
 
       {/* Tool Selection */}
@@ -333,6 +539,56 @@ export const TilePalette = observer(function TilePalette() {
         </div>
       </div>
 
+      {/* Channel for switches and mechanisms */}
+      {(isTileTypeSwitch(editorStore.selectedTileType) || isTileTypeMechanism(editorStore.selectedTileType)) && (
+        <div className="palette-section">
+          <h3>Channel</h3>
+          <div className="size-input-group">
+            <label htmlFor="tile-channel">Name:</label>
+            <input
+              id="tile-channel"
+              type="text"
+              maxLength={12}
+              value={editorStore.selectedChannel}
+              onChange={(e) => editorStore.setSelectedChannel(e.target.value)}
+              className="size-input"
+              title="Switches turn on every mechanism with the same channel"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Options for teleporter pairs */}
+      {editorStore.selectedTileType === TileTypeId.TELEPORTER && (
+        <div className="palette-section">
+          <h3>Teleporter</h3>
+          <div className="size-input-group">
+            <label htmlFor="teleport-velocity">Arrive:</label>
+            <select
+              id="teleport-velocity"
+              value={editorStore.teleportKeepVelocity ? 'keep' : 'rest'}
+              onChange={(e) => editorStore.setTeleportKeepVelocity(e.target.value === 'keep')}
+              title="Whether the player keeps their speed through the teleporter"
+            >
+              <option value="rest">At rest</option>
+              <option value="keep">Keep speed</option>
+            </select>
+          </div>
+          <div className="size-input-group">
+            <label htmlFor="teleport-camera">Camera:</label>
+            <select
+              id="teleport-camera"
+              value={editorStore.teleportCamera}
+              onChange={(e) => editorStore.setTeleportCamera(e.target.value as TeleportCamera)}
+              title="Whether the camera jumps to the destination or pans there"
+            >
+              <option value="snap">Snap</option>
+              <option value="pan">Pan</option>
+            </select>
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div className="palette-section">
         <h3>Actions</h3>
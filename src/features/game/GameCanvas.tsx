@@ -3,9 +3,7 @@ import { observer } from 'mobx-react-lite'
 import { useRootStore } from '../../stores/RootStore'
 import { gameLoopService } from '../../services/GameLoopService'
 import { inputService } from '../../services/InputService'
-import { physicsService } from '../../services/PhysicsService'
 import { cameraService } from '../../services/CameraService'
-import { entityService } from '../../services/EntityService'
 import { canvasRenderer } from '../../services/renderers'
 import { VIEWPORT_WIDTH, VIEWPORT_HEIGHT } from '../../core/constants'
 import { CAMPAIGN_LEVELS } from '../../levels'
@@ -19,68 +17,25 @@ import type { LevelJSON } from '../../levels/types'
 export const GameCanvas = observer(function GameCanvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
   const rootStore = useRootStore()
-  const { gameStore, playerStore, levelStore, cameraStore, campaignStore, uiStore, editorStore, assetStore, entityStore } = rootStore
+  const { gameStore, playerStore, levelStore, cameraStore, campaignStore, uiStore, editorStore, assetStore, entityStore, replayStore } = rootStore
 
-  // Track if we need to respawn (set when player dies)
-  const needsRespawnRef = useRef(false)
-  const prevLivesRef = useRef(gameStore.lives)
-  const wasLevelCompleteRef = useRef(false)
-
-  // Main game tick function
+  // Main game tick function (one fixed simulation step)
   const tick = useCallback((deltaTime: number) => {
-    const screenState = campaignStore.screenState
-
-    // Only run game logic when playing
-    if (screenState === 'playing') {
-      // Check if player died (lives decreased)
-      if (gameStore.lives < prevLivesRef.current && !gameStore.isGameOver) {
-        needsRespawnRef.current = true
-      }
-      prevLivesRef.current = gameStore.lives
-
-      // Handle respawn after death
-      if (needsRespawnRef.current && !gameStore.isGameOver) {
-        needsRespawnRef.current = false
-        rootStore.respawnPlayer()
-      }
-
-      // 1. Consume input
-      const input = inputService.consumeFrame()
-
-      // 2. Apply input to player
-      playerStore.applyInput(input)
-
-      // 3. Update power-up timers
-      playerStore.updatePowerUps(deltaTime)
-
-      // 4. Update animation
-      playerStore.updateAnimation(deltaTime)
-
-      // 5. Update entities (AI, movement)
-      entityService.update(deltaTime, entityStore, levelStore)
-
-      // 6. Update physics (pass input for noclip vertical movement, entityStore for enemy collision)
-      physicsService.update(deltaTime, playerStore, levelStore, gameStore, input, entityStore)
-
-      // 7. Update camera to follow player
-      cameraService.update(deltaTime, cameraStore, playerStore, levelStore)
+    rootStore.tick(deltaTime, () => inputService.consumeFrame())
+  }, [rootStore])
 
-      // 8. Check for level completion (transition to campaign screen)
-      if (gameStore.levelComplete && !wasLevelCompleteRef.current) {
-        wasLevelCompleteRef.current = true
-        rootStore.onLevelComplete()
-      }
-    }
-    
-    // Reset level complete tracking when starting new level
-    if (!gameStore.levelComplete) {
-      wasLevelCompleteRef.current = false
+  // Render function (once per animation frame, after the simulation steps)
+  const render = useCallback((frameTime: number, alpha: number) => {
+    // 8. Update camera to follow the interpolated player position
+    if (campaignStore.screenState === 'playing') {
+      cameraService.update(frameTime, cameraStore, playerStore, levelStore, alpha)
     }
 
     // 9. Render frame (always render for UI screens)
-    canvasRenderer.draw(levelStore, playerStore, gameStore, cameraStore, campaignStore, uiStore, assetStore, entityStore)
-  }, [rootStore, gameStore, playerStore, levelStore, cameraStore, campaignStore, uiStore, assetStore, entityStore])
+    canvasRenderer.draw(levelStore, playerStore, gameStore, cameraStore, campaignStore, uiStore, assetStore, entityStore, alpha)
+  }, [gameStore, playerStore, levelStore, cameraStore, campaignStore, uiStore, assetStore, entityStore])
 
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -229,6 +184,25 @@ export const GameCanvas = observer(function GameCanvas() {
           e.preventDefault()
           gameStore.toggleNoclip()
         }
+        // F6: Start/stop input recording (restarts the level)
+        if (e.code === 'F6') {
+          e.preventDefault()
+          if (replayStore.isRecording) {
+            const replay = rootStore.stopRecording()
+            console.log(`Recorded ${replay?.frameCount ?? 0} frames`)
+          } else {
+            rootStore.startRecording()
+          }
+        }
+        // F7: Play back last recording (or stop playback)
+        if (e.code === 'F7') {
+          e.preventDefault()
+          if (replayStore.isPlaying) {
+            replayStore.stopPlayback()
+          } else if (replayStore.lastRecording) {
+            rootStore.startReplay(replayStore.lastRecording)
+          }
+        }
         // E key: Open level editor
         if (e.code === 'KeyE') {
           e.preventDefault()
@@ -247,15 +221,27 @@ export const GameCanvas = observer(function GameCanvas() {
         console.log('Available levels:', rootStore.getAvailableLevels())
       }
       // S key to save/download current level (admin only)
-      if (e.code === 'KeyS' && e.ctrlKey && campaignStore.isAdminMode) {
+      if (e.code === 'KeyS' && e.ctrlKey && !e.shiftKey && campaignStore.isAdminMode) {
         e.preventDefault()
         rootStore.downloadCurrentLevel()
       }
       // O key to open/import level (admin only)
-      if (e.code === 'KeyO' && e.ctrlKey && campaignStore.isAdminMode) {
+      if (e.code === 'KeyO' && e.ctrlKey && !e.shiftKey && campaignStore.isAdminMode) {
         e.preventDefault()
         fileInputRef.current?.click()
       }
+      // Shift+S to save/download last replay (admin only)
+      if (e.code === 'KeyS' && e.ctrlKey && e.shiftKey && campaignStore.isAdminMode) {
+        e.preventDefault()
+        if (!rootStore.downloadLastReplay()) {
+          console.warn('No recording to export - press F6 to record')
+        }
+      }
+      // Shift+O to open/import a replay (admin only)
+      if (e.code === 'KeyO' && e.ctrlKey && e.shiftKey && campaignStore.isAdminMode) {
+        e.preventDefault()
+        replayInputRef.current?.click()
+      }
       // TEMP: Semicolon to skip to campaign complete screen (admin only)
       if (e.code === 'Semicolon' && campaignStore.isAdminMode) {
         e.preventDefault()
@@ -265,7 +251,7 @@ export const GameCanvas = observer(function GameCanvas() {
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [rootStore, gameStore, campaignStore, levelStore, uiStore, editorStore])
+  }, [rootStore, gameStore, campaignStore, levelStore, uiStore, editorStore, replayStore])
 
   // Handle canvas click (for admin menu, roadmap, and intro terminal)
   const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -364,6 +350,33 @@ export const GameCanvas = observer(function GameCanvas() {
     e.target.value = ''
   }, [rootStore])
 
+  // Handle replay import
+  const handleReplayImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      try {
+        const json: unknown = JSON.parse(event.target?.result as string)
+        const result = rootStore.loadReplayFromJSON(json)
+        if (!result.success) {
+          console.error('Failed to load replay:', result.errors)
+          alert('Failed to load replay:\n' + result.errors.join('\n'))
+        } else {
+          console.log('Replay loaded successfully')
+        }
+      } catch (error) {
+        console.error('Failed to parse JSON:', error)
+        alert('Failed to parse replay file')
+      }
+    }
+    reader.readAsText(file)
+    
+    // Reset input so same file can be selected again
+    e.target.value = ''
+  }, [rootStore])
+
   // Initialize game on mount
   useEffect(() => {
     const canvas = canvasRef.current
@@ -392,6 +405,7 @@ export const GameCanvas = observer(function GameCanvas() {
 
     // Set up game loop
     gameLoopService.setTickCallback(tick)
+    gameLoopService.setRenderCallback(render)
     gameLoopService.start()
     gameStore.setRunning(true)
 
@@ -401,7 +415,7 @@ export const GameCanvas = observer(function GameCanvas() {
       inputService.destroy()
       gameStore.setRunning(false)
     }
-  }, [rootStore, gameStore, tick])
+  }, [rootStore, gameStore, tick, render])
 
   // Determine cursor style based on hover state (using UIStore)
   const isClickable = uiStore.isClickable || 
@@ -423,6 +437,8 @@ export const GameCanvas = observer(function GameCanvas() {
             <p className="level-name">
               Level {campaignStore.currentLevelIndex + 1}/{CAMPAIGN_LEVELS.length}: {levelStore.currentLevelName || 'Untitled Level'} 
               <span className="level-size">({levelStore.width}×{levelStore.height})</span>
+              {replayStore.isRecording && <span className="replay-status"> ● REC</span>}
+              {replayStore.isPlaying && <span className="replay-status"> ▶ Replay</span>}
             </p>
           </div>
           <div className="game-controls">
@@ -431,7 +447,7 @@ export const GameCanvas = observer(function GameCanvas() {
             </p>
             <p>
               <strong>R:</strong> Restart | <strong>Esc:</strong> Pause
-              {campaignStore.isAdminMode && <> | <strong>`:</strong> Level Select | <strong>Ctrl+S:</strong> Save</>}
+              {campaignStore.isAdminMode && <> | <strong>`:</strong> Level Select | <strong>Ctrl+S:</strong> Save | <strong>F6/F7:</strong> Record/Replay</>}
             </p>
           </div>
         </>
@@ -443,6 +459,13 @@ export const GameCanvas = observer(function GameCanvas() {
         onChange={handleFileImport}
         style={{ display: 'none' }}
       />
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".json"
+        onChange={handleReplayImport}
+        style={{ display: 'none' }}
+      />
     </div>
   )
 })
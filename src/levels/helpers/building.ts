@@ -1,5 +1,6 @@
-import type { TilePlacement, LevelDefinition, GridPosition } from '../types'
-import type { EntitySpawn, EntityDirection } from '../../core/types/entities'
+import type { TilePlacement, LevelDefinition, GridPosition, ChannelWire, TeleporterLink, JumpSettings, WinCondition } from '../types'
+import type { EntitySpawn, EntityDirection, FireMode, JumpDirection } from '../../core/types/entities'
+import type { PhysicsOverrides } from '../../core/types/physics'
 import { createEmptyGrid, applyPlacements } from './grid'
 import { platform, wall, hollowRect } from './solids'
 
@@ -21,9 +22,17 @@ export function createLevel(
     description?: string
     author?: string
     startingLives?: number
+    maxHealth?: number
     parTime?: number
+    winCondition?: WinCondition
+    jumpSettings?: JumpSettings
+    oxygenTime?: number
+    keepKeysAtCheckpoint?: boolean
+    physics?: PhysicsOverrides
     themeId?: string
     entities?: EntitySpawn[]
+    wiring?: ChannelWire[]
+    teleporters?: TeleporterLink[]
   }
 ): LevelDefinition {
   const grid = createEmptyGrid(width, height)
@@ -124,6 +133,125 @@ export function patrolEnemyRow(
   return enemies
 }
 
+/**
+ * Create a flying enemy spawn that patrols between walls on a sine wave
+ */
+export function flyingEnemy(
+  col: number,
+  row: number,
+  options?: { direction?: EntityDirection; amplitude?: number; period?: number }
+): EntitySpawn {
+  return {
+    definitionId: 'enemy_flying',
+    position: { col, row },
+    properties: {
+      startDirection: options?.direction ?? 'right',
+      ...(options?.amplitude !== undefined && { waveAmplitude: options.amplitude }),
+      ...(options?.period !== undefined && { wavePeriod: options.period }),
+    },
+  }
+}
+
+/**
+ * Create a flying enemy spawn that follows grid waypoints
+ */
+export function flyingEnemyPath(
+  col: number,
+  row: number,
+  waypoints: GridPosition[],
+  options?: { loop?: boolean; speed?: number }
+): EntitySpawn {
+  return {
+    definitionId: 'enemy_flying',
+    position: { col, row },
+    properties: {
+      waypoints,
+      ...(options?.loop !== undefined && { loop: options.loop }),
+      ...(options?.speed !== undefined && { speed: options.speed }),
+    },
+  }
+}
+
+/**
+ * Create a jumping enemy spawn that hops toward (or away from) the player
+ */
+export function jumpingEnemy(
+  col: number,
+  row: number,
+  options?: { interval?: number; direction?: JumpDirection }
+): EntitySpawn {
+  return {
+    definitionId: 'enemy_jumping',
+    position: { col, row },
+    properties: {
+      ...(options?.interval !== undefined && { jumpInterval: options.interval }),
+      ...(options?.direction !== undefined && { jumpDirection: options.direction }),
+    },
+  }
+}
+
+/**
+ * Create a turret spawn that fires projectiles on a timer or on line of sight
+ */
+export function turret(
+  col: number,
+  row: number,
+  options?: { direction?: EntityDirection; interval?: number; mode?: FireMode; range?: number }
+): EntitySpawn {
+  return {
+    definitionId: 'enemy_turret',
+    position: { col, row },
+    properties: {
+      startDirection: options?.direction ?? 'left',
+      ...(options?.interval !== undefined && { fireInterval: options.interval }),
+      ...(options?.mode !== undefined && { fireMode: options.mode }),
+      ...(options?.range !== undefined && { sightRange: options.range }),
+    },
+  }
+}
+
+/**
+ * Create a boss spawn (pair with winCondition: 'boss' and an arenaLock)
+ */
+export function boss(col: number, row: number, direction: EntityDirection = 'left'): EntitySpawn {
+  return {
+    definitionId: 'enemy_boss',
+    position: { col, row },
+    properties: { startDirection: direction },
+  }
+}
+
+/**
+ * Create a moving platform spawn that travels through grid waypoints
+ * Ping-pongs along the path by default; set loop to return to the start instead.
+ */
+export function movingPlatform(
+  col: number,
+  row: number,
+  waypoints: GridPosition[],
+  options?: { oneWay?: boolean; loop?: boolean; speed?: number }
+): EntitySpawn {
+  return {
+    definitionId: options?.oneWay ? 'platform_moving_oneway' : 'platform_moving',
+    position: { col, row },
+    properties: {
+      waypoints,
+      ...(options?.loop !== undefined && { loop: options.loop }),
+      ...(options?.speed !== undefined && { speed: options.speed }),
+    },
+  }
+}
+
+/**
+ * Create a pushable crate spawn
+ */
+export function crate(col: number, row: number): EntitySpawn {
+  return {
+    definitionId: 'crate',
+    position: { col, row },
+  }
+}
+
 /**
  * Merge multiple entity spawn arrays
  */
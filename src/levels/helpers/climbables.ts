@@ -0,0 +1,32 @@
+import { TileTypeId } from '../../core/types'
+import type { TilePlacement } from '../types'
+
+// ============================================
+// Climbable Helpers
+// ============================================
+
+/**
+ * Create a vertical run of climbable tiles from rowTop down to rowBottom (inclusive)
+ */
+function climbable(type: TileTypeId, col: number, rowTop: number, rowBottom: number): TilePlacement[] {
+  return Array.from({ length: rowBottom - rowTop + 1 }, (_, i) => ({
+    col,
+    row: rowTop + i,
+    type,
+  }))
+}
+
+/**
+ * Create a ladder from rowTop down to rowBottom (inclusive)
+ * Put its top level with a ledge beside it so the player can climb off.
+ */
+export function ladder(col: number, rowTop: number, rowBottom: number): TilePlacement[] {
+  return climbable(TileTypeId.LADDER, col, rowTop, rowBottom)
+}
+
+/**
+ * Create a hanging vine from rowTop down to rowBottom (inclusive)
+ */
+export function vine(col: number, rowTop: number, rowBottom: number): TilePlacement[] {
+  return climbable(TileTypeId.VINE, col, rowTop, rowBottom)
+}
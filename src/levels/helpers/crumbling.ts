@@ -0,0 +1,42 @@
+import { TileTypeId } from '../../core/types'
+import type { TilePlacement } from '../types'
+
+// ============================================
+// Crumbling Tile Helpers
+// ============================================
+
+/**
+ * Create a horizontal row of blocks that crumble away shortly after being stood on
+ * @param regrows - Reappear a few seconds after crumbling (default: gone until respawn)
+ */
+export function crumblingBlocks(
+  startCol: number,
+  row: number,
+  length: number,
+  regrows = false
+): TilePlacement[] {
+  const type = regrows ? TileTypeId.CRUMBLING_BLOCK_REGROWING : TileTypeId.CRUMBLING_BLOCK
+  return Array.from({ length }, (_, i) => ({
+    col: startCol + i,
+    row,
+    type,
+  }))
+}
+
+/**
+ * Create a horizontal platform that shakes when stood on, then falls out of the level
+ * @param returns - Reappear in place a few seconds after falling (default: gone until respawn)
+ */
+export function fallingPlatform(
+  startCol: number,
+  row: number,
+  length: number,
+  returns = false
+): TilePlacement[] {
+  const type = returns ? TileTypeId.FALLING_PLATFORM_RETURNING : TileTypeId.FALLING_PLATFORM
+  return Array.from({ length }, (_, i) => ({
+    col: startCol + i,
+    row,
+    type,
+  }))
+}
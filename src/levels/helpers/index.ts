@@ -60,20 +60,46 @@ export {
   spikesRight,
 } from './hazards'
 
+// Conveyors, springs and bounce pads
+export { conveyor, spring, bouncePad } from './surfaces'
+
+// Crumbling blocks and falling platforms
+export { crumblingBlocks, fallingPlatform } from './crumbling'
+
+// Ladders and vines
+export { ladder, vine } from './climbables'
+
 // Pickups
 export {
   coin,
   coins,
   coinRow,
   coinArc,
+  key,
   tripleJump,
   speedBoost,
   superJump,
   invincibility,
+  shield,
+  magnet,
+  slowFall,
 } from './pickups'
 
-// Triggers
-export { goal, checkpoint } from './triggers'
+// Triggers and teleporter links
+export { goal, checkpoint, teleporter, linkTeleporters } from './triggers'
+
+// Switches, doors, locked doors and channel wiring
+export {
+  pressurePlate,
+  toggleSwitch,
+  timedSwitch,
+  arenaLock,
+  door,
+  gate,
+  bridge,
+  lockedDoor,
+  wire,
+} from './mechanisms'
 
 // Stairs
 export { stairsUpRight, stairsUpLeft } from './stairs'
@@ -90,5 +116,12 @@ export {
   patrolEnemy,
   staticEnemy,
   patrolEnemyRow,
+  flyingEnemy,
+  flyingEnemyPath,
+  jumpingEnemy,
+  turret,
+  boss,
+  movingPlatform,
+  crate,
   entities,
 } from './building'
@@ -0,0 +1,104 @@
+import { TileTypeId, KEY_TILES, type KeyColor } from '../../core/types'
+import type { ChannelWire, TilePlacement } from '../types'
+
+// ============================================
+// Switch Helpers
+// ============================================
+
+/**
+ * Place a pressure plate (on while the player stands on it)
+ */
+export function pressurePlate(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.SWITCH_PRESSURE_PLATE }]
+}
+
+/**
+ * Place a toggle switch (flips each time the player touches it)
+ */
+export function toggleSwitch(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.SWITCH_TOGGLE }]
+}
+
+/**
+ * Place a timed switch (on for a few seconds after each touch)
+ */
+export function timedSwitch(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.SWITCH_TIMED }]
+}
+
+/**
+ * Place an arena lock (on from the first touch until every boss is defeated)
+ * Wire it to gates that seal the arena.
+ */
+export function arenaLock(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.SWITCH_ARENA_LOCK }]
+}
+
+// ============================================
+// Mechanism Helpers
+// ============================================
+
+/**
+ * Create a vertical door (solid until its channel turns on)
+ */
+export function door(col: number, startRow: number, height: number): TilePlacement[] {
+  return Array.from({ length: height }, (_, i) => ({
+    col,
+    row: startRow + i,
+    type: TileTypeId.DOOR_CLOSED,
+  }))
+}
+
+/**
+ * Create a vertical gate (open until its channel turns on)
+ */
+export function gate(col: number, startRow: number, height: number): TilePlacement[] {
+  return Array.from({ length: height }, (_, i) => ({
+    col,
+    row: startRow + i,
+    type: TileTypeId.GATE_OPEN,
+  }))
+}
+
+/**
+ * Create a horizontal bridge (extends while its channel is on)
+ */
+export function bridge(startCol: number, row: number, length: number): TilePlacement[] {
+  return Array.from({ length }, (_, i) => ({
+    col: startCol + i,
+    row,
+    type: TileTypeId.BRIDGE_HIDDEN,
+  }))
+}
+
+// ============================================
+// Locked Door Helpers
+// ============================================
+
+/**
+ * Create a vertical locked door (opens for one key of its color, however tall)
+ */
+export function lockedDoor(col: number, startRow: number, height: number, color: KeyColor = 'plain'): TilePlacement[] {
+  return Array.from({ length: height }, (_, i) => ({
+    col,
+    row: startRow + i,
+    type: KEY_TILES[color].door,
+  }))
+}
+
+// ============================================
+// Wiring Helpers
+// ============================================
+
+/**
+ * Assign switch/mechanism placements to a channel
+ * @param duration - On time in seconds for timed switches
+ */
+export function wire(channel: string, placements: TilePlacement[], duration?: number): ChannelWire[] {
+  return placements.map(({ col, row }) => ({
+    col,
+    row,
+    channel,
+    ...(duration !== undefined && { duration }),
+  }))
+}
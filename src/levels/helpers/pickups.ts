@@ -1,4 +1,4 @@
-import { TileTypeId } from '../../core/types'
+import { TileTypeId, KEY_TILES, type KeyColor } from '../../core/types'
 import type { TilePlacement, GridPosition } from '../types'
 
 // ============================================
@@ -55,6 +55,13 @@ export function coinArc(startCol: number, peakRow: number, length: number, heigh
   return placements
 }
 
+/**
+ * Place a key (opens one locked door of the same color)
+ */
+export function key(col: number, row: number, color: KeyColor = 'plain'): TilePlacement[] {
+  return [{ col, row, type: KEY_TILES[color].key }]
+}
+
 /**
  * Place a triple jump power-up
  */
@@ -82,3 +89,24 @@ export function superJump(col: number, row: number): TilePlacement[] {
 export function invincibility(col: number, row: number): TilePlacement[] {
   return [{ col, row, type: TileTypeId.POWERUP_INVINCIBILITY }]
 }
+
+/**
+ * Place a shield power-up (blocks one hit)
+ */
+export function shield(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.POWERUP_SHIELD }]
+}
+
+/**
+ * Place a magnet power-up (collects nearby coins)
+ */
+export function magnet(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.POWERUP_MAGNET }]
+}
+
+/**
+ * Place a slow fall power-up (gentler falls)
+ */
+export function slowFall(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.POWERUP_SLOW_FALL }]
+}
@@ -0,0 +1,38 @@
+import { TileTypeId } from '../../core/types'
+import type { TilePlacement } from '../types'
+
+// ============================================
+// Dynamic Surface Helpers
+// ============================================
+
+/**
+ * Create a horizontal conveyor belt that carries bodies standing on it
+ */
+export function conveyor(
+  startCol: number,
+  row: number,
+  length: number,
+  direction: 'left' | 'right'
+): TilePlacement[] {
+  const type = direction === 'left' ? TileTypeId.CONVEYOR_LEFT : TileTypeId.CONVEYOR_RIGHT
+  return Array.from({ length }, (_, i) => ({
+    col: startCol + i,
+    row,
+    type,
+  }))
+}
+
+/**
+ * Place a spring that launches the player straight up on landing
+ */
+export function spring(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.SPRING }]
+}
+
+/**
+ * Place a 45° bounce pad that launches the player up and toward the given side
+ */
+export function bouncePad(col: number, row: number, direction: 'left' | 'right'): TilePlacement[] {
+  const type = direction === 'left' ? TileTypeId.BOUNCE_PAD_LEFT : TileTypeId.BOUNCE_PAD_RIGHT
+  return [{ col, row, type }]
+}
@@ -1,5 +1,5 @@
 import { TileTypeId } from '../../core/types'
-import type { TilePlacement } from '../types'
+import type { TilePlacement, GridPosition, TeleporterLink, TeleportCamera } from '../types'
 
 // ============================================
 // Trigger Helpers
@@ -18,3 +18,25 @@ export function goal(col: number, row: number): TilePlacement[] {
 export function checkpoint(col: number, row: number): TilePlacement[] {
   return [{ col, row, type: TileTypeId.CHECKPOINT }]
 }
+
+/**
+ * Place a teleporter tile (link it with linkTeleporters)
+ */
+export function teleporter(col: number, row: number): TilePlacement[] {
+  return [{ col, row, type: TileTypeId.TELEPORTER }]
+}
+
+/**
+ * Link two teleporter tiles to each other as `${id}_a` and `${id}_b`
+ */
+export function linkTeleporters(
+  id: string,
+  a: GridPosition,
+  b: GridPosition,
+  options?: { keepVelocity?: boolean; camera?: TeleportCamera }
+): TeleporterLink[] {
+  return [
+    { id: `${id}_a`, col: a.col, row: a.row, target: `${id}_b`, ...options },
+    { id: `${id}_b`, col: b.col, row: b.row, target: `${id}_a`, ...options },
+  ]
+}
@@ -14,7 +14,7 @@
  * - Level 6: ET Custom 1 (custom user level) - double jump
  * - Level 7: Introduces enemies (patrol enemies, stomp mechanic) - double jump
  * - Level 8: Power Surge (speed boost, super jump, invincibility) - double jump
- * - Level 9: ET Custom 2 (custom user level, vertical platforming) - double jump
+ * - Level 9: ET Custom 2 (custom user level, vertical platforming) - double jump, wall jump
  */
 
 import type { LevelDefinition } from './types'
@@ -149,3 +149,13 @@ export function hasDoubleJumpUnlocked(levelId: string): boolean {
   // Also return true for non-campaign levels (custom levels get double jump)
   return index === -1 || index >= 5
 }
+
+/**
+ * Check if a level has wall slide and wall jump unlocked
+ * Level 9+ (the vertical levels) have it, earlier levels don't
+ */
+export function hasWallJumpUnlocked(levelId: string): boolean {
+  const index = getLevelIndex(levelId)
+  // Also return true for non-campaign levels (custom levels get wall jump)
+  return index === -1 || index >= 9
+}
@@ -1,5 +1,6 @@
-import { CollisionType, TileTypeId } from '../core/types'
-import type { EntitySpawn } from '../core/types/entities'
+import { CollisionType, TileTypeId, isTileTypeSwitch, isTileTypeMechanism, isTileTypeKey, isTileTypeLockedDoor, getTileKeyColor, type KeyColor } from '../core/types'
+import { getEntityDefinition, type EntitySpawn } from '../core/types/entities'
+import { validatePhysicsOverrides, type PhysicsOverrides } from '../core/types/physics'
 
 /**
  * Position in grid coordinates (tiles, not pixels)
@@ -19,6 +20,61 @@ export interface TilePlacement {
   type: number  // CollisionType or TileTypeId
 }
 
+/**
+ * Assigns a switch or mechanism tile to a named channel
+ * Switches broadcast on their channel; mechanisms (doors, gates, bridges)
+ * change state while any switch on the channel is on. Unwired tiles use
+ * DEFAULT_CHANNEL.
+ */
+export interface ChannelWire {
+  col: number
+  row: number
+  channel: string
+  /** Seconds a timed switch stays on (default TIMED_SWITCH_DURATION) */
+  duration?: number
+}
+
+/**
+ * How the camera reaches a teleport destination: jump straight there, or pan across
+ */
+export type TeleportCamera = 'snap' | 'pan'
+
+/**
+ * Links a teleporter tile to the teleporter it sends the player to
+ * Pairs link to each other. Every teleporter tile needs a link, and every
+ * target must be another linked teleporter.
+ */
+export interface TeleporterLink {
+  /** Unique name of this teleporter */
+  id: string
+  col: number
+  row: number
+  /** ID of the teleporter the player arrives at */
+  target: string
+  /** Carry the player's velocity through (default: arrive at rest) */
+  keepVelocity?: boolean
+  /** Camera move to the destination (default 'snap') */
+  camera?: TeleportCamera
+}
+
+/**
+ * How a level is completed: reaching a GOAL tile, or defeating every boss
+ */
+export type WinCondition = 'goal' | 'boss'
+
+/**
+ * Per-level jump forgiveness (omitted fields use the COYOTE_TIME,
+ * JUMP_BUFFER_TIME and JUMP_CUT_MULTIPLIER defaults)
+ */
+export interface JumpSettings {
+  /** Seconds the ground jump survives after walking off a ledge (0 = off) */
+  coyoteTime?: number
+  /** Seconds a jump press is remembered before landing (0 = off) */
+  jumpBuffer?: number
+  /** Upward velocity kept when jump is released early (1 = fixed jump height) */
+  jumpCut?: number
+}
+
 /**
  * Complete level definition - everything needed to load and play a level
  */
@@ -44,12 +100,41 @@ export interface LevelDefinition {
   // Optional: Entity spawn data (enemies, etc.)
   entities?: EntitySpawn[]
   
+  // Optional: Switch/mechanism channel assignments
+  wiring?: ChannelWire[]
+  
+  // Optional: Teleporter tile links
+  teleporters?: TeleporterLink[]
+  
   // Optional: Starting lives for this level (default 3)
   startingLives?: number
   
+  // Optional: Player health pool; hits cost health instead of a life
+  // (omit for one-hit deaths)
+  maxHealth?: number
+  
   // Optional: Par time for time-star (seconds)
   parTime?: number
   
+  // Optional: Completion condition (default 'goal'; 'boss' ignores GOAL tiles)
+  winCondition?: WinCondition
+  
+  // Optional: Coyote time, jump buffering and variable jump height
+  jumpSettings?: JumpSettings
+  
+  // Optional: Seconds of air underwater before drowning
+  // (omit for unlimited air)
+  oxygenTime?: number
+  
+  // Optional: Keys held and doors opened at the last checkpoint survive a death
+  // (omit to reset keys along with coins; set it when a checkpoint sits past a
+  // locked door, or respawning there can leave the player without the key)
+  keepKeysAtCheckpoint?: boolean
+  
+  // Optional: Gravity, jump, run speed and ground deceleration overrides
+  // (layered over the level pack's config/params.json)
+  physics?: PhysicsOverrides
+  
   // Optional: Theme ID for visual styling (future)
   themeId?: string
   
@@ -75,6 +160,16 @@ export interface EntitySpawnJSON {
     startDirection?: 'left' | 'right'
     respawns?: boolean
     patrolRange?: number
+    waypoints?: { col: number; row: number }[]
+    loop?: boolean
+    speed?: number
+    waveAmplitude?: number
+    wavePeriod?: number
+    jumpInterval?: number
+    jumpDirection?: 'toward' | 'away'
+    fireInterval?: number
+    fireMode?: 'timer' | 'sight'
+    sightRange?: number
   }
 }
 
@@ -91,8 +186,16 @@ export interface LevelJSON {
   playerSpawn: { col: number; row: number }
   collision: number[][]
   entities?: EntitySpawnJSON[]
+  wiring?: ChannelWire[]
+  teleporters?: TeleporterLink[]
   startingLives?: number
+  maxHealth?: number
   parTime?: number
+  winCondition?: WinCondition
+  jumpSettings?: JumpSettings
+  oxygenTime?: number
+  keepKeysAtCheckpoint?: boolean
+  physics?: PhysicsOverrides
   themeId?: string
   backgroundUrl?: string
   playerSprites?: {
@@ -121,8 +224,16 @@ export function levelToJSON(level: LevelDefinition): LevelJSON {
       position: { col: e.position.col, row: e.position.row },
       properties: e.properties,
     })),
+    wiring: level.wiring?.map(w => ({ ...w })),
+    teleporters: level.teleporters?.map(t => ({ ...t })),
     startingLives: level.startingLives,
+    maxHealth: level.maxHealth,
     parTime: level.parTime,
+    winCondition: level.winCondition,
+    jumpSettings: level.jumpSettings ? { ...level.jumpSettings } : undefined,
+    oxygenTime: level.oxygenTime,
+    keepKeysAtCheckpoint: level.keepKeysAtCheckpoint,
+    physics: level.physics ? { ...level.physics } : undefined,
     themeId: level.themeId,
     backgroundUrl: level.backgroundUrl,
     playerSprites: level.playerSprites,
@@ -147,8 +258,16 @@ export function jsonToLevel(json: LevelJSON): LevelDefinition {
       position: { col: e.position.col, row: e.position.row },
       properties: e.properties,
     })),
+    wiring: json.wiring?.map(w => ({ ...w })),
+    teleporters: json.teleporters?.map(t => ({ ...t })),
     startingLives: json.startingLives,
+    maxHealth: json.maxHealth,
     parTime: json.parTime,
+    winCondition: json.winCondition,
+    jumpSettings: json.jumpSettings ? { ...json.jumpSettings } : undefined,
+    oxygenTime: json.oxygenTime,
+    keepKeysAtCheckpoint: json.keepKeysAtCheckpoint,
+    physics: json.physics ? { ...json.physics } : undefined,
     themeId: json.themeId,
     backgroundUrl: json.backgroundUrl,
     playerSprites: json.playerSprites,
@@ -210,9 +329,156 @@ export function validateLevel(level: LevelDefinition): string[] {
     }
     if (hasGoal) break
   }
-  if (!hasGoal) {
+  if (level.winCondition === 'boss') {
+    const hasBoss = (level.entities ?? []).some(e => getEntityDefinition(e.definitionId)?.type === 'enemy_boss')
+    if (!hasBoss) {
+      errors.push('Boss level has no boss entity')
+    }
+  } else if (!hasGoal) {
     errors.push('Level has no goal tile')
   }
   
+  // Check health pool
+  if (level.maxHealth !== undefined && (!Number.isInteger(level.maxHealth) || level.maxHealth < 1)) {
+    errors.push('maxHealth must be a positive whole number')
+  }
+  
+  // Check jump settings
+  const { coyoteTime, jumpBuffer, jumpCut } = level.jumpSettings ?? {}
+  for (const [name, seconds] of [['coyoteTime', coyoteTime], ['jumpBuffer', jumpBuffer]] as const) {
+    if (seconds !== undefined && !(seconds >= 0 && Number.isFinite(seconds))) {
+      errors.push(`jumpSettings.${name} must be zero or more seconds`)
+    }
+  }
+  if (jumpCut !== undefined && !(jumpCut >= 0 && jumpCut <= 1)) {
+    errors.push('jumpSettings.jumpCut must be between 0 and 1')
+  }
+  
+  // Check air supply
+  if (level.oxygenTime !== undefined && !(level.oxygenTime > 0 && Number.isFinite(level.oxygenTime))) {
+    errors.push('oxygenTime must be a positive number of seconds')
+  }
+  
+  // Check physics overrides
+  errors.push(...validatePhysicsOverrides(level.physics ?? {}).map(e => `physics.${e}`))
+  
+  // Check wiring targets switch or mechanism tiles
+  for (const wire of level.wiring ?? []) {
+    const tile = level.collision[wire.row]?.[wire.col]
+    if (tile === undefined) {
+      errors.push(`Wire (${wire.col}, ${wire.row}) is out of bounds`)
+    } else if (!isTileTypeSwitch(tile) && !isTileTypeMechanism(tile)) {
+      errors.push(`Wire (${wire.col}, ${wire.row}) is not on a switch or mechanism tile`)
+    }
+    if (!wire.channel) {
+      errors.push(`Wire (${wire.col}, ${wire.row}) has no channel`)
+    }
+  }
+  
+  // Check teleporter links: one per teleporter tile, each targeting another linked teleporter
+  const teleporterIds = new Set<string>()
+  const linkedTiles = new Set<string>()
+  for (const link of level.teleporters ?? []) {
+    const where = `Teleporter ${link.id || '(unnamed)'} (${link.col}, ${link.row})`
+    if (!link.id) {
+      errors.push(`${where} has no id`)
+    } else if (teleporterIds.has(link.id)) {
+      errors.push(`${where} reuses id ${link.id}`)
+    }
+    teleporterIds.add(link.id)
+    
+    const tile = level.collision[link.row]?.[link.col]
+    if (tile === undefined) {
+      errors.push(`${where} is out of bounds`)
+    } else if (tile !== TileTypeId.TELEPORTER) {
+      errors.push(`${where} is not on a teleporter tile`)
+    } else if (linkedTiles.has(`${link.col},${link.row}`)) {
+      errors.push(`${where} is on a tile that already has a link`)
+    }
+    linkedTiles.add(`${link.col},${link.row}`)
+  }
+  for (const link of level.teleporters ?? []) {
+    if (link.target === link.id) {
+      errors.push(`Teleporter ${link.id} targets itself`)
+    } else if (!teleporterIds.has(link.target)) {
+      errors.push(`Teleporter ${link.id} targets missing teleporter ${link.target || '(none)'}`)
+    }
+  }
+  for (let row = 0; row < level.collision.length; row++) {
+    for (let col = 0; col < level.collision[row].length; col++) {
+      if (level.collision[row][col] === TileTypeId.TELEPORTER && !linkedTiles.has(`${col},${row}`)) {
+        errors.push(`Teleporter tile (${col}, ${row}) has no link`)
+      }
+    }
+  }
+  
+  // Check there are enough keys of each color to open every locked door (each key opens one door)
+  const keyCounts = countKeys(level.collision)
+  for (const [color, doors] of countLockedDoors(level.collision)) {
+    const keys = keyCounts.get(color) ?? 0
+    if (keys < doors) {
+      errors.push(`Level has ${doors} ${color} locked door(s) but only ${keys} ${color} key(s)`)
+    }
+  }
+  
+  // Check entity waypoints are within bounds
+  for (const entity of level.entities ?? []) {
+    if (getEntityDefinition(entity.definitionId)?.type === 'projectile') {
+      errors.push(`${entity.definitionId} at (${entity.position.col}, ${entity.position.row}) can only be spawned at runtime`)
+    }
+    for (const waypoint of entity.properties?.waypoints ?? []) {
+      if (waypoint.col < 0 || waypoint.col >= level.width || waypoint.row < 0 || waypoint.row >= level.height) {
+        errors.push(`${entity.definitionId} waypoint (${waypoint.col}, ${waypoint.row}) is out of bounds`)
+      }
+    }
+  }
+  
   return errors
 }
+
+/**
+ * Count the keys of each color placed in a level
+ */
+export function countKeys(collision: number[][]): Map<KeyColor, number> {
+  const counts = new Map<KeyColor, number>()
+  for (const tileId of collision.flat()) {
+    const color = isTileTypeKey(tileId) ? getTileKeyColor(tileId) : undefined
+    if (color) counts.set(color, (counts.get(color) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Count the locked doors of each color in a level
+ * Connected tiles of the same door open together with one key (see LevelStore.unlockDoorAt),
+ * so each connected group counts as one door.
+ */
+export function countLockedDoors(collision: number[][]): Map<KeyColor, number> {
+  const counts = new Map<KeyColor, number>()
+  const seen = new Set<string>()
+
+  for (let row = 0; row < collision.length; row++) {
+    for (let col = 0; col < collision[row].length; col++) {
+      const doorId = collision[row][col]
+      const color = isTileTypeLockedDoor(doorId) ? getTileKeyColor(doorId) : undefined
+      if (!color || seen.has(`${col},${row}`)) continue
+
+      counts.set(color, (counts.get(color) ?? 0) + 1)
+      const pending: GridPosition[] = [{ col, row }]
+      while (pending.length > 0) {
+        const tile = pending.pop()!
+        const key = `${tile.col},${tile.row}`
+        if (seen.has(key) || collision[tile.row]?.[tile.col] !== doorId) continue
+
+        seen.add(key)
+        pending.push(
+          { col: tile.col - 1, row: tile.row },
+          { col: tile.col + 1, row: tile.row },
+          { col: tile.col, row: tile.row - 1 },
+          { col: tile.col, row: tile.row + 1 },
+        )
+      }
+    }
+  }
+  return counts
+}
@@ -11,19 +11,29 @@ import type { LevelStore } from '../stores/LevelStore'
 class CameraService {
   /**
    * Update camera to follow player
-   * Called once per frame after physics update
+   * Called once per rendered frame, after the simulation steps for that frame
+   * @param alpha - Render interpolation factor, so the camera tracks the drawn player position
    */
   update(
     deltaTime: number,
     cameraStore: CameraStore,
     playerStore: PlayerStore,
-    _levelStore?: LevelStore
+    _levelStore?: LevelStore,
+    alpha: number = 1
   ): void {
-    // Get player center position
-    const playerCenter = playerStore.center
+    // Get interpolated player center position
+    const playerPos = playerStore.getInterpolatedPosition(alpha)
+    const playerCenter = {
+      x: playerPos.x + playerStore.width / 2,
+      y: playerPos.y + playerStore.height / 2,
+    }
 
-    // Update camera to follow player
-    cameraStore.follow(playerCenter.x, playerCenter.y, deltaTime)
+    // Snap straight to the player after a teleport, otherwise follow (panning to far destinations)
+    if (playerStore.consumeCameraSnap()) {
+      cameraStore.centerOn(playerCenter.x, playerCenter.y)
+    } else {
+      cameraStore.follow(playerCenter.x, playerCenter.y, deltaTime)
+    }
   }
 
   /**
@@ -7,8 +7,15 @@ import { getTileType, isTileTypeSolid, isTileTypeHazard, isTileTypePickup, isTil
  * 
  * Handles collision between player AABB and tile shapes (rectangles and polygons).
  * All tile shapes are normalized (0-1) and converted to world coordinates for checks.
+ * Polygons may be concave; they are split into convex pieces before SAT tests.
  */
 
+// Overlaps thinner than this (px) count as touching, so resting contact isn't a collision
+const CONTACT_EPSILON = 0.001
+
+// Longest move (px) tested for collision in one go (an eighth of a tile, below any built-in shape's thickness)
+export const MAX_SWEEP_STEP = 8
+
 // Player AABB (axis-aligned bounding box)
 export interface AABB {
   x: number
@@ -25,6 +32,31 @@ interface WorldRect {
   h: number
 }
 
+// ============================================
+// Tile Shape Overrides
+// ============================================
+
+// Pack-provided collision shapes by tile type ID (from hitboxes.json)
+const tileShapeOverrides = new Map<number, CollisionShape>()
+
+/**
+ * Replace tile type collision shapes (an empty map restores the built-in shapes)
+ * Called by AssetStore whenever the loaded pack's hitboxes change.
+ */
+export function setTileShapeOverrides(overrides: Map<number, CollisionShape>): void {
+  tileShapeOverrides.clear()
+  for (const [tileId, shape] of overrides) {
+    tileShapeOverrides.set(tileId, shape)
+  }
+}
+
+/**
+ * Get the collision shape of a tile type, preferring a pack override
+ */
+export function getTileCollisionShape(tileId: number): CollisionShape {
+  return tileShapeOverrides.get(tileId) ?? getTileType(tileId).collision
+}
+
 // ============================================
 // AABB vs AABB Collision
 // ============================================
@@ -38,28 +70,165 @@ export function aabbOverlap(a: AABB, b: WorldRect): boolean {
   )
 }
 
+// ============================================
+// Continuous Movement
+// ============================================
+
+/**
+ * Move a body in equal sub-steps no longer than MAX_SWEEP_STEP
+ * Checking collision after every sub-step keeps a fast body from passing
+ * through a shape thinner than its move for the frame (tunneling). Always
+ * takes at least one sub-step, so a zero move still runs its contact checks.
+ * @param step - Moves the body by one sub-step; returns false once blocked to stop the sweep
+ */
+export function sweep(move: number, step: (delta: number) => boolean): void {
+  const count = Math.max(1, Math.ceil(Math.abs(move) / MAX_SWEEP_STEP))
+  const delta = move / count
+  for (let i = 0; i < count; i++) {
+    if (!step(delta)) return
+  }
+}
+
+// ============================================
+// Convex Decomposition
+// ============================================
+
+// Convex pieces of each polygon, computed once per vertex array
+const convexPartsCache = new WeakMap<NormalizedPoint[], NormalizedPoint[][]>()
+
+/**
+ * Split a simple polygon (convex or concave) into convex pieces
+ * Convex polygons are returned whole; concave ones are ear-clipped into triangles.
+ */
+export function getConvexParts(vertices: NormalizedPoint[]): NormalizedPoint[][] {
+  let parts = convexPartsCache.get(vertices)
+  if (!parts) {
+    parts = isConvex(vertices) ? [vertices] : triangulate(vertices)
+    convexPartsCache.set(vertices, parts)
+  }
+  return parts
+}
+
+// Z component of (b - a) x (c - b): the turn direction at b
+function turn(a: NormalizedPoint, b: NormalizedPoint, c: NormalizedPoint): number {
+  return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x)
+}
+
+// Check if every corner of a polygon turns the same way
+function isConvex(vertices: NormalizedPoint[]): boolean {
+  let sign = 0
+  for (let i = 0; i < vertices.length; i++) {
+    const t = turn(vertices[i], vertices[(i + 1) % vertices.length], vertices[(i + 2) % vertices.length])
+    if (Math.abs(t) < 1e-9) continue
+    if (sign === 0) sign = Math.sign(t)
+    else if (Math.sign(t) !== sign) return false
+  }
+  return true
+}
+
+// Ear-clip a simple polygon into triangles (either winding)
+function triangulate(vertices: NormalizedPoint[]): NormalizedPoint[][] {
+  let area = 0
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i]
+    const b = vertices[(i + 1) % vertices.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  const winding = area < 0 ? -1 : 1
+
+  const remaining = [...vertices]
+  const triangles: NormalizedPoint[][] = []
+
+  while (remaining.length > 3) {
+    let clipped = false
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length]
+      const curr = remaining[i]
+      const next = remaining[(i + 1) % remaining.length]
+      const t = turn(prev, curr, next) * winding
+
+      // Collinear vertex - drop it without emitting a triangle
+      if (Math.abs(t) < 1e-9) {
+        remaining.splice(i, 1)
+        clipped = true
+        break
+      }
+
+      // Reflex corner, or another vertex inside the candidate ear
+      if (t < 0) continue
+      const blocked = remaining.some(p =>
+        p !== prev && p !== curr && p !== next && isPointInTriangle(p, prev, curr, next, winding)
+      )
+      if (blocked) continue
+
+      triangles.push([prev, curr, next])
+      remaining.splice(i, 1)
+      clipped = true
+      break
+    }
+
+    // Self-intersecting input has no ears left - keep the rest as one piece
+    if (!clipped) break
+  }
+
+  triangles.push(remaining)
+  return triangles
+}
+
+// Check if a point lies inside (or on the edge of) a triangle with the given winding
+function isPointInTriangle(
+  p: NormalizedPoint,
+  a: NormalizedPoint,
+  b: NormalizedPoint,
+  c: NormalizedPoint,
+  winding: number
+): boolean {
+  return (
+    turn(a, b, p) * winding >= 0 &&
+    turn(b, c, p) * winding >= 0 &&
+    turn(c, a, p) * winding >= 0
+  )
+}
+
 // ============================================
 // AABB vs Polygon Collision
 // ============================================
 
-// Check if AABB overlaps with a convex polygon (using SAT - Separating Axis Theorem)
-export function aabbPolygonOverlap(aabb: AABB, polygon: NormalizedPoint[], tileX: number, tileY: number): boolean {
-  // Convert polygon to world coordinates
-  const worldPoly = polygon.map(p => ({
+// Convert a normalized polygon to world coordinates
+function toWorldPolygon(polygon: NormalizedPoint[], tileX: number, tileY: number): { x: number; y: number }[] {
+  return polygon.map(p => ({
     x: tileX + p.x * TILE_SIZE,
     y: tileY + p.y * TILE_SIZE,
   }))
-  
-  // Convert AABB to polygon (4 corners)
-  const aabbPoly = [
+}
+
+// Convert an AABB to a polygon (4 corners)
+function aabbToPolygon(aabb: AABB): { x: number; y: number }[] {
+  return [
     { x: aabb.x, y: aabb.y },
     { x: aabb.x + aabb.width, y: aabb.y },
     { x: aabb.x + aabb.width, y: aabb.y + aabb.height },
     { x: aabb.x, y: aabb.y + aabb.height },
   ]
-  
-  // SAT: Test separation along all edge normals of both polygons
-  return !hasSeparatingAxis(aabbPoly, worldPoly) && !hasSeparatingAxis(worldPoly, aabbPoly)
+}
+
+// Get the convex pieces of a polygon that the AABB overlaps, in world coordinates
+function getOverlappingParts(
+  aabb: AABB,
+  polygon: NormalizedPoint[],
+  tileX: number,
+  tileY: number
+): { x: number; y: number }[][] {
+  const aabbPoly = aabbToPolygon(aabb)
+  return getConvexParts(polygon)
+    .map(part => toWorldPolygon(part, tileX, tileY))
+    // SAT: Test separation along all edge normals of both polygons
+    .filter(worldPoly => !hasSeparatingAxis(aabbPoly, worldPoly) && !hasSeparatingAxis(worldPoly, aabbPoly))
+}
+
+// Check if AABB overlaps with a polygon (convex or concave)
+export function aabbPolygonOverlap(aabb: AABB, polygon: NormalizedPoint[], tileX: number, tileY: number): boolean {
+  return getOverlappingParts(aabb, polygon, tileX, tileY).length > 0
 }
 
 // Check if there's a separating axis between two convex polygons
@@ -73,15 +242,17 @@ function hasSeparatingAxis(polyA: { x: number; y: number }[], polyB: { x: number
       y: polyA[j].y - polyA[i].y,
     }
     
-    // Normal (perpendicular) - no need to normalize for projection comparison
-    const normal = { x: -edge.y, y: edge.x }
+    // Normal (perpendicular) - normalized so the contact tolerance is in pixels
+    const length = Math.hypot(edge.x, edge.y)
+    if (length === 0) continue
+    const normal = { x: -edge.y / length, y: edge.x / length }
     
     // Project both polygons onto the normal
     const projA = projectPolygon(polyA, normal)
     const projB = projectPolygon(polyB, normal)
     
-    // Check for gap
-    if (projA.max < projB.min || projB.max < projA.min) {
+    // Check for gap (touching edges don't count as overlap)
+    if (projA.max <= projB.min + CONTACT_EPSILON || projB.max <= projA.min + CONTACT_EPSILON) {
       return true // Found separating axis
     }
   }
@@ -136,6 +307,92 @@ export function checkShapeCollision(
   return false
 }
 
+/**
+ * Side of a tile shape that a body rests against
+ */
+export type ShapeSide = 'top' | 'bottom' | 'left' | 'right'
+
+/**
+ * Get how far a tile shape reaches toward one side within the AABB's span
+ * e.g. 'top' is the highest point of the shape across the AABB's columns - where a
+ * body overlapping it from above should rest. Works for any shape, so slopes and
+ * custom polygons resolve the same way as rectangles.
+ * @returns World coordinate of that edge, or null if the AABB doesn't overlap the shape
+ */
+export function getShapeEdge(
+  aabb: AABB,
+  shape: CollisionShape,
+  tileX: number,
+  tileY: number,
+  side: ShapeSide
+): number | null {
+  if (shape.type === 'rect' && shape.rect) {
+    const worldRect: WorldRect = {
+      x: tileX + shape.rect.x * TILE_SIZE,
+      y: tileY + shape.rect.y * TILE_SIZE,
+      w: shape.rect.w * TILE_SIZE,
+      h: shape.rect.h * TILE_SIZE,
+    }
+    if (!aabbOverlap(aabb, worldRect)) return null
+    switch (side) {
+      case 'top': return worldRect.y
+      case 'bottom': return worldRect.y + worldRect.h
+      case 'left': return worldRect.x
+      case 'right': return worldRect.x + worldRect.w
+    }
+  }
+
+  if (shape.type === 'polygon' && shape.vertices) {
+    const vertical = side === 'top' || side === 'bottom'
+    const wantMin = side === 'top' || side === 'left'
+    const spanMin = vertical ? aabb.x : aabb.y
+    const spanMax = vertical ? aabb.x + aabb.width : aabb.y + aabb.height
+
+    let edge: number | null = null
+    for (const part of getOverlappingParts(aabb, shape.vertices, tileX, tileY)) {
+      const partEdge = getPolygonEdgeInSpan(part, vertical, spanMin, spanMax, wantMin)
+      if (partEdge === null) continue
+      edge = edge === null ? partEdge : wantMin ? Math.min(edge, partEdge) : Math.max(edge, partEdge)
+    }
+    return edge
+  }
+
+  return null
+}
+
+// Extreme coordinate of a polygon within a band (columns if vertical, else rows)
+function getPolygonEdgeInSpan(
+  poly: { x: number; y: number }[],
+  vertical: boolean,
+  spanMin: number,
+  spanMax: number,
+  wantMin: boolean
+): number | null {
+  let edge: number | null = null
+  const consider = (value: number) => {
+    edge = edge === null ? value : wantMin ? Math.min(edge, value) : Math.max(edge, value)
+  }
+
+  // The extreme lies on a vertex inside the band or where an edge crosses its bounds
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i]
+    const b = poly[(i + 1) % poly.length]
+    const au = vertical ? a.x : a.y
+    const bu = vertical ? b.x : b.y
+    const av = vertical ? a.y : a.x
+    const bv = vertical ? b.y : b.x
+
+    if (au >= spanMin && au <= spanMax) consider(av)
+    for (const bound of [spanMin, spanMax]) {
+      if ((au - bound) * (bu - bound) < 0) {
+        consider(av + ((bound - au) / (bu - au)) * (bv - av))
+      }
+    }
+  }
+
+  return edge
+}
+
 // ============================================
 // Tile Grid Collision Checks
 // ============================================
@@ -173,11 +430,10 @@ export function checkTileCollisions(
       
       if (!filter(tileId)) continue
       
-      const tileType = getTileType(tileId)
       const tileX = col * TILE_SIZE
       const tileY = row * TILE_SIZE
       
-      if (checkShapeCollision(aabb, tileType.collision, tileX, tileY)) {
+      if (checkShapeCollision(aabb, getTileCollisionShape(tileId), tileX, tileY)) {
         results.push({
           collides: true,
           tileId,
@@ -193,6 +449,21 @@ export function checkTileCollisions(
   return results
 }
 
+/**
+ * Get the nearest edge facing a body among the tiles it overlaps
+ * e.g. 'top' returns the highest surface under the body's columns.
+ */
+export function getNearestEdge(aabb: AABB, collisions: TileCollisionResult[], side: ShapeSide): number | null {
+  const wantMin = side === 'top' || side === 'left'
+  let nearest: number | null = null
+  for (const col of collisions) {
+    const edge = getShapeEdge(aabb, getTileCollisionShape(col.tileId), col.tileX, col.tileY, side)
+    if (edge === null) continue
+    nearest = nearest === null ? edge : wantMin ? Math.min(nearest, edge) : Math.max(nearest, edge)
+  }
+  return nearest
+}
+
 /**
  * Check if AABB collides with any solid tile
  */
@@ -249,11 +520,11 @@ export function checkPlatformCollision(
   const results = checkTileCollisions(aabb, getTile, levelWidth, levelHeight, isTileTypePlatform)
   
   for (const result of results) {
-    const tileType = getTileType(result.tileId)
+    const shape = getTileCollisionShape(result.tileId)
+    const platformTop = getShapeEdge(aabb, shape, result.tileX, result.tileY, 'top')
     
     // For platforms, only collide if player was above the platform's collision top
-    if (tileType.collision.type === 'rect' && tileType.collision.rect) {
-      const platformTop = result.tileY + tileType.collision.rect.y * TILE_SIZE
+    if (platformTop !== null) {
       const prevBottom = prevY + aabb.height
       
       // Only collide if player's previous bottom was above platform top
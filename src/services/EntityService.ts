@@ -1,8 +1,38 @@
-import { TILE_SIZE, GRAVITY, MAX_FALL_SPEED } from '../core/constants'
-import type { Entity } from '../core/types/entities'
-import { getEntityDefinition } from '../core/types/entities'
+import { TILE_SIZE } from '../core/constants'
+import type { BossPhaseStep, Entity } from '../core/types/entities'
+import { getBossStageIndex, getEntityDefinition } from '../core/types/entities'
+import { getTileLiquid, getTileSurface, isTileTypePlatform, isTileTypeSolid, type LiquidProperties } from '../core/types/shapes'
+import { getPhysicsProfile } from '../core/types/physics'
+import {
+  checkTileCollisions,
+  getNearestEdge,
+  getShapeEdge,
+  getTileCollisionShape,
+  sweep,
+  type AABB,
+} from './CollisionUtils'
 import type { EntityStore } from '../stores/EntityStore'
 import type { LevelStore } from '../stores/LevelStore'
+import type { PlayerStore } from '../stores/PlayerStore'
+
+/** Upward velocity of a jumping enemy's hop */
+const HOP_VELOCITY = -550
+
+/** Default seconds between hops */
+const DEFAULT_JUMP_INTERVAL = 1.5
+
+/** Default flying enemy sine wave: amplitude in tiles, period in seconds */
+const DEFAULT_WAVE_AMPLITUDE = 1
+const DEFAULT_WAVE_PERIOD = 2
+
+/** Default seconds between turret shots */
+const DEFAULT_FIRE_INTERVAL = 2
+
+/** Default turret line-of-sight range in tiles */
+const DEFAULT_SIGHT_RANGE = 8
+
+/** Seconds before an unobstructed projectile expires */
+const PROJECTILE_LIFETIME = 3
 
 /**
  * EntityService - Handles entity behavior and physics
@@ -13,16 +43,18 @@ import type { LevelStore } from '../stores/LevelStore'
 class EntityService {
   /**
    * Update all active entities
+   * @param playerStore - Optional player for behaviors that react to the player (hoppers)
    */
   update(
     deltaTime: number,
     entityStore: EntityStore,
-    levelStore: LevelStore
+    levelStore: LevelStore,
+    playerStore?: PlayerStore
   ): void {
     const entities = entityStore.getActive()
     
     for (const entity of entities) {
-      this.updateEntity(entity, deltaTime, levelStore)
+      this.updateEntity(entity, deltaTime, entityStore, levelStore, playerStore)
     }
   }
 
@@ -32,19 +64,43 @@ class EntityService {
   private updateEntity(
     entity: Entity,
     deltaTime: number,
-    levelStore: LevelStore
+    entityStore: EntityStore,
+    levelStore: LevelStore,
+    playerStore?: PlayerStore
   ): void {
     switch (entity.type) {
       case 'enemy_patrol':
-        this.updatePatrolEnemy(entity, deltaTime, levelStore)
+        this.updatePatrolEnemy(entity, deltaTime, entityStore, levelStore)
         break
       case 'enemy_static':
         // Static enemies don't move, just apply gravity if needed
-        this.applyGravity(entity, deltaTime, levelStore)
+        this.applyGravity(entity, deltaTime, entityStore, levelStore)
+        break
+      case 'enemy_flying':
+        this.updateFlyingEnemy(entity, deltaTime, entityStore, levelStore)
+        break
+      case 'enemy_jumping':
+        this.updateJumpingEnemy(entity, deltaTime, entityStore, levelStore, playerStore)
+        break
+      case 'enemy_boss':
+        this.updateBoss(entity, deltaTime, entityStore, levelStore, playerStore)
+        break
+      case 'enemy_turret':
+        this.updateTurret(entity, deltaTime, entityStore, levelStore, playerStore)
+        break
+      case 'projectile':
+        this.updateProjectile(entity, deltaTime, entityStore, levelStore)
+        break
+      case 'platform_moving':
+        // Platforms ignore gravity and tiles, they just follow their path
+        this.updateMovingPlatform(entity, deltaTime)
+        break
+      case 'crate':
+        this.updateCrate(entity, deltaTime, entityStore, levelStore)
         break
       default:
         // Unknown type, just apply gravity
-        this.applyGravity(entity, deltaTime, levelStore)
+        this.applyGravity(entity, deltaTime, entityStore, levelStore)
     }
   }
 
@@ -54,6 +110,7 @@ class EntityService {
   private updatePatrolEnemy(
     entity: Entity,
     deltaTime: number,
+    entityStore: EntityStore,
     levelStore: LevelStore
   ): void {
     const definition = getEntityDefinition(entity.definitionId)
@@ -63,23 +120,479 @@ class EntityService {
     entity.vx = entity.direction === 'right' ? definition.speed : -definition.speed
     
     // Check if should turn around
-    if (this.shouldTurnAround(entity, levelStore)) {
+    if (this.shouldTurnAround(entity, entityStore, levelStore)) {
       entity.direction = entity.direction === 'right' ? 'left' : 'right'
       entity.vx = -entity.vx
     }
     
     // Apply gravity
-    this.applyGravity(entity, deltaTime, levelStore)
+    this.applyGravity(entity, deltaTime, entityStore, levelStore)
+    
+    // Conveyors carry the enemy along with its walk
+    if (entity.isGrounded) {
+      entity.vx += this.getConveyorSpeed(entity, levelStore)
+    }
     
     // Move horizontally
     this.moveHorizontal(entity, deltaTime, levelStore)
   }
 
+  /**
+   * Update flying enemy - follows waypoints if it has them, otherwise flies
+   * back and forth between walls while bobbing on a sine wave. Ignores gravity.
+   */
+  private updateFlyingEnemy(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore
+  ): void {
+    const definition = getEntityDefinition(entity.definitionId)
+    if (!definition) return
+
+    const speed = (entity.data.speed as number | undefined) ?? definition.speed
+
+    if (entity.data.path) {
+      this.followPath(entity, speed, deltaTime)
+      return
+    }
+
+    // Horizontal patrol, turning at walls
+    entity.vx = entity.direction === 'right' ? speed : -speed
+    if (this.shouldTurnAround(entity, entityStore, levelStore)) {
+      entity.direction = entity.direction === 'right' ? 'left' : 'right'
+      entity.vx = -entity.vx
+    }
+    this.moveHorizontal(entity, deltaTime, levelStore)
+
+    // Vertical sine wave around the spawn height
+    if (entity.data.baseY === undefined) {
+      entity.data.baseY = entity.y
+    }
+    const time = ((entity.data.time as number | undefined) ?? 0) + deltaTime
+    entity.data.time = time
+
+    const amplitude = ((entity.data.waveAmplitude as number | undefined) ?? DEFAULT_WAVE_AMPLITUDE) * TILE_SIZE
+    const period = (entity.data.wavePeriod as number | undefined) ?? DEFAULT_WAVE_PERIOD
+    const newY = (entity.data.baseY as number) + Math.sin((time / period) * Math.PI * 2) * amplitude
+
+    entity.vy = (newY - entity.y) / deltaTime
+    entity.y = newY
+  }
+
+  /**
+   * Update jumping enemy - waits on the ground, then hops toward (or away
+   * from) the player every jumpInterval seconds
+   */
+  private updateJumpingEnemy(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore,
+    playerStore?: PlayerStore
+  ): void {
+    const definition = getEntityDefinition(entity.definitionId)
+    if (!definition) return
+
+    if (entity.isGrounded) {
+      entity.vx = 0
+
+      // Face the way the next hop will go
+      if (playerStore) {
+        const playerIsRight = playerStore.x + playerStore.width / 2 > entity.x + entity.width / 2
+        const hopRight = entity.data.jumpDirection === 'away' ? !playerIsRight : playerIsRight
+        entity.direction = hopRight ? 'right' : 'left'
+      }
+
+      const interval = (entity.data.jumpInterval as number | undefined) ?? DEFAULT_JUMP_INTERVAL
+      const timer = ((entity.data.jumpTimer as number | undefined) ?? 0) + deltaTime
+
+      if (timer >= interval) {
+        const speed = (entity.data.speed as number | undefined) ?? definition.speed
+        entity.data.jumpTimer = 0
+        entity.vx = entity.direction === 'right' ? speed : -speed
+        entity.vy = HOP_VELOCITY
+        entity.isGrounded = false
+      } else {
+        entity.data.jumpTimer = timer
+      }
+    }
+
+    // Apply gravity
+    this.applyGravity(entity, deltaTime, entityStore, levelStore)
+
+    // Move horizontally (only while airborne)
+    this.moveHorizontal(entity, deltaTime, levelStore)
+  }
+
+  /**
+   * Update boss - runs the phase sequence of its current health stage
+   * Dropping into a new stage restarts that stage's sequence. A stomp during
+   * the vulnerable phase (data.wasHit) ends the phase early.
+   */
+  private updateBoss(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore,
+    playerStore?: PlayerStore
+  ): void {
+    const definition = getEntityDefinition(entity.definitionId)
+    const stages = definition?.bossStages
+    if (!definition || !stages?.length) {
+      this.applyGravity(entity, deltaTime, entityStore, levelStore)
+      return
+    }
+
+    const stageIndex = getBossStageIndex(definition, entity.health)
+    const steps = stages[stageIndex].steps
+    if (entity.data.stageIndex !== stageIndex) {
+      entity.data.stageIndex = stageIndex
+      this.startBossStep(entity, steps, 0, playerStore)
+    }
+
+    const timer = (entity.data.phaseTimer as number) + deltaTime
+    entity.data.phaseTimer = timer
+    if (timer >= steps[entity.data.stepIndex as number].duration || entity.data.wasHit) {
+      this.startBossStep(entity, steps, ((entity.data.stepIndex as number) + 1) % steps.length, playerStore)
+    }
+
+    const step = steps[entity.data.stepIndex as number]
+    if (step.phase === 'charge') {
+      const speed = step.speed ?? (entity.data.speed as number | undefined) ?? definition.speed
+      entity.vx = entity.direction === 'right' ? speed : -speed
+      // Stop at walls and ledges rather than turning
+      if (this.shouldTurnAround(entity, entityStore, levelStore)) {
+        entity.vx = 0
+      }
+    } else {
+      entity.vx = 0
+      if (step.phase === 'idle' && playerStore) {
+        this.facePlayer(entity, playerStore)
+      }
+    }
+
+    this.applyGravity(entity, deltaTime, entityStore, levelStore)
+    this.moveHorizontal(entity, deltaTime, levelStore)
+  }
+
+  /**
+   * Enter a step of the boss's phase sequence
+   */
+  private startBossStep(
+    entity: Entity,
+    steps: BossPhaseStep[],
+    index: number,
+    playerStore?: PlayerStore
+  ): void {
+    entity.data.stepIndex = index
+    entity.data.phase = steps[index].phase
+    entity.data.phaseTimer = 0
+    entity.data.wasHit = false
+
+    // Charges commit to the player's side when they start
+    if (playerStore) {
+      this.facePlayer(entity, playerStore)
+    }
+  }
+
+  /**
+   * Turn an entity toward the player
+   */
+  private facePlayer(entity: Entity, playerStore: PlayerStore): void {
+    entity.direction = playerStore.x + playerStore.width / 2 > entity.x + entity.width / 2 ? 'right' : 'left'
+  }
+
+  /**
+   * Update turret - counts down to the next shot and fires horizontally
+   * In sight mode it tracks the player and only fires while they are visible.
+   */
+  private updateTurret(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore,
+    playerStore?: PlayerStore
+  ): void {
+    // Turrets sit on the ground like static enemies
+    this.applyGravity(entity, deltaTime, entityStore, levelStore)
+
+    const interval = (entity.data.fireInterval as number | undefined) ?? DEFAULT_FIRE_INTERVAL
+    const timer = Math.min(((entity.data.fireTimer as number | undefined) ?? 0) + deltaTime, interval)
+    entity.data.fireTimer = timer
+
+    if (entity.data.fireMode === 'sight') {
+      if (!playerStore || !this.canSeePlayer(entity, levelStore, playerStore)) return
+      this.facePlayer(entity, playerStore)
+    }
+
+    if (timer < interval) return
+    entity.data.fireTimer = 0
+
+    const projectile = getEntityDefinition('projectile')
+    if (!projectile) return
+    const sign = entity.direction === 'right' ? 1 : -1
+    const muzzleX = entity.x + entity.width / 2 + sign * (entity.width / 2 + projectile.width / 2)
+    const muzzleY = entity.y + entity.height / 2
+    entityStore.spawnProjectile(muzzleX, muzzleY, sign * projectile.speed, 0, entity.id)
+  }
+
+  /**
+   * Check if the player is level with a turret, within range, with no solid
+   * tiles in between
+   */
+  private canSeePlayer(entity: Entity, levelStore: LevelStore, playerStore: PlayerStore): boolean {
+    const eyeY = entity.y + entity.height / 2
+    if (eyeY < playerStore.y || eyeY > playerStore.y + playerStore.height) return false
+
+    const range = ((entity.data.sightRange as number | undefined) ?? DEFAULT_SIGHT_RANGE) * TILE_SIZE
+    const eyeX = entity.x + entity.width / 2
+    const playerX = playerStore.x + playerStore.width / 2
+    if (Math.abs(playerX - eyeX) > range) return false
+
+    const row = Math.floor(eyeY / TILE_SIZE)
+    const fromCol = Math.floor(Math.min(eyeX, playerX) / TILE_SIZE)
+    const toCol = Math.floor(Math.max(eyeX, playerX) / TILE_SIZE)
+    for (let col = fromCol; col <= toCol; col++) {
+      if (levelStore.isSolidAt(col, row)) return false
+    }
+    return true
+  }
+
+  /**
+   * Update projectile - flies in a straight line until it hits a solid tile,
+   * leaves the level or expires (player hits are handled by PhysicsService)
+   */
+  private updateProjectile(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore
+  ): void {
+    entity.x += entity.vx * deltaTime
+    entity.y += entity.vy * deltaTime
+
+    const age = ((entity.data.age as number | undefined) ?? 0) + deltaTime
+    entity.data.age = age
+
+    const col = Math.floor((entity.x + entity.width / 2) / TILE_SIZE)
+    const row = Math.floor((entity.y + entity.height / 2) / TILE_SIZE)
+    const outOfBounds = col < 0 || col >= levelStore.width || row < 0 || row >= levelStore.height
+
+    if (age >= PROJECTILE_LIFETIME || outOfBounds || levelStore.isSolidAt(col, row)) {
+      entityStore.releaseProjectile(entity)
+    }
+  }
+
+  /**
+   * Update moving platform - travels between waypoints
+   * Velocity is set to the actual displacement so PhysicsService can carry riders.
+   */
+  private updateMovingPlatform(entity: Entity, deltaTime: number): void {
+    const definition = getEntityDefinition(entity.definitionId)
+    if (!definition || !entity.data.path) {
+      entity.vx = 0
+      entity.vy = 0
+      return
+    }
+
+    const speed = (entity.data.speed as number | undefined) ?? definition.speed
+    this.followPath(entity, speed, deltaTime)
+  }
+
+  /**
+   * Move an entity along its waypoint path (data.path), ignoring tiles
+   * Reverses at either end of the path, or wraps back to the start when looping.
+   */
+  private followPath(entity: Entity, speed: number, deltaTime: number): void {
+    const path = entity.data.path as { x: number; y: number }[]
+    if (path.length < 2) {
+      entity.vx = 0
+      entity.vy = 0
+      return
+    }
+
+    const startX = entity.x
+    const startY = entity.y
+    let remaining = speed * deltaTime
+
+    // Spend the step's travel distance, turning at waypoints along the way
+    // (hop limit guards against paths whose waypoints all coincide)
+    for (let hops = 0; remaining > 0 && hops <= path.length; hops++) {
+      const target = path[entity.data.pathIndex as number]
+      const dx = target.x - entity.x
+      const dy = target.y - entity.y
+      const distance = Math.hypot(dx, dy)
+
+      if (distance > remaining) {
+        entity.x += (dx / distance) * remaining
+        entity.y += (dy / distance) * remaining
+        break
+      }
+
+      entity.x = target.x
+      entity.y = target.y
+      remaining -= distance
+      this.advanceWaypoint(entity, path.length)
+    }
+
+    entity.vx = (entity.x - startX) / deltaTime
+    entity.vy = (entity.y - startY) / deltaTime
+    if (entity.vx !== 0) {
+      entity.direction = entity.vx > 0 ? 'right' : 'left'
+    }
+  }
+
+  /**
+   * Pick the next waypoint after reaching the current one
+   */
+  private advanceWaypoint(entity: Entity, pathLength: number): void {
+    const index = entity.data.pathIndex as number
+
+    if (entity.data.loop) {
+      entity.data.pathIndex = (index + 1) % pathLength
+      return
+    }
+
+    // Ping-pong: reverse direction at either end
+    let step = entity.data.pathStep as number
+    if (index + step < 0 || index + step >= pathLength) {
+      step = -step
+      entity.data.pathStep = step
+    }
+    entity.data.pathIndex = index + step
+  }
+
+  /**
+   * Update crate - falls under gravity onto tiles and other crates
+   * Crates only move sideways when the player pushes them (pushCrate).
+   */
+  private updateCrate(
+    entity: Entity,
+    deltaTime: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore
+  ): void {
+    const { gravity, maxFallSpeed } = getPhysicsProfile()
+    entity.vy = Math.min(entity.vy + gravity * deltaTime, maxFallSpeed)
+
+    // Swept, so a fast fall can't skip a floor
+    sweep(entity.vy * deltaTime, (moveY) => this.moveCrateVerticalStep(entity, moveY, entityStore, levelStore))
+  }
+
+  /**
+   * One sub-step of a crate's fall, against tile shapes and other crates
+   * @returns Whether the crate can keep falling (false once it lands)
+   */
+  private moveCrateVerticalStep(
+    crate: Entity,
+    moveY: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore
+  ): boolean {
+    const aabb: AABB = { x: crate.x, y: crate.y + moveY, width: crate.width, height: crate.height }
+    const getTile = (col: number, row: number) => levelStore.getTileAt(col, row)
+
+    // Solids, and one-way platforms the crate's bottom was above
+    const prevBottom = crate.y + crate.height
+    const floors = checkTileCollisions(aabb, getTile, levelStore.width, levelStore.height,
+      (id) => isTileTypeSolid(id) || isTileTypePlatform(id))
+      .filter(tile => {
+        if (!isTileTypePlatform(tile.tileId)) return true
+        const platformTop = getShapeEdge(aabb, getTileCollisionShape(tile.tileId), tile.tileX, tile.tileY, 'top')
+        return platformTop !== null && prevBottom <= platformTop + 1
+      })
+    const tileTop = getNearestEdge(aabb, floors, 'top')
+    const crateTop = this.getCrateTopBelow(crate, aabb.y + aabb.height, entityStore)
+    const groundY = tileTop === null ? crateTop : crateTop === null ? tileTop : Math.min(tileTop, crateTop)
+
+    if (groundY === null) {
+      crate.y = aabb.y
+      crate.isGrounded = false
+      return true
+    }
+    crate.y = groundY - crate.height
+    crate.vy = 0
+    crate.isGrounded = true
+    return false
+  }
+
+  /**
+   * Slide a crate sideways (the player pushing it), stopping at walls and other crates
+   * @returns Distance the crate actually moved
+   */
+  pushCrate(crate: Entity, moveX: number, entityStore: EntityStore, levelStore: LevelStore): number {
+    const startX = crate.x
+    sweep(moveX, (stepX) => this.pushCrateStep(crate, stepX, entityStore, levelStore))
+    return crate.x - startX
+  }
+
+  /**
+   * One sub-step of pushCrate
+   * @returns Whether the crate can keep moving (false once it hits a wall or crate)
+   */
+  private pushCrateStep(
+    crate: Entity,
+    moveX: number,
+    entityStore: EntityStore,
+    levelStore: LevelStore
+  ): boolean {
+    const aabb: AABB = { x: crate.x + moveX, y: crate.y, width: crate.width, height: crate.height }
+    const getTile = (col: number, row: number) => levelStore.getTileAt(col, row)
+    const movingRight = moveX > 0
+
+    // Nearest wall face ahead, from tile shapes and other crates
+    const walls = checkTileCollisions(aabb, getTile, levelStore.width, levelStore.height, isTileTypeSolid)
+    let wallX = getNearestEdge(aabb, walls, movingRight ? 'left' : 'right')
+    for (const other of entityStore.getActiveCrates()) {
+      const overlaps = other.id !== crate.id &&
+        aabb.x < other.x + other.width && aabb.x + aabb.width > other.x &&
+        aabb.y < other.y + other.height && aabb.y + aabb.height > other.y
+      if (!overlaps) continue
+      const edge = movingRight ? other.x : other.x + other.width
+      wallX = wallX === null ? edge : movingRight ? Math.min(wallX, edge) : Math.max(wallX, edge)
+    }
+
+    if (wallX === null) {
+      crate.x = aabb.x
+      return true
+    }
+    // Snap against the wall, never backwards
+    crate.x = movingRight ? Math.max(crate.x, wallX - crate.width) : Math.min(crate.x, wallX)
+    return false
+  }
+
+  /**
+   * Get the top of the highest crate an entity's feet reach on the way down to newBottom
+   */
+  private getCrateTopBelow(entity: Entity, newBottom: number, entityStore: EntityStore): number | null {
+    const prevBottom = entity.y + entity.height
+    let top: number | null = null
+    for (const crate of entityStore.getActiveCrates()) {
+      const isBelow = crate.id !== entity.id &&
+        prevBottom <= crate.y + 1 && newBottom >= crate.y &&
+        entity.x < crate.x + crate.width && entity.x + entity.width > crate.x
+      if (isBelow && (top === null || crate.y < top)) top = crate.y
+    }
+    return top
+  }
+
+  /**
+   * Find the crate covering a world point, if any
+   */
+  private findCrateAt(x: number, y: number, entityStore: EntityStore): Entity | undefined {
+    return entityStore.getActiveCrates().find(crate =>
+      x >= crate.x && x < crate.x + crate.width && y >= crate.y && y < crate.y + crate.height
+    )
+  }
+
   /**
    * Check if patrol enemy should turn around
    * Returns true if hitting a wall or about to walk off ledge
+   * One-way platforms are ground but not walls, as for the player, and
+   * half platforms only count as ground under their half. Crates are both.
    */
-  private shouldTurnAround(entity: Entity, levelStore: LevelStore): boolean {
+  private shouldTurnAround(entity: Entity, entityStore: EntityStore, levelStore: LevelStore): boolean {
     const movingRight = entity.direction === 'right'
     
     // Check for wall ahead
@@ -91,7 +604,7 @@ class EntityService {
     const col = Math.floor(checkX / TILE_SIZE)
     const row = Math.floor(checkY / TILE_SIZE)
     
-    if (levelStore.isSolidAt(col, row)) {
+    if (levelStore.isSolidAt(col, row) || this.findCrateAt(checkX, checkY, entityStore)) {
       return true  // Wall ahead
     }
     
@@ -106,8 +619,10 @@ class EntityService {
       const groundCol = Math.floor(groundCheckX / TILE_SIZE)
       const groundRow = Math.floor(groundCheckY / TILE_SIZE)
       
-      // If no solid ground ahead, turn around
-      if (!levelStore.isSolidAt(groundCol, groundRow)) {
+      // If no solid ground, platform or crate ahead, turn around
+      const platformAhead = this.overlapsPlatform(groundCheckX, groundCheckY, 1, 1, levelStore) ||
+        this.findCrateAt(groundCheckX, groundCheckY, entityStore)
+      if (!levelStore.isSolidAt(groundCol, groundRow) && !platformAhead) {
         return true  // Ledge ahead
       }
     }
@@ -115,24 +630,63 @@ class EntityService {
     return false
   }
 
+  /**
+   * Check if a box overlaps a one-way platform's footprint
+   */
+  private overlapsPlatform(x: number, y: number, width: number, height: number, levelStore: LevelStore): boolean {
+    const getTile = (col: number, row: number) => levelStore.getTileAt(col, row)
+    return checkTileCollisions({ x, y, width, height }, getTile, levelStore.width, levelStore.height, isTileTypePlatform).length > 0
+  }
+
+  /**
+   * Get the conveyor speed of the tile under an entity's center (0 if none)
+   */
+  private getConveyorSpeed(entity: Entity, levelStore: LevelStore): number {
+    const tileId = levelStore.getTileAtWorld(entity.x + entity.width / 2, entity.y + entity.height + 1)
+    return getTileSurface(tileId).conveyorSpeed ?? 0
+  }
+
+  /**
+   * Get the liquid an entity's center is in, if any (same rule as the player)
+   */
+  private getLiquidAt(entity: Entity, levelStore: LevelStore): LiquidProperties | undefined {
+    return getTileLiquid(levelStore.getTileAtWorld(entity.x + entity.width / 2, entity.y + entity.height / 2))
+  }
+
   /**
    * Apply gravity to entity
    */
   private applyGravity(
     entity: Entity,
     deltaTime: number,
+    entityStore: EntityStore,
     levelStore: LevelStore
   ): void {
-    // Apply gravity
-    entity.vy += GRAVITY * deltaTime
+    // Apply gravity (liquids offset it with buoyancy and slow vertical movement with drag)
+    const { gravity, maxFallSpeed } = getPhysicsProfile()
+    const liquid = this.getLiquidAt(entity, levelStore)
+    if (liquid) {
+      entity.vy += (gravity - liquid.buoyancy) * deltaTime
+      entity.vy *= Math.max(0, 1 - liquid.drag * deltaTime)
+    } else {
+      entity.vy += gravity * deltaTime
+    }
     
     // Cap fall speed
-    if (entity.vy > MAX_FALL_SPEED) {
-      entity.vy = MAX_FALL_SPEED
+    if (entity.vy > maxFallSpeed) {
+      entity.vy = maxFallSpeed
     }
     
-    // Move vertically
-    const newY = entity.y + entity.vy * deltaTime
+    // Move vertically (swept, so a fast fall can't skip a floor)
+    sweep(entity.vy * deltaTime, (moveY) => this.moveVerticalStep(entity, moveY, entityStore, levelStore))
+  }
+
+  /**
+   * One sub-step of an entity's vertical move
+   * @returns Whether the entity can keep moving (false once it lands or hits a ceiling)
+   */
+  private moveVerticalStep(entity: Entity, moveY: number, entityStore: EntityStore, levelStore: LevelStore): boolean {
+    const newY = entity.y + moveY
     
     // Check ground collision
     if (entity.vy >= 0) {
@@ -150,15 +704,30 @@ class EntityService {
         }
       }
       
+      // One-way platforms only catch entities whose feet were above their top
+      const rowTop = bottomRow * TILE_SIZE
+      if (!hitGround && entity.y + entity.height <= rowTop) {
+        hitGround = this.overlapsPlatform(entity.x, rowTop, entity.width, 1, levelStore)
+      }
+      
+      // Crates are stood on like the ground
+      const crateTop = this.getCrateTopBelow(entity, bottomY, entityStore)
+      if (crateTop !== null && (!hitGround || crateTop < rowTop)) {
+        entity.y = crateTop - entity.height
+        entity.vy = 0
+        entity.isGrounded = true
+        return false
+      }
+      
       if (hitGround) {
         // Snap to ground
         entity.y = bottomRow * TILE_SIZE - entity.height
         entity.vy = 0
         entity.isGrounded = true
-      } else {
-        entity.y = newY
-        entity.isGrounded = false
+        return false
       }
+      entity.y = newY
+      entity.isGrounded = false
     } else {
       // Rising - check for ceiling
       const topRow = Math.floor(newY / TILE_SIZE)
@@ -173,18 +742,19 @@ class EntityService {
         }
       }
       
+      entity.isGrounded = false
       if (hitCeiling) {
         entity.y = (topRow + 1) * TILE_SIZE
         entity.vy = 0
-      } else {
-        entity.y = newY
+        return false
       }
-      entity.isGrounded = false
+      entity.y = newY
     }
+    return true
   }
 
   /**
-   * Move entity horizontally with collision
+   * Move entity horizontally with collision (swept, so a fast move can't skip a wall)
    */
   private moveHorizontal(
     entity: Entity,
@@ -193,7 +763,17 @@ class EntityService {
   ): void {
     if (entity.vx === 0) return
     
-    const newX = entity.x + entity.vx * deltaTime
+    // Liquids slow horizontal movement too
+    const speedMultiplier = this.getLiquidAt(entity, levelStore)?.speedMultiplier ?? 1
+    sweep(entity.vx * deltaTime * speedMultiplier, (moveX) => this.moveHorizontalStep(entity, moveX, levelStore))
+  }
+
+  /**
+   * One sub-step of an entity's horizontal move
+   * @returns Whether the entity can keep moving (false once it hits a wall)
+   */
+  private moveHorizontalStep(entity: Entity, moveX: number, levelStore: LevelStore): boolean {
+    const newX = entity.x + moveX
     
     // Check collision
     const topRow = Math.floor(entity.y / TILE_SIZE)
@@ -213,8 +793,7 @@ class EntityService {
       
       if (hitWall) {
         entity.x = rightCol * TILE_SIZE - entity.width
-      } else {
-        entity.x = newX
+        return false
       }
     } else {
       // Moving left
@@ -230,10 +809,11 @@ class EntityService {
       
       if (hitWall) {
         entity.x = (leftCol + 1) * TILE_SIZE
-      } else {
-        entity.x = newX
+        return false
       }
     }
+    entity.x = newX
+    return true
   }
 }
 
@@ -1,32 +1,70 @@
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from '../core/constants'
+
 type TickCallback = (deltaTime: number) => void
+type RenderCallback = (frameTime: number, alpha: number) => void
 
 /**
  * GameLoopService - Owns requestAnimationFrame loop
- * 
+ *
  * Calculates deltaTime between frames and calls registered tick callbacks.
  * Provides start/stop control for pausing the game.
+ *
+ * In fixed-step mode (default), elapsed frame time is accumulated and the
+ * tick callback runs zero or more times with a constant step, so simulation
+ * results don't depend on display refresh rate. The render callback then runs
+ * once per frame with an interpolation alpha (0-1) between the previous and
+ * current simulation states.
  */
 class GameLoopService {
   private isRunning = false
   private lastTimestamp = 0
   private animationFrameId: number | null = null
   private tickCallback: TickCallback | null = null
+  private renderCallback: RenderCallback | null = null
+
+  // Fixed timestep state (null step = variable timestep mode)
+  private fixedStep: number | null = FIXED_TIMESTEP
+  private accumulator = 0
 
   /**
-   * Register the main tick callback
+   * Register the main tick callback (simulation step)
    */
   setTickCallback(callback: TickCallback): void {
     this.tickCallback = callback
   }
 
+  /**
+   * Register the render callback (called once per animation frame)
+   */
+  setRenderCallback(callback: RenderCallback): void {
+    this.renderCallback = callback
+  }
+
+  /**
+   * Set the fixed simulation step in seconds
+   * Pass null to feed the raw (capped) frame delta to the tick callback instead.
+   */
+  setFixedTimestep(step: number | null): void {
+    this.fixedStep = step
+    this.accumulator = 0
+  }
+
+  /**
+   * Get the fixed simulation step (null in variable timestep mode)
+   */
+  getFixedTimestep(): number | null {
+    return this.fixedStep
+  }
+
   /**
    * Start the game loop
    */
   start(): void {
     if (this.isRunning) return
-    
+
     this.isRunning = true
     this.lastTimestamp = performance.now()
+    this.accumulator = 0
     this.animationFrameId = requestAnimationFrame(this.loop)
   }
 
@@ -51,18 +89,17 @@ class GameLoopService {
   private loop = (timestamp: number): void => {
     if (!this.isRunning) return
 
-    // Calculate delta time in seconds
-    const deltaTime = Math.min((timestamp - this.lastTimestamp) / 1000, 0.1) // Cap at 100ms to prevent huge jumps
+    // Calculate frame time in seconds
+    const frameTime = Math.min((timestamp - this.lastTimestamp) / 1000, MAX_FRAME_TIME)
     this.lastTimestamp = timestamp
 
-    // Call the tick callback with error handling to prevent loop crash
-    if (this.tickCallback) {
-      try {
-        this.tickCallback(deltaTime)
-      } catch (error) {
-        console.error('Error in game loop tick:', error)
-        // Continue running to allow recovery
-      }
+    // Call the tick/render callbacks with error handling to prevent loop crash
+    try {
+      const alpha = this.step(frameTime)
+      this.renderCallback?.(frameTime, alpha)
+    } catch (error) {
+      console.error('Error in game loop tick:', error)
+      // Continue running to allow recovery
     }
 
     // Schedule next frame (only if still running)
@@ -70,6 +107,27 @@ class GameLoopService {
       this.animationFrameId = requestAnimationFrame(this.loop)
     }
   }
+
+  /**
+   * Advance the simulation by one frame's worth of time
+   * @returns Interpolation alpha for rendering (1 in variable timestep mode)
+   */
+  private step(frameTime: number): number {
+    if (!this.tickCallback) return 1
+
+    if (this.fixedStep === null) {
+      this.tickCallback(frameTime)
+      return 1
+    }
+
+    this.accumulator += frameTime
+    while (this.accumulator >= this.fixedStep) {
+      this.tickCallback(this.fixedStep)
+      this.accumulator -= this.fixedStep
+    }
+
+    return this.accumulator / this.fixedStep
+  }
 }
 
 // Singleton instance
@@ -1,4 +1,5 @@
-import type { HitboxDefinition } from '../stores/AssetStore'
+import type { HitboxDefinition, HitboxRect } from '../stores/AssetStore'
+import type { CollisionShape } from '../core/types/shapes'
 
 /**
  * Point interface for hitbox calculations
@@ -474,6 +475,84 @@ class HitboxService {
     }))
   }
 
+  /**
+   * Check a hitbox definition can be turned into a collision shape
+   * Compound rects must stack top to bottom, each touching and overlapping
+   * the next, so that they outline a single polygon.
+   * @returns Error messages (empty if valid)
+   */
+  validateHitbox(hitbox: HitboxDefinition): string[] {
+    if (hitbox.type !== 'compound' || !hitbox.rects) return []
+
+    const errors: string[] = []
+    const sorted = [...hitbox.rects].sort((a, b) => a.y - b.y)
+    sorted.forEach((r, i) => {
+      if (!(r.w > 0 && r.h > 0)) {
+        errors.push(`compound rect ${i} has no area`)
+      }
+      const next = sorted[i + 1]
+      if (!next) return
+      if (Math.abs(r.y + r.h - next.y) > 1e-6) {
+        errors.push(`compound rects ${i} and ${i + 1} don't stack (each rect must start where the one above ends)`)
+      } else if (Math.max(r.x, next.x) >= Math.min(r.x + r.w, next.x + next.w)) {
+        errors.push(`compound rects ${i} and ${i + 1} don't overlap horizontally`)
+      }
+    })
+    return errors
+  }
+
+  /**
+   * Convert a hitbox definition to a tile collision shape
+   * 'auto' hitboxes are traced from the tile's sprite, so they need one.
+   * Compound rects are merged into one outline.
+   * @returns The shape, or null if the definition can't be used
+   */
+  toCollisionShape(hitbox: HitboxDefinition, sprite?: HTMLImageElement): CollisionShape | null {
+    if (this.validateHitbox(hitbox).length > 0) return null
+
+    switch (hitbox.type) {
+      case 'auto':
+        return sprite ? this.toCollisionShape(this.generateFromImage(sprite)) : null
+      case 'rect':
+        return {
+          type: 'rect',
+          rect: { x: hitbox.x ?? 0, y: hitbox.y ?? 0, w: hitbox.w ?? 1, h: hitbox.h ?? 1 },
+        }
+      case 'polygon':
+        if (!hitbox.points || hitbox.points.length < 3) return null
+        return { type: 'polygon', vertices: this.normalizePoints(hitbox.points, 1, 1) }
+      case 'compound':
+        if (!hitbox.rects || hitbox.rects.length === 0) return null
+        return { type: 'polygon', vertices: this.outlineRects(hitbox.rects) }
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Trace the outline of vertically stacked rects (down the right side, up the left)
+   * Only valid for stacks that pass validateHitbox.
+   */
+  private outlineRects(rects: HitboxRect[]): Point[] {
+    const sorted = [...rects].sort((a, b) => a.y - b.y)
+    const outline: Point[] = []
+    const add = (x: number, y: number) => {
+      const last = outline[outline.length - 1]
+      if (!last || last.x !== x || last.y !== y) outline.push({ x, y })
+    }
+
+    for (const r of sorted) {
+      add(r.x + r.w, r.y)
+      add(r.x + r.w, r.y + r.h)
+    }
+    for (const r of [...sorted].reverse()) {
+      add(r.x, r.y + r.h)
+      add(r.x, r.y)
+    }
+
+    return outline
+  }
+
   /**
    * Convert normalized points back to pixel coordinates
    */
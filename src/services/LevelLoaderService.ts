@@ -133,8 +133,11 @@ class LevelLoaderService {
       }
     }
 
+    // Images can't load without a DOM (headless simulation), and nothing is drawn there anyway
+    const canLoadImages = typeof Image !== 'undefined'
+
     // Handle background image
-    if (assetStore && level.backgroundUrl) {
+    if (assetStore && level.backgroundUrl && canLoadImages) {
       // Level specifies a background URL - load it
       this.loadBackgroundImage(level.backgroundUrl, assetStore)
     } else if (assetStore && !level.backgroundUrl && !preserveCustomAssets) {
@@ -146,7 +149,7 @@ class LevelLoaderService {
     // (e.g., user-uploaded background when testing editor level)
 
     // Handle player sprites
-    if (assetStore && level.playerSprites) {
+    if (assetStore && level.playerSprites && canLoadImages) {
       // Level specifies player sprites - load them
       this.loadPlayerSprites(level.playerSprites, assetStore)
     } else if (assetStore && !level.playerSprites && !preserveCustomAssets) {
@@ -1,11 +1,15 @@
 import JSZip from 'jszip'
-import { TileTypeId, TILE_TYPES } from '../core/types/shapes'
+import { TileTypeId, TILE_TYPES, findTileTypeIdByName, isTileTypePowerUp } from '../core/types/shapes'
+import type { SurfaceProperties } from '../core/types/shapes'
+import { DEFAULT_PHYSICS_PROFILE, validatePhysicsOverrides, type PackParams, type PhysicsOverrides } from '../core/types/physics'
 import type { LevelDefinition, LevelJSON } from '../levels/types'
 import { levelToJSON, jsonToLevel, validateLevel } from '../levels/types'
+import { hitboxService } from './HitboxService'
 import type { 
   PackManifest, 
   LoadedAssets, 
-  HitboxDefinition 
+  HitboxDefinition,
+  PackPowerUp,
 } from '../stores/AssetStore'
 
 /**
@@ -35,7 +39,7 @@ export interface ExtractedPack {
  * - sprites/: Custom sprite images
  * - audio/: Music and sound effects
  * - hitboxes/: Custom collision polygons
- * - config/: Parameter overrides (future)
+ * - config/params.json: Physics overrides for every level in the pack
  */
 class LevelPackService {
   /**
@@ -52,6 +56,9 @@ class LevelPackService {
       music?: Blob
       sfx?: Map<string, Blob>
       hitboxes?: Map<string, HitboxDefinition>
+      surfaces?: Map<string, SurfaceProperties>
+      powerUps?: Map<string, PackPowerUp>
+      physics?: PhysicsOverrides
     },
     metadata: {
       name: string
@@ -166,6 +173,23 @@ class LevelPackService {
       manifest.hitboxes = 'hitboxes/hitboxes.json'
     }
 
+    // Add surface overrides
+    if (assets.surfaces && assets.surfaces.size > 0) {
+      manifest.surfaces = Object.fromEntries(assets.surfaces)
+    }
+
+    // Add power-ups
+    if (assets.powerUps && assets.powerUps.size > 0) {
+      manifest.powerUps = Object.fromEntries(assets.powerUps)
+    }
+
+    // Add parameter overrides
+    if (assets.physics && Object.keys(assets.physics).length > 0) {
+      const params: PackParams = { physics: assets.physics }
+      zip.file('config/params.json', JSON.stringify(params, null, 2))
+      manifest.params = 'config/params.json'
+    }
+
     // Add manifest
     zip.file('manifest.json', JSON.stringify(manifest, null, 2))
 
@@ -278,6 +302,48 @@ class LevelPackService {
             }
           }
         }
+
+        if (manifest.surfaces) {
+          for (const tileName of Object.keys(manifest.surfaces)) {
+            if (findTileTypeIdByName(tileName) === undefined) {
+              warnings.push(`Surface for unknown tile: ${tileName}`)
+            }
+          }
+        }
+
+        if (manifest.powerUps) {
+          for (const [powerUpId, powerUp] of Object.entries(manifest.powerUps)) {
+            if (powerUp.tile === undefined) continue
+            const tileTypeId = findTileTypeIdByName(powerUp.tile)
+            if (tileTypeId === undefined || !isTileTypePowerUp(tileTypeId)) {
+              warnings.push(`Power-up ${powerUpId} mapped to a tile that isn't a power-up pickup: ${powerUp.tile}`)
+            }
+          }
+        }
+
+        const hitboxFile = zip.file(manifest.hitboxes || 'hitboxes/hitboxes.json')
+        if (hitboxFile) {
+          try {
+            for (const [key, hitbox] of this.parseHitboxes(await hitboxFile.async('string'))) {
+              errors.push(...hitboxService.validateHitbox(hitbox).map(e => `Hitbox ${key}: ${e}`))
+            }
+          } catch (e) {
+            warnings.push(`Invalid hitboxes.json: ${e instanceof Error ? e.message : 'Parse error'}`)
+          }
+        }
+
+        // Bad parameter values are skipped when loading, so they only warn
+        const paramsFile = zip.file(manifest.params || 'config/params.json')
+        if (manifest.params && !paramsFile) {
+          warnings.push(`Missing params: ${manifest.params}`)
+        } else if (paramsFile) {
+          try {
+            const params: PackParams = JSON.parse(await paramsFile.async('string'))
+            warnings.push(...validatePhysicsOverrides(params.physics ?? {}).map(e => `Params: physics.${e}`))
+          } catch (e) {
+            warnings.push(`Invalid params.json: ${e instanceof Error ? e.message : 'Parse error'}`)
+          }
+        }
       } catch (e) {
         errors.push(`Invalid manifest.json: ${e instanceof Error ? e.message : 'Parse error'}`)
       }
@@ -318,6 +384,9 @@ class LevelPackService {
       uiSprites: new Map(),
       sfx: new Map(),
       hitboxes: new Map(),
+      surfaces: new Map(Object.entries(manifest.surfaces ?? {})),
+      powerUps: new Map(Object.entries(manifest.powerUps ?? {})),
+      physics: {},
     }
 
     // Load tile sprites
@@ -329,7 +398,7 @@ class LevelPackService {
           const image = await this.loadImage(blob)
           
           // Find TileTypeId by name
-          const tileTypeId = this.findTileTypeIdByName(tileName)
+          const tileTypeId = findTileTypeIdByName(tileName)
           if (tileTypeId !== undefined) {
             assets.tileSprites.set(tileTypeId, image)
           }
@@ -434,19 +503,50 @@ class LevelPackService {
     const hitboxFile = zip.file(hitboxPath)
     if (hitboxFile) {
       try {
-        const text = await hitboxFile.async('string')
-        const hitboxData: Record<string, HitboxDefinition> = JSON.parse(text)
-        for (const [key, hitbox] of Object.entries(hitboxData)) {
-          assets.hitboxes.set(key, hitbox)
-        }
+        assets.hitboxes = this.parseHitboxes(await hitboxFile.async('string'))
       } catch {
         // Hitboxes are optional, ignore errors
       }
     }
 
+    // Load parameter overrides (keeping only valid values)
+    const paramsFile = zip.file(manifest.params || 'config/params.json')
+    if (paramsFile) {
+      try {
+        const params: PackParams = JSON.parse(await paramsFile.async('string'))
+        for (const [key, value] of Object.entries(params.physics ?? {})) {
+          const override: PhysicsOverrides = { [key]: value }
+          if (key in DEFAULT_PHYSICS_PROFILE && validatePhysicsOverrides(override).length === 0) {
+            Object.assign(assets.physics, override)
+          }
+        }
+      } catch {
+        // Params are optional, ignore errors
+      }
+    }
+
     return assets
   }
 
+  /**
+   * Parse hitboxes.json into hitboxes by key
+   * Tile hitboxes may be grouped under "tiles", keyed by tile name.
+   */
+  private parseHitboxes(text: string): Map<string, HitboxDefinition> {
+    const hitboxes = new Map<string, HitboxDefinition>()
+    const hitboxData: Record<string, HitboxDefinition | Record<string, HitboxDefinition>> = JSON.parse(text)
+    for (const [key, hitbox] of Object.entries(hitboxData)) {
+      if (key === 'tiles' && !('type' in hitbox)) {
+        for (const [tileName, tileHitbox] of Object.entries(hitbox as Record<string, HitboxDefinition>)) {
+          hitboxes.set(tileName, tileHitbox)
+        }
+      } else {
+        hitboxes.set(key, hitbox as HitboxDefinition)
+      }
+    }
+    return hitboxes
+  }
+
   /**
    * Load an image from a blob
    */
@@ -470,22 +570,6 @@ class LevelPackService {
     })
   }
 
-  /**
-   * Find TileTypeId by tile type name
-   */
-  private findTileTypeIdByName(name: string): TileTypeId | undefined {
-    const normalizedName = name.toLowerCase().replace(/[_\s]+/g, '')
-    
-    for (const [idStr, tileType] of Object.entries(TILE_TYPES)) {
-      const tileName = tileType.name.toLowerCase().replace(/[_\s]+/g, '')
-      if (tileName === normalizedName) {
-        return Number(idStr) as TileTypeId
-      }
-    }
-
-    return undefined
-  }
-
   /**
    * Download a level pack
    */
@@ -1,13 +1,33 @@
-import { TILE_SIZE, GRAVITY, MAX_FALL_SPEED, PLAYER_SPEED } from '../core/constants'
-import { TileTypeId, getTileType, isTileTypeSolid, isTileTypePlatform, SHAPES } from '../core/types/shapes'
-import type { CollisionShape, NormalizedPoint } from '../core/types/shapes'
-import type { InputState } from '../core/types'
+import { TILE_SIZE, WALL_SLIDE_SPEED, CLIMB_SPEED } from '../core/constants'
+import {
+  TileTypeId,
+  getTileType,
+  isTileTypeSolid,
+  isTileTypePlatform,
+  isTileTypeTrigger,
+  isTileTypeSwitch,
+  getTileSurface,
+  getTileLiquid,
+  isTileTypeClimbable,
+  isTileTypeCrumbling,
+  isTileTypeKey,
+  isTileTypeLockedDoor,
+  getTileKeyColor,
+} from '../core/types/shapes'
+import { getPowerUpForTile } from '../core/types/powerups'
+import { getPhysicsProfile } from '../core/types/physics'
+import type { LiquidProperties, SurfaceProperties } from '../core/types/shapes'
+import type { InputState, Vector2 } from '../core/types'
 import {
   checkSolidCollision,
   checkHazardCollision,
   checkPickupCollision,
   checkPlatformCollision,
   checkTileCollisions,
+  getNearestEdge,
+  getShapeEdge,
+  getTileCollisionShape,
+  sweep,
   type AABB,
 } from './CollisionUtils'
 import type { PlayerStore } from '../stores/PlayerStore'
@@ -15,11 +35,63 @@ import type { LevelStore } from '../stores/LevelStore'
 import type { GameStore } from '../stores/GameStore'
 import type { EntityStore } from '../stores/EntityStore'
 import type { Entity } from '../core/types/entities'
+import type { GridPosition } from '../levels/types'
 import { getEntityDefinition } from '../core/types/entities'
+import { entityService } from './EntityService'
 
 /** Bounce velocity when stomping an enemy */
 const STOMP_BOUNCE_VELOCITY = -300
 
+/** How far (px) the player's feet may be from a moving platform's top and still ride it */
+const PLATFORM_RIDE_TOLERANCE = 2
+
+/** Slowest bounce (px/s) off a bouncy surface; softer landings just stop */
+const MIN_BOUNCE_VELOCITY = 120
+
+/** Rows (px) trimmed from the top and bottom of the wall probe so floors and ceilings don't count as walls */
+const WALL_PROBE_INSET = 4
+
+/** Depth (px) below a body's top edge that must be in liquid for it to count as submerged */
+const SUBMERGE_DEPTH = 8
+
+/**
+ * Minimal body moved by tile physics (PlayerStore satisfies this)
+ */
+export interface PhysicsBody {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  width: number
+  height: number
+  isGrounded: boolean
+  onLand(): void
+  /** Called when a spring or bounce pad launches the body (after vx is set) */
+  onLaunch(): void
+  /** Falls through one-way platforms while set (the player after down+jump) */
+  isDroppingThrough?: boolean
+}
+
+/**
+ * Body whose horizontal speed eases toward the speed its input asks for
+ * (PlayerStore satisfies this)
+ */
+export interface ControlledBody extends PhysicsBody {
+  /** Speed the input asks for (vx moves toward it) */
+  targetVx: number
+  /** Knockback owns vx while this runs */
+  knockbackTimer?: number
+}
+
+/**
+ * Minimal tile grid read by tile physics (LevelStore satisfies this)
+ */
+export interface TileGrid {
+  width: number
+  height: number
+  getTileAt(col: number, row: number): number
+}
+
 /**
  * PhysicsService - Stateless physics and collision logic
  * 
@@ -30,7 +102,7 @@ class PhysicsService {
   /**
    * Main physics update - called once per frame
    * @param input - Optional input state for noclip vertical movement
-   * @param entityStore - Optional entity store for enemy collisions
+   * @param entityStore - Optional entity store for enemy and moving platform collisions
    */
   update(
     deltaTime: number,
@@ -45,68 +117,277 @@ class PhysicsService {
       return
     }
 
-    // Store previous position for platform collision
-    const prevY = playerStore.y
+    const physics = getPhysicsProfile()
 
     // Noclip mode: free flight, no gravity
     if (gameStore.isNoclip) {
       // Calculate vertical velocity from input (up/down keys)
       let flyVy = 0
       if (input) {
-        if (input.up && !input.down) flyVy = -PLAYER_SPEED
-        else if (input.down && !input.up) flyVy = PLAYER_SPEED
+        if (input.up && !input.down) flyVy = -physics.playerSpeed
+        else if (input.down && !input.up) flyVy = physics.playerSpeed
       }
       
       // Direct movement without collision
+      playerStore.vx = playerStore.targetVx
       playerStore.x += playerStore.vx * deltaTime
       playerStore.y += flyVy * deltaTime
       
       // Still check pickups and triggers in noclip
       this.checkPickups(playerStore, levelStore, gameStore)
-      this.checkTriggers(playerStore, levelStore, gameStore)
+      this.checkTriggers(playerStore, levelStore, gameStore, deltaTime, entityStore)
+      this.checkCrumbles(playerStore, levelStore, deltaTime, entityStore)
       return
     }
 
-    // Apply gravity
-    playerStore.vy += GRAVITY * deltaTime
-    
-    // Cap fall speed
-    if (playerStore.vy > MAX_FALL_SPEED) {
-      playerStore.vy = MAX_FALL_SPEED
+    // Ride along with a moving platform before the player's own movement
+    if (entityStore) {
+      this.carryRider(playerStore, levelStore, entityStore)
     }
+    const prevY = playerStore.y
 
-    // Calculate intended movement
-    const moveX = playerStore.vx * deltaTime
-    const moveY = playerStore.vy * deltaTime
+    // Ease toward the input speed on ice, sand and other surfaces
+    this.applySurfaceControl(playerStore, levelStore, deltaTime)
 
-    // Move and collide horizontally first
-    this.moveHorizontal(playerStore, levelStore, moveX)
-    
-    // Then move and collide vertically
-    this.moveVertical(playerStore, levelStore, moveY, prevY)
+    // Gravity, movement and tile collision (sliding down a wall or slow fall caps the fall speed, climbing ignores gravity)
+    if (playerStore.isClimbing) {
+      this.climbBody(playerStore, levelStore, deltaTime)
+    } else {
+      const { fallGravityMultiplier, fallSpeedMultiplier } = playerStore.powerUpEffects
+      const maxFallSpeed = Math.min(playerStore.isWallSliding ? WALL_SLIDE_SPEED : physics.maxFallSpeed, physics.maxFallSpeed * fallSpeedMultiplier)
+      this.stepBody(playerStore, levelStore, deltaTime, maxFallSpeed, fallGravityMultiplier, physics.gravity)
+    }
+
+    // Land on, get pushed out of, or push moving platforms and crates
+    if (entityStore) {
+      this.resolvePlatformCollisions(playerStore, levelStore, entityStore, prevY, deltaTime)
+    }
+
+    // Standing on a one-way platform lets down+jump drop through it next step
+    playerStore.setPlatformContact(this.isOnOneWayPlatform(playerStore, levelStore, entityStore))
+
+    // Walls touched this step enable wall slide and wall jump next step
+    playerStore.wallContact = playerStore.wallJumpUnlocked ? this.getWallContact(playerStore, levelStore) : 0
+
+    // Liquid contact turns the next jump press into a swim stroke
+    playerStore.setLiquidState(
+      this.getLiquidAt(playerStore, levelStore) !== null,
+      this.isSubmerged(playerStore, levelStore)
+    )
+
+    // Ladders and vines can be grabbed while overlapped (and let go of once left)
+    playerStore.setClimbableContact(this.isOnClimbable(playerStore, levelStore))
 
     // Check for hazard collision
     this.checkHazards(playerStore, levelStore, gameStore)
 
     // Check for entity collision (enemies)
     if (entityStore) {
-      this.checkEntityCollisions(playerStore, gameStore, entityStore)
+      this.checkEntityCollisions(playerStore, levelStore, gameStore, entityStore)
     }
 
     // Check for falling off the map
     this.checkBoundaries(playerStore, levelStore, gameStore)
 
-    // Check for pickups (coins, powerups)
+    // Check for running out of air
+    this.checkOxygen(playerStore, gameStore)
+
+    // Check for pickups (coins, keys, powerups)
     this.checkPickups(playerStore, levelStore, gameStore)
 
-    // Check for triggers (goal, checkpoint)
-    this.checkTriggers(playerStore, levelStore, gameStore)
+    // Check for locked doors the player touches with a matching key
+    this.checkLockedDoors(playerStore, levelStore, gameStore)
+
+    // Check for triggers (goal, checkpoint, switches)
+    this.checkTriggers(playerStore, levelStore, gameStore, deltaTime, entityStore)
+
+    // Check for crumbling tiles underfoot
+    this.checkCrumbles(playerStore, levelStore, deltaTime, entityStore)
+  }
+
+  /**
+   * Apply gravity and move a body through the tile grid
+   * Also used by ReachabilityService to trace jump arcs with the real collision response.
+   * @param maxFallSpeed - Fall speed cap (lower while wall sliding)
+   * @param fallGravityMultiplier - Gravity scale while falling (slow fall power-up)
+   * @param gravity - Gravity before liquids and the fall multiplier (the level's physics profile)
+   */
+  stepBody(
+    body: PhysicsBody,
+    grid: TileGrid,
+    deltaTime: number,
+    maxFallSpeed = getPhysicsProfile().maxFallSpeed,
+    fallGravityMultiplier = 1,
+    gravity = getPhysicsProfile().gravity
+  ): void {
+    // Store previous position for platform collision
+    const prevY = body.y
+
+    // Apply gravity (liquids offset it with buoyancy and slow vertical movement with drag)
+    const liquid = this.getLiquidAt(body, grid)
+    if (liquid) {
+      body.vy += (gravity - liquid.buoyancy) * deltaTime
+      body.vy *= Math.max(0, 1 - liquid.drag * deltaTime)
+    } else {
+      body.vy += gravity * (body.vy > 0 ? fallGravityMultiplier : 1) * deltaTime
+    }
+    
+    // Cap fall speed
+    if (body.vy > maxFallSpeed) {
+      body.vy = maxFallSpeed
+    }
+
+    // Calculate intended movement (conveyors carry grounded bodies along)
+    const conveyorSpeed = body.isGrounded ? this.getSurfaceUnder(body, grid).conveyorSpeed ?? 0 : 0
+    const moveX = (body.vx * (liquid?.speedMultiplier ?? 1) + conveyorSpeed) * deltaTime
+    const moveY = body.vy * deltaTime
+
+    // Move and collide horizontally first
+    this.moveHorizontal(body, grid, moveX)
+    
+    // Then move and collide vertically
+    this.moveVertical(body, grid, moveY, prevY)
+  }
+
+  /**
+   * Move a climbing body along its velocity without gravity
+   * Without sideways input the body slides onto the climbable's column, so it
+   * fits through one-tile shafts. Climbing up stops with the feet level with
+   * the top of the climbable, so the player can hang there or step off onto
+   * a ledge beside it.
+   */
+  climbBody(body: PhysicsBody, grid: TileGrid, deltaTime: number): void {
+    const prevY = body.y
+
+    let moveX = body.vx * deltaTime
+    if (moveX === 0) {
+      const col = Math.floor((body.x + body.width / 2) / TILE_SIZE)
+      const offset = col * TILE_SIZE + (TILE_SIZE - body.width) / 2 - body.x
+      moveX = Math.sign(offset) * Math.min(Math.abs(offset), CLIMB_SPEED * deltaTime)
+    }
+
+    this.moveHorizontal(body, grid, moveX)
+    this.moveVertical(body, grid, body.vy * deltaTime, prevY)
+
+    if (body.vy < 0 && !this.isOnClimbable(body, grid)) {
+      const topY = Math.ceil((body.y + body.height) / TILE_SIZE) * TILE_SIZE - body.height
+      if (this.isOnClimbable(body, grid, topY)) {
+        body.y = topY
+        body.vy = 0
+      }
+    }
+  }
+
+  /**
+   * Whether a climbable tile runs through a body's center column, from its
+   * head down to the pixel below its feet (so a body hanging at the top still counts)
+   * @param y - Body top to test at (defaults to the body's position)
+   */
+  isOnClimbable(body: PhysicsBody, grid: TileGrid, y = body.y): boolean {
+    const col = Math.floor((body.x + body.width / 2) / TILE_SIZE)
+    const topRow = Math.floor(y / TILE_SIZE)
+    const bottomRow = Math.floor((y + body.height) / TILE_SIZE)
+
+    for (let row = topRow; row <= bottomRow; row++) {
+      if (isTileTypeClimbable(grid.getTileAt(col, row))) return true
+    }
+    return false
+  }
+
+  /**
+   * Find which side of an airborne body is touching a solid wall
+   * @returns -1 for a wall on the left, 1 on the right, 0 for none (or when grounded)
+   */
+  getWallContact(body: PhysicsBody, grid: TileGrid): number {
+    if (body.isGrounded) return 0
+
+    const getTile = (col: number, row: number) => grid.getTileAt(col, row)
+    const y = body.y + WALL_PROBE_INSET
+    const height = body.height - WALL_PROBE_INSET * 2
+    const touches = (x: number) =>
+      checkSolidCollision({ x, y, width: 1, height }, getTile, grid.width, grid.height)
+
+    if (touches(body.x + body.width)) return 1
+    if (touches(body.x - 1)) return -1
+    return 0
+  }
+
+  /**
+   * Get the liquid a body's center is in, if any
+   */
+  getLiquidAt(body: PhysicsBody, grid: TileGrid): LiquidProperties | null {
+    const col = Math.floor((body.x + body.width / 2) / TILE_SIZE)
+    const row = Math.floor((body.y + body.height / 2) / TILE_SIZE)
+    return getTileLiquid(grid.getTileAt(col, row)) ?? null
+  }
+
+  /**
+   * Whether a body's head is below a liquid's surface
+   */
+  isSubmerged(body: PhysicsBody, grid: TileGrid): boolean {
+    const col = Math.floor((body.x + body.width / 2) / TILE_SIZE)
+    const row = Math.floor((body.y + SUBMERGE_DEPTH) / TILE_SIZE)
+    return getTileLiquid(grid.getTileAt(col, row)) !== undefined
+  }
+
+  /**
+   * Move a body's horizontal velocity toward its input speed
+   * The ground underfoot sets the acceleration, friction and top speed
+   * (ground without its own friction uses the physics profile's ground deceleration);
+   * in the air, control is immediate.
+   * Also used by ReachabilityService so its probe slides and accelerates like the player.
+   * @param groundDeceleration - Deceleration on ground without its own friction (the level's physics profile)
+   */
+  applySurfaceControl(
+    player: ControlledBody,
+    level: TileGrid,
+    deltaTime: number,
+    groundDeceleration = getPhysicsProfile().groundDeceleration
+  ): void {
+    // Knockback owns the velocity until it wears off
+    if ((player.knockbackTimer ?? 0) > 0) return
+
+    const surface = player.isGrounded ? this.getSurfaceUnder(player, level) : {}
+    const target = player.targetVx * (surface.maxSpeed ?? 1)
+    const slowingDown = target === 0 ||
+      (Math.sign(target) === Math.sign(player.vx) && Math.abs(target) < Math.abs(player.vx))
+    const groundFriction = player.isGrounded && groundDeceleration > 0 ? groundDeceleration : undefined
+    const rate = slowingDown ? surface.friction ?? groundFriction : surface.acceleration
+
+    if (rate === undefined) {
+      player.vx = target
+    } else if (player.vx < target) {
+      player.vx = Math.min(target, player.vx + rate * deltaTime)
+    } else {
+      player.vx = Math.max(target, player.vx - rate * deltaTime)
+    }
+  }
+
+  /**
+   * Get the surface properties of the ground a body stands on
+   * Prefers the tile under the body's center when it straddles two.
+   */
+  private getSurfaceUnder(body: PhysicsBody, level: TileGrid): SurfaceProperties {
+    const probe: AABB = {
+      x: body.x,
+      y: body.y + body.height,
+      width: body.width,
+      height: 2,
+    }
+    const getTile = (col: number, row: number) => level.getTileAt(col, row)
+    const ground = checkTileCollisions(probe, getTile, level.width, level.height,
+      (id) => isTileTypeSolid(id) || isTileTypePlatform(id))
+    if (ground.length === 0) return {}
+
+    const centerCol = Math.floor((body.x + body.width / 2) / TILE_SIZE)
+    const underfoot = ground.find(tile => tile.col === centerCol) ?? ground[0]
+    return getTileSurface(underfoot.tileId)
   }
 
   /**
    * Create player AABB at given position
    */
-  private createPlayerAABB(player: PlayerStore, x: number, y: number): AABB {
+  private createPlayerAABB(player: PhysicsBody, x: number, y: number): AABB {
     return {
       x,
       y,
@@ -117,73 +398,81 @@ class PhysicsService {
 
   /**
    * Move player horizontally with shape-based collision detection
+   * Long moves are swept in sub-steps so thin walls can't be skipped.
    */
   private moveHorizontal(
-    player: PlayerStore,
-    level: LevelStore,
+    player: PhysicsBody,
+    level: TileGrid,
     moveX: number
   ): void {
     if (moveX === 0) return
+    sweep(moveX, (stepX) => this.moveHorizontalStep(player, level, stepX))
+  }
 
+  /**
+   * One sub-step of moveHorizontal
+   * @returns Whether the body can keep moving (false once it hits a wall)
+   */
+  private moveHorizontalStep(
+    player: PhysicsBody,
+    level: TileGrid,
+    moveX: number
+  ): boolean {
     const newX = player.x + moveX
     const aabb = this.createPlayerAABB(player, newX, player.y)
 
     const getTile = (col: number, row: number) => level.getTileAt(col, row)
 
     if (checkSolidCollision(aabb, getTile, level.width, level.height)) {
-      // Hit a wall - snap to tile edge
+      const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, isTileTypeSolid)
       if (moveX > 0) {
-        // Moving right - find the leftmost collision and snap to its left edge
-        const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, isTileTypeSolid)
-        if (collisions.length > 0) {
-          let minX = Infinity
-          for (const col of collisions) {
-            const tileType = getTileType(col.tileId)
-            if (tileType.collision.type === 'rect' && tileType.collision.rect) {
-              const shapeLeft = col.tileX + tileType.collision.rect.x * TILE_SIZE
-              minX = Math.min(minX, shapeLeft)
-            } else {
-              minX = Math.min(minX, col.tileX)
-            }
-          }
-          // Snap player so right edge touches the wall
-          player.x = minX - player.width
-        }
+        // Moving right - snap right edge to the nearest shape edge, never backwards
+        const wallX = getNearestEdge(aabb, collisions, 'left')
+        if (wallX !== null) player.x = Math.max(player.x, wallX - player.width)
       } else {
-        // Moving left - find the rightmost collision and snap to its right edge
-        const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, isTileTypeSolid)
-        if (collisions.length > 0) {
-          let maxX = -Infinity
-          for (const col of collisions) {
-            const tileType = getTileType(col.tileId)
-            if (tileType.collision.type === 'rect' && tileType.collision.rect) {
-              const shapeRight = col.tileX + (tileType.collision.rect.x + tileType.collision.rect.w) * TILE_SIZE
-              maxX = Math.max(maxX, shapeRight)
-            } else {
-              maxX = Math.max(maxX, col.tileX + TILE_SIZE)
-            }
-          }
-          // Snap player so left edge touches the wall
-          player.x = maxX
-        }
+        // Moving left - snap left edge to the nearest shape edge, never backwards
+        const wallX = getNearestEdge(aabb, collisions, 'right')
+        if (wallX !== null) player.x = Math.min(player.x, wallX)
       }
       player.vx = 0
-    } else {
-      player.x = newX
+      return false
     }
+
+    player.x = newX
+    return true
   }
 
   /**
    * Move player vertically with shape-based collision detection
+   * Long moves are swept in sub-steps so thin floors and one-way platforms
+   * can't be skipped; each sub-step judges platforms from where it started.
    */
   private moveVertical(
-    player: PlayerStore,
-    level: LevelStore,
+    player: PhysicsBody,
+    level: TileGrid,
     moveY: number,
     prevY: number
   ): void {
     if (moveY === 0) return
 
+    let stepPrevY = prevY
+    sweep(moveY, (stepY) => {
+      const moving = this.moveVerticalStep(player, level, stepY, stepPrevY)
+      stepPrevY = player.y
+      return moving
+    })
+  }
+
+  /**
+   * One sub-step of moveVertical
+   * @returns Whether the body can keep moving (false once it lands or hits a ceiling)
+   */
+  private moveVerticalStep(
+    player: PhysicsBody,
+    level: TileGrid,
+    moveY: number,
+    prevY: number
+  ): boolean {
     const newY = player.y + moveY
     const aabb = this.createPlayerAABB(player, player.x, newY)
 
@@ -192,8 +481,8 @@ class PhysicsService {
     // Check solid collision
     const solidCollision = checkSolidCollision(aabb, getTile, level.width, level.height)
     
-    // Check one-way platform collision (only when falling)
-    const platformCollision = checkPlatformCollision(
+    // Check one-way platform collision (only when falling, and not while dropping through)
+    const platformCollision = !player.isDroppingThrough && checkPlatformCollision(
       aabb, 
       prevY, 
       getTile, 
@@ -202,80 +491,74 @@ class PhysicsService {
     )
 
     if (solidCollision || platformCollision) {
+      let bounceVy = 0
+
       if (moveY > 0) {
         // Falling - land on ground or platform
-        const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, 
-          (id) => isTileTypeSolid(id) || isTileTypePlatform(id))
+        const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, this.getFloorFilter(player))
         
-        if (collisions.length > 0) {
-          let minY = Infinity
-          for (const col of collisions) {
-            const tileType = getTileType(col.tileId)
-            
-            // Skip platforms if we were below them
-            if (isTileTypePlatform(col.tileId)) {
-              const platformTop = col.tileY + (tileType.collision.rect?.y || 0) * TILE_SIZE
-              const prevBottom = prevY + player.height
-              if (prevBottom > platformTop + 1) continue
-            }
-            
-            if (tileType.collision.type === 'rect' && tileType.collision.rect) {
-              const shapeTop = col.tileY + tileType.collision.rect.y * TILE_SIZE
-              minY = Math.min(minY, shapeTop)
-            } else if (tileType.collision.type === 'polygon') {
-              // For slopes, calculate the surface Y at player's position
-              const surfaceY = getSlopeSurfaceY(
-                tileType.collision,
-                col.tileX,
-                col.tileY,
-                player.x,
-                player.width
-              )
-              minY = Math.min(minY, surfaceY)
-            } else {
-              minY = Math.min(minY, col.tileY)
-            }
-          }
-          if (minY !== Infinity) {
-            // Snap player so bottom touches the ground
-            player.y = minY - player.height
+        // Skip platforms if we were below them
+        const prevBottom = prevY + player.height
+        const landable = collisions.filter(col => {
+          if (!isTileTypePlatform(col.tileId)) return true
+          const platformTop = getShapeEdge(aabb, getTileCollisionShape(col.tileId), col.tileX, col.tileY, 'top')
+          return platformTop !== null && prevBottom <= platformTop + 1
+        })
+
+        // Highest surface under the player's columns (slopes and custom polygons included)
+        const groundY = getNearestEdge(aabb, landable, 'top')
+        if (groundY !== null) {
+          // Snap player so bottom touches the ground
+          player.y = groundY - player.height
+
+          // Springs and bounce pads launch, bouncy surfaces return part of the landing speed
+          const landedOn = landable.find(col =>
+            getShapeEdge(aabb, getTileCollisionShape(col.tileId), col.tileX, col.tileY, 'top') === groundY
+          )
+          const surface = landedOn ? getTileSurface(landedOn.tileId) : {}
+          const bounciness = surface.bounciness ?? 0
+          if (surface.launchSpeed) {
+            // Redirect the landing momentum along the launch angle (never slower than launchSpeed)
+            const speed = Math.max(surface.launchSpeed, Math.hypot(player.vx, player.vy))
+            const angle = (surface.launchAngle ?? 0) * Math.PI / 180
+            bounceVy = -speed * Math.cos(angle)
+            player.vx = speed * Math.sin(angle)
+            player.onLand()
+            player.onLaunch()
+          } else if (player.vy * bounciness >= MIN_BOUNCE_VELOCITY) {
+            bounceVy = -player.vy * bounciness
+            player.onLand()
           }
         }
       } else {
         // Jumping up - hit ceiling
         const collisions = checkTileCollisions(aabb, getTile, level.width, level.height, isTileTypeSolid)
-        if (collisions.length > 0) {
-          let maxY = -Infinity
-          for (const col of collisions) {
-            const tileType = getTileType(col.tileId)
-            if (tileType.collision.type === 'rect' && tileType.collision.rect) {
-              const shapeBottom = col.tileY + (tileType.collision.rect.y + tileType.collision.rect.h) * TILE_SIZE
-              maxY = Math.max(maxY, shapeBottom)
-            } else {
-              maxY = Math.max(maxY, col.tileY + TILE_SIZE)
-            }
-          }
+        const ceilingY = getNearestEdge(aabb, collisions, 'bottom')
+        if (ceilingY !== null) {
           // Snap player so top touches the ceiling
-          player.y = maxY
+          player.y = ceilingY
         }
       }
-      player.vy = 0
-    } else {
-      player.y = newY
-      // If we're moving down and not colliding, we're not grounded
-      if (moveY > 0) {
-        player.isGrounded = false
-      }
+      player.vy = bounceVy
+      this.updateGroundedState(player, level)
+      return false
+    }
+
+    player.y = newY
+    // If we're moving down and not colliding, we're not grounded
+    if (moveY > 0) {
+      player.isGrounded = false
     }
 
     // Double-check grounded state
     this.updateGroundedState(player, level)
+    return true
   }
 
   /**
    * Update grounded state by checking tile directly below player
    */
-  private updateGroundedState(player: PlayerStore, level: LevelStore): void {
+  private updateGroundedState(player: PhysicsBody, level: TileGrid): void {
     // Check a small distance below the player's feet
     const aabb: AABB = {
       x: player.x,
@@ -292,7 +575,7 @@ class PhysicsService {
       getTile, 
       level.width, 
       level.height,
-      (id) => isTileTypeSolid(id) || isTileTypePlatform(id)
+      this.getFloorFilter(player)
     )
 
     const wasGrounded = player.isGrounded
@@ -307,6 +590,133 @@ class PhysicsService {
     }
   }
 
+  /**
+   * Tiles a body can stand on: solids, plus one-way platforms unless it's dropping through them
+   */
+  private getFloorFilter(body: PhysicsBody): (tileId: number) => boolean {
+    if (body.isDroppingThrough) return isTileTypeSolid
+    return (id) => isTileTypeSolid(id) || isTileTypePlatform(id)
+  }
+
+  /**
+   * Whether a grounded body stands only on one-way platforms (tiles or moving),
+   * so dropping through wouldn't just land it on solid ground beside them
+   * Also used by ReachabilityService to know where its probe can drop through.
+   */
+  isOnOneWayPlatform(body: PhysicsBody, level: TileGrid, entityStore?: EntityStore): boolean {
+    if (!body.isGrounded) return false
+
+    const probe: AABB = {
+      x: body.x,
+      y: body.y + body.height + 1,
+      width: body.width,
+      height: 2,
+    }
+    const getTile = (col: number, row: number) => level.getTileAt(col, row)
+    const ground = checkTileCollisions(probe, getTile, level.width, level.height,
+      (id) => isTileTypeSolid(id) || isTileTypePlatform(id))
+    if (ground.length > 0) return ground.every(tile => isTileTypePlatform(tile.tileId))
+
+    const feetY = body.y + body.height
+    return entityStore?.getActivePlatforms().some(platform =>
+      getEntityDefinition(platform.definitionId)?.isOneWay &&
+      Math.abs(feetY - platform.y) <= PLATFORM_RIDE_TOLERANCE &&
+      body.x < platform.x + platform.width &&
+      body.x + body.width > platform.x
+    ) ?? false
+  }
+
+  /**
+   * Whether a body passes through a moving platform (one-way, while dropping through)
+   */
+  private isDroppingThroughPlatform(body: PhysicsBody, platform: Entity): boolean {
+    return !!body.isDroppingThrough && !!getEntityDefinition(platform.definitionId)?.isOneWay
+  }
+
+  /**
+   * Move the player by the displacement of the moving platform they stand on
+   * Entities update before physics, so prevX/prevY still hold each platform's
+   * position from the start of the step.
+   */
+  private carryRider(
+    player: PhysicsBody,
+    level: TileGrid,
+    entityStore: EntityStore
+  ): void {
+    // Jumping off - no longer attached
+    if (player.vy < 0) return
+
+    const feetY = player.y + player.height
+
+    for (const platform of entityStore.getActivePlatforms()) {
+      const isRiding =
+        Math.abs(feetY - platform.prevY) <= PLATFORM_RIDE_TOLERANCE &&
+        player.x < platform.prevX + platform.width &&
+        player.x + player.width > platform.prevX
+      if (!isRiding || this.isDroppingThroughPlatform(player, platform)) continue
+
+      // Tiles still block the rider (e.g. carried into a wall)
+      this.moveHorizontal(player, level, platform.x - platform.prevX)
+      this.moveVertical(player, level, platform.y - platform.prevY, player.y)
+      return
+    }
+  }
+
+  /**
+   * Resolve overlaps between the player and moving platforms or crates
+   * Any platform can be landed on from above; solid ones also block from
+   * below and the sides, one-way ones let the player pass through (and
+   * drop through after down+jump). Crates are solid, and walking into one
+   * pushes it along at up to its definition's speed.
+   */
+  private resolvePlatformCollisions(
+    player: PhysicsBody,
+    level: LevelStore,
+    entityStore: EntityStore,
+    prevY: number,
+    deltaTime: number
+  ): void {
+    const prevBottom = prevY + player.height
+
+    for (const platform of [...entityStore.getActivePlatforms(), ...entityStore.getActiveCrates()]) {
+      if (!this.aabbOverlap(player, platform) || this.isDroppingThroughPlatform(player, platform)) continue
+
+      // Landing: feet were above the platform's top (before or after it moved)
+      const platformTop = Math.max(platform.y, platform.prevY)
+      if (player.vy >= 0 && prevBottom <= platformTop + PLATFORM_RIDE_TOLERANCE) {
+        player.y = platform.y - player.height
+        player.vy = 0
+        if (!player.isGrounded) {
+          player.onLand()
+        }
+        continue
+      }
+
+      if (getEntityDefinition(platform.definitionId)?.isOneWay) continue
+
+      // Head bump: top was below the platform's bottom
+      const platformBottom = Math.min(platform.y, platform.prevY) + platform.height
+      if (prevY >= platformBottom - PLATFORM_RIDE_TOLERANCE) {
+        this.moveVertical(player, level, platform.y + platform.height - player.y, player.y)
+        player.vy = Math.max(player.vy, 0)
+        continue
+      }
+
+      // Side contact: push out the shorter way
+      const overlapLeft = player.x + player.width - platform.x
+      const overlapRight = platform.x + platform.width - player.x
+      let pushOut = overlapLeft < overlapRight ? -overlapLeft : overlapRight
+
+      // Walking into a crate shoves it ahead, so the player only backs off what it couldn't move
+      if (platform.type === 'crate' && Math.sign(player.vx) === -Math.sign(pushOut)) {
+        const maxPush = (getEntityDefinition(platform.definitionId)?.speed ?? 0) * deltaTime
+        const push = Math.sign(-pushOut) * Math.min(Math.abs(pushOut), maxPush)
+        pushOut += entityService.pushCrate(platform, push, entityStore, level)
+      }
+      this.moveHorizontal(player, level, pushOut)
+    }
+  }
+
   /**
    * Check for hazard collisions
    */
@@ -316,14 +726,15 @@ class PhysicsService {
     game: GameStore
   ): void {
     // Skip hazard damage in god mode or with invincibility
-    if (game.isGodMode || player.hasInvincibility) return
+    if (game.isGodMode || player.isDamageImmune) return
 
     const aabb = this.createPlayerAABB(player, player.x, player.y)
     const getTile = (col: number, row: number) => level.getTileAt(col, row)
     const hazard = checkHazardCollision(aabb, getTile, level.width, level.height)
 
     if (hazard) {
-      game.onPlayerDeath()
+      const damage = getTileType(hazard.tileId).damage ?? 1
+      this.damagePlayer(player, game, damage, hazard.tileX + TILE_SIZE / 2)
     }
   }
 
@@ -348,7 +759,20 @@ class PhysicsService {
   }
 
   /**
-   * Check for pickup collisions (coins, powerups)
+   * Check for drowning (levels with an air supply)
+   */
+  private checkOxygen(player: PlayerStore, game: GameStore): void {
+    // Skip drowning in god mode
+    if (game.isGodMode) return
+
+    if (player.isDrowning) {
+      game.onPlayerDeath()
+    }
+  }
+
+  /**
+   * Check for pickup collisions (coins, keys, powerups)
+   * Which power-up a pickup tile grants comes from the power-up registry.
    */
   private checkPickups(
     player: PlayerStore,
@@ -360,32 +784,89 @@ class PhysicsService {
     const pickups = checkPickupCollision(aabb, getTile, level.width, level.height)
 
     for (const pickup of pickups) {
+      const powerUp = getPowerUpForTile(pickup.tileId)
       if (pickup.tileId === TileTypeId.COIN) {
         game.collectCoin(pickup.col, pickup.row)
         level.setTileAt(pickup.col, pickup.row, TileTypeId.EMPTY)
-      } else if (pickup.tileId === TileTypeId.POWERUP_TRIPLE_JUMP) {
-        player.grantTripleJump()
-        level.setTileAt(pickup.col, pickup.row, TileTypeId.EMPTY)
-      } else if (pickup.tileId === TileTypeId.POWERUP_SPEED) {
-        player.grantSpeedBoost()
+      } else if (isTileTypeKey(pickup.tileId)) {
+        game.collectKey(getTileKeyColor(pickup.tileId)!)
         level.setTileAt(pickup.col, pickup.row, TileTypeId.EMPTY)
-      } else if (pickup.tileId === TileTypeId.POWERUP_SUPER_JUMP) {
-        player.grantSuperJump()
-        level.setTileAt(pickup.col, pickup.row, TileTypeId.EMPTY)
-      } else if (pickup.tileId === TileTypeId.POWERUP_INVINCIBILITY) {
-        player.grantInvincibility()
+      } else if (powerUp) {
+        player.grantPowerUp(powerUp.id)
         level.setTileAt(pickup.col, pickup.row, TileTypeId.EMPTY)
       }
     }
+
+    // A magnet collects coins from a distance
+    const magnetRadius = player.powerUpEffects.coinMagnetRadius
+    if (magnetRadius > 0) {
+      this.collectNearbyCoins(player, level, game, magnetRadius)
+    }
+  }
+
+  /**
+   * Open locked doors the player is touching, using up one matching key per door
+   */
+  private checkLockedDoors(player: PlayerStore, level: LevelStore, game: GameStore): void {
+    // Doors are solid, so touching means within a pixel of a side (corners don't count)
+    const aabb = this.createPlayerAABB(player, player.x, player.y)
+    const probes: AABB[] = [
+      { x: aabb.x - 1, y: aabb.y, width: aabb.width + 2, height: aabb.height },
+      { x: aabb.x, y: aabb.y - 1, width: aabb.width, height: aabb.height + 2 },
+    ]
+    const getTile = (col: number, row: number) => level.getTileAt(col, row)
+
+    for (const probe of probes) {
+      for (const door of checkTileCollisions(probe, getTile, level.width, level.height, isTileTypeLockedDoor)) {
+        // Already opened this step along with a connected door tile
+        if (level.getTileAt(door.col, door.row) !== door.tileId) continue
+        if (game.useKey(getTileKeyColor(door.tileId)!)) {
+          level.unlockDoorAt(door.col, door.row)
+        }
+      }
+    }
+  }
+
+  /**
+   * Collect every coin whose center is within a radius of the player's center
+   */
+  private collectNearbyCoins(
+    player: PlayerStore,
+    level: LevelStore,
+    game: GameStore,
+    radius: number
+  ): void {
+    const { x: centerX, y: centerY } = player.center
+    const startCol = Math.floor((centerX - radius) / TILE_SIZE)
+    const endCol = Math.floor((centerX + radius) / TILE_SIZE)
+    const startRow = Math.floor((centerY - radius) / TILE_SIZE)
+    const endRow = Math.floor((centerY + radius) / TILE_SIZE)
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        if (!level.isCoinAt(col, row)) continue
+
+        const dx = (col + 0.5) * TILE_SIZE - centerX
+        const dy = (row + 0.5) * TILE_SIZE - centerY
+        if (dx * dx + dy * dy <= radius * radius) {
+          game.collectCoin(col, row)
+          level.setTileAt(col, row, TileTypeId.EMPTY)
+        }
+      }
+    }
   }
 
   /**
-   * Check for trigger collisions (goal, checkpoint)
+   * Check for trigger collisions (goal, checkpoint, switches)
+   * Switch state advances every step, so plates release and timers run
+   * even when nothing is touched. Crates hold down pressure plates too.
    */
   private checkTriggers(
     player: PlayerStore,
     level: LevelStore,
-    game: GameStore
+    game: GameStore,
+    deltaTime: number,
+    entityStore?: EntityStore
   ): void {
     const aabb = this.createPlayerAABB(player, player.x, player.y)
 
@@ -397,24 +878,102 @@ class PhysicsService {
       getTile,
       level.width,
       level.height,
-      (id) => id === TileTypeId.GOAL || id === TileTypeId.CHECKPOINT
+      isTileTypeTrigger
     )
 
+    const switches: GridPosition[] = []
+    let teleporter: GridPosition | null = null
     for (const trigger of triggers) {
       if (trigger.tileId === TileTypeId.GOAL) {
-        game.completeLevel()
+        // Boss levels are completed by the boss kill instead
+        if (level.winCondition !== 'boss') {
+          game.completeLevel()
+        }
       } else if (trigger.tileId === TileTypeId.CHECKPOINT) {
-        game.setCheckpoint(trigger.col, trigger.row)
+        if (game.setCheckpoint(trigger.col, trigger.row)) {
+          level.saveCheckpointTiles()
+        }
+      } else if (isTileTypeSwitch(trigger.tileId)) {
+        switches.push({ col: trigger.col, row: trigger.row })
+      } else if (trigger.tileId === TileTypeId.TELEPORTER) {
+        if (!teleporter) teleporter = { col: trigger.col, row: trigger.row }
+      }
+    }
+
+    // Step onto a teleporter once the last trip's cooldown is over
+    player.setTeleporterContact(teleporter !== null)
+    if (teleporter && player.teleportCooldown <= 0) {
+      const link = level.getTeleporterAt(teleporter.col, teleporter.row)
+      const target = level.getTeleportTarget(teleporter.col, teleporter.row)
+      if (link && target) {
+        player.teleport(this.getTeleportArrival(player, target), link.keepVelocity ?? false, link.camera !== 'pan')
       }
     }
+
+    for (const crate of entityStore?.getActiveCrates() ?? []) {
+      const plates = checkTileCollisions(crate, getTile, level.width, level.height,
+        (id) => id === TileTypeId.SWITCH_PRESSURE_PLATE)
+      for (const plate of plates) {
+        switches.push({ col: plate.col, row: plate.row })
+      }
+    }
+
+    level.updateSwitches(switches, deltaTime)
+  }
+
+  /**
+   * Where a body arrives at a teleporter: centered on the tile, feet on its bottom edge
+   */
+  getTeleportArrival(body: PhysicsBody, target: GridPosition): Vector2 {
+    return {
+      x: target.col * TILE_SIZE + (TILE_SIZE - body.width) / 2,
+      y: (target.row + 1) * TILE_SIZE - body.height,
+    }
+  }
+
+  /**
+   * Check for crumbling tiles the player stands on
+   * Crumble state advances every step, so shaking, falling and regrowing
+   * tiles keep going after the player steps off.
+   * @param entityStore - Optional entity store (crates and enemies also keep tiles from regrowing)
+   */
+  private checkCrumbles(player: PlayerStore, level: LevelStore, deltaTime: number, entityStore?: EntityStore): void {
+    const aabb = this.createPlayerAABB(player, player.x, player.y)
+    const getTile = (col: number, row: number) => level.getTileAt(col, row)
+
+    const stoodOn: GridPosition[] = []
+    if (player.isGrounded) {
+      const probe: AABB = { x: aabb.x, y: aabb.y + aabb.height, width: aabb.width, height: 2 }
+      for (const tile of checkTileCollisions(probe, getTile, level.width, level.height, isTileTypeCrumbling)) {
+        stoodOn.push({ col: tile.col, row: tile.row })
+      }
+    }
+
+    // Tiles covered by the player's, crates' and enemies' boxes, whatever they hold now
+    const occupied: GridPosition[] = []
+    const bodies: AABB[] = [aabb, ...(entityStore?.getActiveCrates() ?? []), ...(entityStore?.getActiveEnemies() ?? [])]
+    for (const body of bodies) {
+      const startCol = Math.floor(body.x / TILE_SIZE)
+      const endCol = Math.floor((body.x + body.width - 1) / TILE_SIZE)
+      const startRow = Math.floor(body.y / TILE_SIZE)
+      const endRow = Math.floor((body.y + body.height - 1) / TILE_SIZE)
+      for (let row = startRow; row <= endRow; row++) {
+        for (let col = startCol; col <= endCol; col++) {
+          occupied.push({ col, row })
+        }
+      }
+    }
+
+    level.updateCrumbles(stoodOn, occupied, deltaTime)
   }
 
   /**
-   * Check for collisions between player and entities (enemies)
+   * Check for collisions between player and entities (enemies, projectiles)
    * Handles stomp kills and damage to player
    */
   private checkEntityCollisions(
     player: PlayerStore,
+    level: LevelStore,
     game: GameStore,
     entityStore: EntityStore
   ): void {
@@ -428,9 +987,13 @@ class PhysicsService {
       // Check AABB overlap
       if (!this.aabbOverlap(playerAABB, enemy)) continue
 
-      // If player has invincibility, kill enemy on any contact
-      if (player.hasInvincibility) {
-        entityStore.despawn(enemy.id)
+      const isBoss = enemy.type === 'enemy_boss'
+
+      // If player has invincibility, kill enemy on any contact (bosses must be stomped)
+      if (player.isDamageImmune) {
+        if (!isBoss) {
+          entityStore.despawn(enemy.id)
+        }
         continue
       }
 
@@ -439,12 +1002,22 @@ class PhysicsService {
 
       if (isStomping) {
         // Stomp the enemy - kill it and bounce player
-        this.stompEnemy(player, enemy, entityStore)
-      } else {
-        // Player takes damage
+        this.stompEnemy(player, enemy, entityStore, level, game)
+      } else if (!isBoss || enemy.data.phase !== 'vulnerable') {
+        // Player takes damage (stunned bosses are harmless)
         this.damageFromEnemy(player, enemy, game)
       }
     }
+
+    // Projectiles are spent on contact; they can't be stomped
+    for (const projectile of entityStore.getActiveProjectiles()) {
+      if (!this.aabbOverlap(playerAABB, projectile)) continue
+
+      entityStore.releaseProjectile(projectile)
+      if (!player.isDamageImmune) {
+        this.damageFromEnemy(player, projectile, game)
+      }
+    }
   }
 
   /**
@@ -483,18 +1056,29 @@ class PhysicsService {
 
   /**
    * Handle stomping an enemy
+   * Bosses only take damage while vulnerable; otherwise the player just bounces.
    */
   private stompEnemy(
     player: PlayerStore,
     enemy: Entity,
-    entityStore: EntityStore
+    entityStore: EntityStore,
+    level: LevelStore,
+    game: GameStore
   ): void {
-    // Reduce enemy health
-    enemy.health -= 1
+    const isBoss = enemy.type === 'enemy_boss'
 
-    if (enemy.health <= 0) {
-      // Enemy dies
-      entityStore.despawn(enemy.id)
+    if (!isBoss || enemy.data.phase === 'vulnerable') {
+      // Reduce enemy health
+      enemy.health -= 1
+      enemy.data.wasHit = true
+
+      if (enemy.health <= 0) {
+        // Enemy dies
+        entityStore.despawn(enemy.id)
+        if (isBoss) {
+          this.onBossDefeated(entityStore, level, game)
+        }
+      }
     }
 
     // Bounce the player up
@@ -503,82 +1087,64 @@ class PhysicsService {
   }
 
   /**
-   * Handle player taking damage from enemy
+   * Open arena locks once the last boss falls, and finish boss levels
+   */
+  private onBossDefeated(
+    entityStore: EntityStore,
+    level: LevelStore,
+    game: GameStore
+  ): void {
+    if (entityStore.getActiveBosses().length > 0) return
+
+    level.releaseArenaLocks()
+    if (level.winCondition === 'boss') {
+      game.completeLevel()
+    }
+  }
+
+  /**
+   * Handle player taking damage from an enemy or projectile
    */
   private damageFromEnemy(
-    _player: PlayerStore,
+    player: PlayerStore,
     enemy: Entity,
     game: GameStore
   ): void {
     const definition = getEntityDefinition(enemy.definitionId)
     const damage = definition?.damage ?? 1
 
-    // For now, any enemy contact kills the player (like spikes)
-    // In future, could implement knockback + invincibility frames
-    if (damage > 0) {
-      game.onPlayerDeath()
-    }
+    this.damagePlayer(player, game, damage, enemy.x + enemy.width / 2)
   }
-}
 
-/**
- * Get the Y position on a slope surface at a given X position
- */
-function getSlopeSurfaceY(
-  shape: CollisionShape,
-  tileX: number,
-  tileY: number,
-  playerX: number,
-  playerWidth: number
-): number {
-  if (shape.type !== 'polygon' || !shape.vertices) {
-    return tileY
-  }
-
-  // Find the player's center X relative to the tile (0-1)
-  const playerCenterX = playerX + playerWidth / 2
-  const relX = Math.max(0, Math.min(1, (playerCenterX - tileX) / TILE_SIZE))
-  
-  const verts = shape.vertices
-  
-  // Check if this is a slope we recognize
-  if (verts.length === 3) {
-    if (isShapeMatch(verts, SHAPES.SLOPE_UP_RIGHT.vertices!)) {
-      const surfaceY = 1 - relX
-      return tileY + surfaceY * TILE_SIZE
-    }
-    
-    if (isShapeMatch(verts, SHAPES.SLOPE_UP_LEFT.vertices!)) {
-      const surfaceY = relX
-      return tileY + surfaceY * TILE_SIZE
-    }
-    
-    if (isShapeMatch(verts, SHAPES.SLOPE_DOWN_RIGHT.vertices!)) {
-      const surfaceY = relX
-      return tileY + surfaceY * TILE_SIZE
-    }
-    
-    if (isShapeMatch(verts, SHAPES.SLOPE_DOWN_LEFT.vertices!)) {
-      const surfaceY = 1 - relX
-      return tileY + surfaceY * TILE_SIZE
+  /**
+   * Apply damage from a hazard or entity
+   * Levels without a health pool keep one-hit deaths. Otherwise the hit costs
+   * health and knocks the player back, and i-frames ignore further hits.
+   * Either way a shield power-up blocks the hit instead.
+   * @param sourceX - World X of the source's center (knockback pushes away from it)
+   */
+  private damagePlayer(
+    player: PlayerStore,
+    game: GameStore,
+    damage: number,
+    sourceX: number
+  ): void {
+    if (damage <= 0) return
+
+    // I-frames (after a hit, or a hit a shield blocked) ignore further hits
+    if (player.isHurt) return
+    if (player.absorbHit()) return
+
+    if (!player.usesHealth) {
+      game.onPlayerDeath()
+      return
     }
-  }
-  
-  return tileY
-}
 
-/**
- * Check if two vertex arrays represent the same shape
- */
-function isShapeMatch(a: NormalizedPoint[], b: NormalizedPoint[]): boolean {
-  if (a.length !== b.length) return false
-  
-  for (let i = 0; i < a.length; i++) {
-    if (Math.abs(a[i].x - b[i].x) > 0.001 || Math.abs(a[i].y - b[i].y) > 0.001) {
-      return false
+    player.takeDamage(damage, sourceX)
+    if (player.health <= 0) {
+      game.onPlayerDeath()
     }
   }
-  return true
 }
 
 // Singleton instance
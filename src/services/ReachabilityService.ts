@@ -0,0 +1,915 @@
+import {
+  TILE_SIZE,
+  PLAYER_WIDTH,
+  PLAYER_HEIGHT,
+  FIXED_TIMESTEP,
+  COYOTE_TIME,
+  WALL_SLIDE_SPEED,
+  WALL_JUMP_VELOCITY_X,
+  WALL_JUMP_VELOCITY_Y,
+  WALL_JUMP_LOCK_DURATION,
+  SWIM_STROKE_VELOCITY,
+  CLIMB_SPEED,
+  LAUNCH_LOCK_DURATION,
+  DROP_THROUGH_DURATION,
+} from '../core/constants'
+import { TileTypeId, isTileTypePowerUp, isTileTypeLockedDoor, getTileKeyColor, getTileSurface } from '../core/types/shapes'
+import {
+  combinePowerUpEffects,
+  getPowerUpDefinition,
+  getPowerUpForTile,
+  getStackedDuration,
+  type PowerUpEffects,
+} from '../core/types/powerups'
+import { resolvePhysicsProfile, type PhysicsProfile } from '../core/types/physics'
+import { checkHazardCollision, checkTileCollisions, type AABB } from './CollisionUtils'
+import { physicsService, type ControlledBody, type TileGrid } from './PhysicsService'
+import { getEntityDefinition, getWaypointPath, type EntitySpawn } from '../core/types/entities'
+import { countKeys, countLockedDoors, type GridPosition, type LevelDefinition } from '../levels/types'
+
+/** Simulation steps an input is held before the search may change it (1/15 s) */
+const ACTION_STEPS = 8
+
+/** Position quantization used to de-duplicate states (pixels, at most one action of walking) */
+const POSITION_QUANTUM = 20
+
+/** Vertical velocity quantization (GRAVITY * ACTION_STEPS * FIXED_TIMESTEP) */
+const VELOCITY_QUANTUM = 100
+
+/** Power-up timer quantization (seconds) */
+const TIMER_QUANTUM = 1
+
+/**
+ * Default cap on explored states before giving up (the report is then marked truncated)
+ * The largest campaign level, level_9_et_custom_2, explores about 1.1 million states,
+ * so this leaves room for levels of that size without letting a runaway search go on forever.
+ */
+const DEFAULT_MAX_STATES = 2000000
+
+/** Horizontal inputs tried from every state (left, none, right) */
+const DIRECTIONS = [-1, 0, 1]
+
+/** Vertical inputs tried on a ladder or vine (up, none, down) */
+const CLIMB_INPUTS = [-1, 0, 1]
+
+/** Vertical inputs tried with a jump on a one-way platform (jump, drop through) */
+const DROP_INPUTS = [0, 1]
+
+/** Triggers and pickups the search records when touched (plus every power-up pickup) */
+const TRACKED_TILES = new Set<number>([
+  TileTypeId.GOAL,
+  TileTypeId.CHECKPOINT,
+  TileTypeId.COIN,
+])
+
+/** Mechanisms in whichever state helps the player (switch timing is not searched) */
+const MECHANISM_BEST_CASE: Record<number, number> = {
+  [TileTypeId.DOOR_CLOSED]: TileTypeId.EMPTY,
+  [TileTypeId.GATE_OPEN]: TileTypeId.EMPTY,
+  [TileTypeId.BRIDGE_HIDDEN]: TileTypeId.BRIDGE_EXTENDED,
+}
+
+export interface ReachabilityOptions {
+  /** Jumps available from the ground (PlayerStore.baseMaxJumps) */
+  maxJumps?: number
+  /** Wall slide and wall jump available (hasWallJumpUnlocked) */
+  wallJump?: boolean
+  /** Stop after exploring this many states (default: 2,000,000) */
+  maxStates?: number
+}
+
+export interface ReachabilityReport {
+  goalReachable: boolean
+  unreachableCoins: GridPosition[]
+  unreachableCheckpoints: GridPosition[]
+  /** Number of distinct player states explored */
+  statesExplored: number
+  /** True if the state cap was hit (unreachable lists may be incomplete) */
+  truncated: boolean
+}
+
+/**
+ * Quantize a power-up timer for dominance comparisons
+ */
+function timerBucket(seconds: number): number {
+  return Math.ceil(seconds / TIMER_QUANTUM)
+}
+
+/**
+ * Jump rules shared by every probe in one analysis
+ */
+interface ProbeRules {
+  /** Jumps available from the ground (PlayerStore.baseMaxJumps) */
+  baseMaxJumps: number
+  /** Seconds the ground jump survives after walking off a ledge */
+  coyoteTime: number
+  /** Wall slide and wall jump available (PlayerStore.wallJumpUnlocked) */
+  wallJump: boolean
+  /** Gravity, jump and run speed the level plays with */
+  physics: PhysicsProfile
+  /** Ground speed carries over between actions (ground deceleration, or a surface with acceleration or friction) */
+  momentum: boolean
+}
+
+/**
+ * Where a teleporter sends the probe
+ */
+interface ProbeTeleport {
+  target: GridPosition
+  keepVelocity: boolean
+}
+
+/**
+ * Player state between search steps (targetVx is re-applied from input every
+ * step unless a wall jump or launch has locked it)
+ */
+interface ProbeState {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  targetVx: number
+  isGrounded: boolean
+  jumpsRemaining: number
+  hasGroundJump: boolean
+  coyoteTimer: number
+  wallContact: number
+  wallJumpTimer: number
+  launchTimer: number
+  onPlatform: boolean
+  dropThroughTimer: number
+  inLiquid: boolean
+  isSubmerged: boolean
+  onClimbable: boolean
+  isClimbing: boolean
+  /** Active power-ups: definition ID -> seconds remaining */
+  powerUps: Record<string, number>
+}
+
+/**
+ * Stand-in for PlayerStore during the search
+ * Mirrors the jump/power-up rules PlayerStore applies on top of PhysicsService.
+ */
+class ProbeBody implements ControlledBody, ProbeState {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  targetVx: number
+  readonly width = PLAYER_WIDTH
+  readonly height = PLAYER_HEIGHT
+  isGrounded: boolean
+  jumpsRemaining: number
+  hasGroundJump: boolean
+  coyoteTimer: number
+  wallContact: number
+  wallJumpTimer: number
+  launchTimer: number
+  onPlatform: boolean
+  dropThroughTimer: number
+  inLiquid: boolean
+  isSubmerged: boolean
+  onClimbable: boolean
+  isClimbing: boolean
+  powerUps: Record<string, number>
+  powerUpEffects: PowerUpEffects
+  private readonly rules: ProbeRules
+
+  constructor(state: ProbeState, rules: ProbeRules) {
+    this.x = state.x
+    this.y = state.y
+    this.vx = state.vx
+    this.vy = state.vy
+    this.targetVx = state.targetVx
+    this.isGrounded = state.isGrounded
+    this.jumpsRemaining = state.jumpsRemaining
+    this.hasGroundJump = state.hasGroundJump
+    this.coyoteTimer = state.coyoteTimer
+    this.wallContact = state.wallContact
+    this.wallJumpTimer = state.wallJumpTimer
+    this.launchTimer = state.launchTimer
+    this.onPlatform = state.onPlatform
+    this.dropThroughTimer = state.dropThroughTimer
+    this.inLiquid = state.inLiquid
+    this.isSubmerged = state.isSubmerged
+    this.onClimbable = state.onClimbable
+    this.isClimbing = state.isClimbing
+    this.powerUps = { ...state.powerUps }
+    this.powerUpEffects = combinePowerUpEffects(Object.keys(this.powerUps))
+    this.rules = rules
+  }
+
+  onLand(): void {
+    this.isGrounded = true
+    this.coyoteTimer = this.rules.coyoteTime
+    this.refillJumps()
+  }
+
+  /** Same as PlayerStore.onLaunch */
+  onLaunch(): void {
+    this.hasGroundJump = false
+    this.jumpsRemaining = Math.max(0, this.jumpsRemaining - 1)
+    this.isClimbing = false
+    this.targetVx = this.vx
+    this.launchTimer = this.vx !== 0 ? LAUNCH_LOCK_DURATION : 0
+  }
+
+  /**
+   * Same as PlayerStore.applyInput for a held direction, held climb
+   * direction (-1 up, 1 down) and optional jump press
+   * (jumps are held to full height, so the jump buffer and jump cut don't apply)
+   */
+  applyInput(direction: number, jumpPressed: boolean, climb = 0): void {
+    const { playerSpeed, jumpVelocity } = this.rules.physics
+    const speed = playerSpeed * this.powerUpEffects.speedMultiplier
+    if (this.wallJumpTimer <= 0 && this.launchTimer <= 0) {
+      this.targetVx = direction * speed
+    }
+
+    if (!this.isClimbing && this.onClimbable && (climb < 0 || (climb > 0 && !this.isGrounded))) {
+      this.isClimbing = true
+      this.refillJumps()
+    } else if (this.isClimbing && this.isGrounded && climb >= 0) {
+      this.isClimbing = false
+    }
+    if (this.isClimbing) {
+      this.vy = climb * CLIMB_SPEED
+    }
+
+    // Up doubles as jump, so a press while climbing up is just climbing
+    const jumps = jumpPressed && !(this.isClimbing && climb < 0)
+
+    if (jumps && climb > 0 && this.onPlatform && this.isGrounded && !this.isClimbing) {
+      this.dropThroughTimer = DROP_THROUGH_DURATION
+      this.isGrounded = false
+      this.onPlatform = false
+    } else if (jumps && this.inLiquid) {
+      this.vy = this.isSubmerged ? SWIM_STROKE_VELOCITY : jumpVelocity
+      this.isClimbing = false
+    } else if (jumps && this.canWallJump) {
+      this.vx = -this.wallContact * WALL_JUMP_VELOCITY_X
+      this.targetVx = this.vx
+      this.vy = WALL_JUMP_VELOCITY_Y
+      this.wallContact = 0
+      this.wallJumpTimer = WALL_JUMP_LOCK_DURATION
+    } else if (jumps && this.jumpsRemaining > 0) {
+      this.vy = jumpVelocity * this.powerUpEffects.jumpMultiplier
+      this.jumpsRemaining -= 1
+      this.isGrounded = false
+      this.isClimbing = false
+      this.hasGroundJump = false
+    }
+  }
+
+  /** Same as PlayerStore.canWallJump */
+  get canWallJump(): boolean {
+    return this.rules.wallJump && !this.isGrounded && !this.isClimbing && this.wallContact !== 0
+  }
+
+  /** Same as PlayerStore.isDroppingThrough */
+  get isDroppingThrough(): boolean {
+    return this.dropThroughTimer > 0
+  }
+
+  /** Same as PlayerStore.isWallSliding */
+  get isWallSliding(): boolean {
+    return this.canWallJump && this.vy >= 0 && Math.sign(this.targetVx) === this.wallContact
+  }
+
+  /** Same as PlayerStore.updateJumpTimers (coyote, wall jump and launch locks, drop-through) */
+  updateJumpTimers(deltaTime: number): void {
+    this.wallJumpTimer = Math.max(0, this.wallJumpTimer - deltaTime)
+    this.launchTimer = Math.max(0, this.launchTimer - deltaTime)
+    this.dropThroughTimer = Math.max(0, this.dropThroughTimer - deltaTime)
+    if (this.isGrounded || this.inLiquid || this.isClimbing) {
+      this.coyoteTimer = this.rules.coyoteTime
+    } else if (this.hasGroundJump) {
+      this.coyoteTimer -= deltaTime
+      if (this.coyoteTimer <= 0) {
+        this.coyoteTimer = 0
+        this.hasGroundJump = false
+        this.jumpsRemaining = Math.max(0, this.jumpsRemaining - 1)
+      }
+    }
+  }
+
+  /** Same as PlayerStore.updatePowerUps (air supply isn't tracked) */
+  updatePowerUps(deltaTime: number): void {
+    let expired = false
+    for (const id in this.powerUps) {
+      this.powerUps[id] -= deltaTime
+      if (this.powerUps[id] <= 0) {
+        delete this.powerUps[id]
+        expired = true
+      }
+    }
+    if (expired) {
+      this.powerUpEffects = combinePowerUpEffects(Object.keys(this.powerUps))
+    }
+  }
+
+  /** Gravity on this body outside liquids, as PhysicsService.stepBody applies it */
+  get gravity(): number {
+    return this.rules.physics.gravity * (this.vy > 0 ? this.powerUpEffects.fallGravityMultiplier : 1)
+  }
+
+  /** Fall speed cap PhysicsService.update applies (wall slide, slow fall) */
+  get maxFallSpeed(): number {
+    const { maxFallSpeed } = this.rules.physics
+    const slideCap = this.isWallSliding ? WALL_SLIDE_SPEED : maxFallSpeed
+    return Math.min(slideCap, maxFallSpeed * this.powerUpEffects.fallSpeedMultiplier)
+  }
+
+  /** Same as PlayerStore.setLiquidState */
+  setLiquidState(inLiquid: boolean, isSubmerged: boolean): void {
+    if (inLiquid && !this.inLiquid) {
+      this.refillJumps()
+    }
+    this.inLiquid = inLiquid
+    this.isSubmerged = isSubmerged
+  }
+
+  /** Same as PlayerStore.setClimbableContact */
+  setClimbableContact(onClimbable: boolean): void {
+    this.onClimbable = onClimbable
+    if (!onClimbable && this.isClimbing) {
+      this.isClimbing = false
+      this.vy = 0
+    }
+  }
+
+  /** Same as PlayerStore.refillJumps */
+  private refillJumps(): void {
+    this.hasGroundJump = true
+    this.jumpsRemaining = this.maxJumps
+  }
+
+  /** Same as PlayerStore.maxJumps */
+  private get maxJumps(): number {
+    return Math.max(this.rules.baseMaxJumps, this.powerUpEffects.maxJumps)
+  }
+
+  /** Same as PlayerStore.grantPowerUp for a pickup tile (shields and magnets do nothing here) */
+  grantPowerUp(tileId: number): void {
+    const definition = getPowerUpForTile(tileId)
+    if (!definition) return
+
+    this.powerUps[definition.id] = getStackedDuration(definition, this.powerUps[definition.id])
+    this.powerUpEffects = combinePowerUpEffects(Object.keys(this.powerUps))
+
+    const extraJumps = definition.modifiers.maxJumps
+    if (extraJumps) {
+      this.jumpsRemaining = this.isGrounded
+        ? this.maxJumps
+        : Math.min(this.jumpsRemaining + Math.max(0, extraJumps - this.rules.baseMaxJumps), this.maxJumps)
+    }
+  }
+
+  snapshot(): ProbeState {
+    return {
+      x: this.x,
+      y: this.y,
+      vx: this.vx,
+      vy: this.vy,
+      targetVx: this.targetVx,
+      isGrounded: this.isGrounded,
+      jumpsRemaining: this.jumpsRemaining,
+      hasGroundJump: this.hasGroundJump,
+      coyoteTimer: this.coyoteTimer,
+      wallContact: this.wallContact,
+      wallJumpTimer: this.wallJumpTimer,
+      launchTimer: this.launchTimer,
+      onPlatform: this.onPlatform,
+      dropThroughTimer: this.dropThroughTimer,
+      inLiquid: this.inLiquid,
+      isSubmerged: this.isSubmerged,
+      onClimbable: this.onClimbable,
+      isClimbing: this.isClimbing,
+      powerUps: { ...this.powerUps },
+    }
+  }
+}
+
+/**
+ * Tile grid over a level definition (same bounds rules as LevelStore)
+ */
+class ProbeGrid implements TileGrid {
+  readonly width: number
+  readonly height: number
+  private readonly tiles: Int32Array
+  /** Destination of each linked teleporter (by tile index) */
+  private readonly teleports = new Map<number, ProbeTeleport>()
+
+  constructor(level: LevelDefinition) {
+    this.width = level.width
+    this.height = level.height
+    this.tiles = new Int32Array(level.width * level.height)
+    // Locked doors start open if the level has a key of their color for each of them
+    // (key order isn't searched); with too few keys, none of that color open
+    const keyCounts = countKeys(level.collision)
+    const doorCounts = countLockedDoors(level.collision)
+    const hasKeysFor = (tileId: number) => {
+      const color = getTileKeyColor(tileId)!
+      return (keyCounts.get(color) ?? 0) >= (doorCounts.get(color) ?? 0)
+    }
+    for (let row = 0; row < level.height; row++) {
+      for (let col = 0; col < level.width; col++) {
+        const tileId = level.collision[row]?.[col] ?? TileTypeId.EMPTY
+        const unlocked = isTileTypeLockedDoor(tileId) && hasKeysFor(tileId)
+        this.tiles[row * level.width + col] = unlocked ? TileTypeId.EMPTY : MECHANISM_BEST_CASE[tileId] ?? tileId
+      }
+    }
+
+    for (const spawn of level.entities ?? []) {
+      if (getEntityDefinition(spawn.definitionId)?.type === 'platform_moving') {
+        this.stampPlatformPath(spawn)
+      }
+    }
+
+    const links = level.teleporters ?? []
+    for (const link of links) {
+      const target = links.find(other => other.id === link.target)
+      if (target) {
+        this.teleports.set(link.row * this.width + link.col, {
+          target: { col: target.col, row: target.row },
+          keepVelocity: link.keepVelocity ?? false,
+        })
+      }
+    }
+  }
+
+  /**
+   * Get where the teleporter at grid coordinates sends the player
+   */
+  getTeleport(col: number, row: number): ProbeTeleport | undefined {
+    return this.teleports.get(row * this.width + col)
+  }
+
+  /**
+   * Approximate a moving platform as a standable surface anywhere along its path
+   * (optimistic: assumes the player can always wait for the platform to arrive)
+   */
+  private stampPlatformPath(spawn: EntitySpawn): void {
+    const definition = getEntityDefinition(spawn.definitionId)
+    if (!definition) return
+
+    const path = getWaypointPath(spawn)
+    if (spawn.properties?.loop) path.push(path[0])
+    const widthInTiles = Math.ceil(definition.width / TILE_SIZE)
+
+    for (let i = 0; i < path.length; i++) {
+      const from = path[i]
+      const to = path[Math.min(i + 1, path.length - 1)]
+      for (let row = Math.min(from.row, to.row); row <= Math.max(from.row, to.row); row++) {
+        const endCol = Math.max(from.col, to.col) + widthInTiles - 1
+        for (let col = Math.min(from.col, to.col); col <= endCol; col++) {
+          if (col < 0 || col >= this.width || row < 0 || row >= this.height) continue
+          if (this.tiles[row * this.width + col] === TileTypeId.EMPTY) {
+            this.tiles[row * this.width + col] = TileTypeId.PLATFORM_FULL
+          }
+        }
+      }
+    }
+  }
+
+  getTileAt(col: number, row: number): number {
+    // Treat out-of-bounds as solid (invisible walls)
+    if (col < 0 || col >= this.width || row < 0 || row >= this.height) {
+      return TileTypeId.SOLID_FULL
+    }
+    return this.tiles[row * this.width + col]
+  }
+
+  /**
+   * Check whether every in-bounds tile touching a pixel rectangle is empty
+   * (tile collision ignores out-of-bounds tiles, so they count as empty here)
+   */
+  isAreaEmpty(left: number, top: number, right: number, bottom: number): boolean {
+    const startCol = Math.max(0, Math.floor(left / TILE_SIZE))
+    const endCol = Math.min(this.width - 1, Math.floor(right / TILE_SIZE))
+    const startRow = Math.max(0, Math.floor(top / TILE_SIZE))
+    const endRow = Math.min(this.height - 1, Math.floor(bottom / TILE_SIZE))
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        if (this.tiles[row * this.width + col] !== TileTypeId.EMPTY) return false
+      }
+    }
+    return true
+  }
+}
+
+/**
+ * ReachabilityService - Static solvability analysis for levels
+ * 
+ * Explores every way the player can move through a level by searching over
+ * inputs (left/right/none, jump or not) held for short intervals, stepping each
+ * candidate through PhysicsService's real movement and collision response.
+ * Jump arcs therefore follow the level's physics profile exactly, and include
+ * the effect of power-ups picked up along the way.
+ * 
+ * Simplifications (optimistic unless noted):
+ * - Enemies and crates are ignored
+ * - Moving platforms are one-way platforms along their whole path
+ * - Doors and bridges are open, and so are locked doors with enough keys of their color
+ * - Teleporters may or may not send the player on
+ */
+class ReachabilityService {
+  /**
+   * Analyze which goals, coins and checkpoints the player can reach from spawn
+   */
+  analyze(level: LevelDefinition, options: ReachabilityOptions = {}): ReachabilityReport {
+    const physics = resolvePhysicsProfile(level.physics)
+    const rules: ProbeRules = {
+      baseMaxJumps: options.maxJumps ?? 1,
+      coyoteTime: level.jumpSettings?.coyoteTime ?? COYOTE_TIME,
+      wallJump: options.wallJump ?? false,
+      physics,
+      momentum: this.hasMomentum(level, physics),
+    }
+    const maxStates = options.maxStates ?? DEFAULT_MAX_STATES
+    const grid = new ProbeGrid(level)
+
+    const touched = new Set<number>()
+    const visited = new Map<number, ProbeState[]>()
+    const queue: ProbeState[] = [{
+      x: level.playerSpawn.col * TILE_SIZE,
+      y: level.playerSpawn.row * TILE_SIZE,
+      vx: 0,
+      vy: 0,
+      targetVx: 0,
+      isGrounded: false,
+      jumpsRemaining: rules.baseMaxJumps,
+      hasGroundJump: true,
+      coyoteTimer: rules.coyoteTime,
+      wallContact: 0,
+      wallJumpTimer: 0,
+      launchTimer: 0,
+      onPlatform: false,
+      dropThroughTimer: 0,
+      inLiquid: false,
+      isSubmerged: false,
+      onClimbable: false,
+      isClimbing: false,
+      powerUps: {},
+    }]
+    visited.set(this.positionKey(queue[0]), [queue[0]])
+
+    let truncated = false
+
+    // Breadth-first search over quantized player states
+    for (let head = 0; head < queue.length; head++) {
+      if (queue.length >= maxStates) {
+        truncated = true
+        break
+      }
+
+      const state = queue[head]
+      for (const direction of DIRECTIONS) {
+        for (const jump of [false, true]) {
+          if (jump && !this.canJump(state, rules)) continue
+
+          for (const climb of this.getClimbInputs(state, jump)) {
+            const arrivals: ProbeState[] = []
+            const next = this.simulateAction(state, direction, jump, climb, rules, grid, touched, arrivals)
+
+            for (const candidate of next ? [next, ...arrivals] : arrivals) {
+              if (this.markVisited(visited, candidate, rules.momentum)) {
+                queue.push(candidate)
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return this.buildReport(level, touched, queue.length, truncated)
+  }
+
+  /**
+   * Hold one input for ACTION_STEPS simulation steps
+   * @param arrivals - Collects the states reached through teleporters along the way
+   * @returns Resulting state, or null if the player died
+   */
+  private simulateAction(
+    state: ProbeState,
+    direction: number,
+    jump: boolean,
+    climb: number,
+    rules: ProbeRules,
+    grid: ProbeGrid,
+    touched: Set<number>,
+    arrivals: ProbeState[]
+  ): ProbeState | null {
+    // Most of the search happens mid-air, where the whole action can be integrated at once
+    // (climbables are tiles, so a body that could grab one is never in open air)
+    const airborne = this.integrateOpenAir(state, direction, jump, rules, grid)
+    if (airborne) {
+      // Fell off the map
+      return airborne.y <= grid.height * TILE_SIZE ? airborne : null
+    }
+
+    const body = new ProbeBody(state, rules)
+
+    for (let step = 0; step < ACTION_STEPS; step++) {
+      // Same order as RootStore.tick: input, power-up and jump timers, physics
+      body.applyInput(direction, jump && step === 0, climb)
+      body.updatePowerUps(FIXED_TIMESTEP)
+      body.updateJumpTimers(FIXED_TIMESTEP)
+
+      if (!this.stepPhysics(body, rules, grid, touched, arrivals)) {
+        return null
+      }
+    }
+
+    return body.snapshot()
+  }
+
+  /**
+   * Integrate a whole action without collision if its swept area is empty
+   * @returns Resulting state, or null if the action touches any tile
+   */
+  private integrateOpenAir(
+    state: ProbeState,
+    direction: number,
+    jump: boolean,
+    rules: ProbeRules,
+    grid: ProbeGrid
+  ): ProbeState | null {
+    const body = new ProbeBody(state, rules)
+    let left = body.x
+    let right = body.x
+    let top = body.y
+    let bottom = body.y
+
+    for (let step = 0; step < ACTION_STEPS; step++) {
+      body.applyInput(direction, jump && step === 0)
+      body.updatePowerUps(FIXED_TIMESTEP)
+      body.updateJumpTimers(FIXED_TIMESTEP)
+
+      // Air control is immediate (see PhysicsService.applySurfaceControl)
+      body.vx = body.targetVx
+      body.vy = Math.min(body.vy + body.gravity * FIXED_TIMESTEP, body.maxFallSpeed)
+      // PhysicsService skips the grounded check on steps without vertical movement
+      if (body.vy === 0) return null
+
+      body.x += body.vx * FIXED_TIMESTEP
+      body.y += body.vy * FIXED_TIMESTEP
+      left = Math.min(left, body.x)
+      right = Math.max(right, body.x)
+      top = Math.min(top, body.y)
+      bottom = Math.max(bottom, body.y)
+    }
+
+    // Include the grounded probe below the feet (and the wall probes beside the body)
+    const wallMargin = rules.wallJump ? 1 : 0
+    if (!grid.isAreaEmpty(left - wallMargin, top, right + body.width + wallMargin, bottom + body.height + 3)) {
+      return null
+    }
+
+    body.isGrounded = false
+    body.onPlatform = false
+    body.wallContact = 0
+    body.setLiquidState(false, false)
+    body.setClimbableContact(false)
+    return body.snapshot()
+  }
+
+  /**
+   * One physics step plus the hazard, boundary, pickup and trigger checks
+   * @param arrivals - Collects the states teleporters touched this step lead to
+   * @returns False if the player died
+   */
+  private stepPhysics(
+    body: ProbeBody,
+    rules: ProbeRules,
+    grid: ProbeGrid,
+    touched: Set<number>,
+    arrivals: ProbeState[]
+  ): boolean {
+    const dt = FIXED_TIMESTEP
+
+    // Ease toward the input speed on ice, sand and other surfaces
+    physicsService.applySurfaceControl(body, grid, dt, rules.physics.groundDeceleration)
+
+    // Fast path: in open air, movement can't collide and nothing can be touched
+    const nextVy = Math.min(body.vy + body.gravity * dt, body.maxFallSpeed)
+    const moveX = body.vx * dt
+    const moveY = nextVy * dt
+    const wallMargin = rules.wallJump ? 1 : 0 // Include the wall probes beside the body
+    const isOpenAir = moveY !== 0 && grid.isAreaEmpty(
+      Math.min(body.x, body.x + moveX) - wallMargin,
+      Math.min(body.y, body.y + moveY),
+      Math.max(body.x, body.x + moveX) + body.width + wallMargin,
+      Math.max(body.y, body.y + moveY) + body.height + 3 // Include the grounded probe below the feet
+    )
+
+    if (isOpenAir) {
+      body.vy = nextVy
+      body.x += moveX
+      body.y += moveY
+      body.isGrounded = false
+      body.onPlatform = false
+      body.wallContact = 0
+      body.setLiquidState(false, false)
+      body.setClimbableContact(false)
+    } else {
+      if (body.isClimbing) {
+        physicsService.climbBody(body, grid, dt)
+      } else {
+        physicsService.stepBody(body, grid, dt, body.maxFallSpeed, body.powerUpEffects.fallGravityMultiplier, rules.physics.gravity)
+      }
+      body.onPlatform = physicsService.isOnOneWayPlatform(body, grid)
+      body.wallContact = rules.wallJump ? physicsService.getWallContact(body, grid) : 0
+      body.setLiquidState(physicsService.getLiquidAt(body, grid) !== null, physicsService.isSubmerged(body, grid))
+      body.setClimbableContact(physicsService.isOnClimbable(body, grid))
+
+      const aabb: AABB = { x: body.x, y: body.y, width: body.width, height: body.height }
+      const getTile = (col: number, row: number) => grid.getTileAt(col, row)
+
+      if (!body.powerUpEffects.damageImmunity && checkHazardCollision(aabb, getTile, grid.width, grid.height)) {
+        return false
+      }
+
+      const contacts = checkTileCollisions(aabb, getTile, grid.width, grid.height,
+        (id) => TRACKED_TILES.has(id) || isTileTypePowerUp(id))
+      for (const contact of contacts) {
+        touched.add(contact.row * grid.width + contact.col)
+        body.grantPowerUp(contact.tileId)
+      }
+
+      // Teleporters add their destination as another way on (the body itself carries on,
+      // like a player who arrived there and is waiting out the cooldown)
+      const pads = checkTileCollisions(aabb, getTile, grid.width, grid.height, (id) => id === TileTypeId.TELEPORTER)
+      for (const pad of pads) {
+        const teleport = grid.getTeleport(pad.col, pad.row)
+        if (!teleport) continue
+        const arrival = physicsService.getTeleportArrival(body, teleport.target)
+        arrivals.push({
+          ...body.snapshot(),
+          ...arrival,
+          vx: teleport.keepVelocity ? body.vx : 0,
+          vy: teleport.keepVelocity ? body.vy : 0,
+          targetVx: teleport.keepVelocity ? body.targetVx : 0,
+          isGrounded: false,
+          onPlatform: false,
+          isClimbing: false,
+        })
+      }
+    }
+
+    // Fell off the map
+    return body.y <= grid.height * TILE_SIZE
+  }
+
+  /**
+   * Record a state unless one at the same position is at least as capable
+   * 
+   * States are bucketed by quantized position and velocity. Within a bucket,
+   * only states that no other state dominates (see dominates) are kept and
+   * explored.
+   * @returns True if the state is new and should be explored
+   */
+  private markVisited(visited: Map<number, ProbeState[]>, state: ProbeState, momentum: boolean): boolean {
+    const key = this.positionKey(state)
+    const front = visited.get(key)
+
+    if (!front) {
+      visited.set(key, [state])
+      return true
+    }
+
+    if (front.some(existing => this.dominates(existing, state, momentum))) {
+      return false
+    }
+
+    visited.set(key, [...front.filter(existing => !this.dominates(state, existing, momentum)), state])
+    return true
+  }
+
+  /**
+   * Whether state a can do everything state b can: no fewer jumps (now and
+   * once any coyote window closes), the same wall, liquid and climbing state,
+   * no shorter lock, the same speed wherever speed carries over (locked, or
+   * grounded in a level with momentum) and no less power-up time
+   */
+  private dominates(a: ProbeState, b: ProbeState, momentum: boolean): boolean {
+    return a.jumpsRemaining >= b.jumpsRemaining &&
+      this.jumpsAfterCoyote(a) >= this.jumpsAfterCoyote(b) &&
+      (b.wallContact === 0 || a.wallContact === b.wallContact) &&
+      a.inLiquid === b.inLiquid &&
+      a.isSubmerged === b.isSubmerged &&
+      a.isClimbing === b.isClimbing &&
+      (!b.onClimbable || a.onClimbable) &&
+      a.wallJumpTimer <= b.wallJumpTimer &&
+      a.launchTimer <= b.launchTimer &&
+      (!b.onPlatform || a.onPlatform) &&
+      a.dropThroughTimer === b.dropThroughTimer &&
+      (a.vx === b.vx || (a.wallJumpTimer <= 0 && a.launchTimer <= 0 && !(a.isGrounded && momentum))) &&
+      this.powerUpsDominate(a.powerUps, b.powerUps)
+  }
+
+  /**
+   * Whether power-ups a include b's with no less time left, and any extra
+   * ones only help (slow fall changes every arc, so it must match)
+   */
+  private powerUpsDominate(a: Record<string, number>, b: Record<string, number>): boolean {
+    return Object.keys(b).every(id => a[id] !== undefined && timerBucket(a[id]) >= timerBucket(b[id])) &&
+      Object.keys(a).every(id => b[id] !== undefined || !this.changesFalls(id))
+  }
+
+  /**
+   * Whether a power-up changes how the player falls
+   */
+  private changesFalls(id: string): boolean {
+    const modifiers = getPowerUpDefinition(id)?.modifiers
+    return (modifiers?.fallGravityMultiplier ?? 1) !== 1 || (modifiers?.fallSpeedMultiplier ?? 1) !== 1
+  }
+
+  /**
+   * Whether the level has ground where speed builds up or bleeds off gradually
+   * (elsewhere vx snaps to the input, so states that differ only in vx are alike)
+   */
+  private hasMomentum(level: LevelDefinition, physics: PhysicsProfile): boolean {
+    return physics.groundDeceleration > 0 || level.collision.some(row => row.some(tileId => {
+      const surface = getTileSurface(tileId)
+      return surface.friction !== undefined || surface.acceleration !== undefined
+    }))
+  }
+
+  /**
+   * Whether a jump press from this state does anything (jump, wall jump or swim stroke)
+   */
+  private canJump(state: ProbeState, rules: ProbeRules): boolean {
+    return state.jumpsRemaining > 0 ||
+      state.onPlatform ||
+      state.inLiquid ||
+      (rules.wallJump && !state.isGrounded && state.wallContact !== 0)
+  }
+
+  /**
+   * Vertical inputs to try with a jump choice: up/none/down on a climbable,
+   * and down+jump (drop through) on a one-way platform
+   */
+  private getClimbInputs(state: ProbeState, jump: boolean): number[] {
+    if (state.onClimbable) return CLIMB_INPUTS
+    return jump && state.onPlatform ? DROP_INPUTS : [0]
+  }
+
+  /**
+   * Jumps left once an unspent ground jump lapses in the air
+   */
+  private jumpsAfterCoyote(state: ProbeState): number {
+    return state.hasGroundJump && !state.isGrounded
+      ? Math.max(0, state.jumpsRemaining - 1)
+      : state.jumpsRemaining
+  }
+
+  /**
+   * Quantize position, vertical velocity and grounded flag into a numeric key
+   */
+  private positionKey(state: ProbeState): number {
+    const qx = Math.round(state.x / POSITION_QUANTUM) + 64
+    const qy = Math.round(state.y / POSITION_QUANTUM) + 512
+    const qvy = Math.round(state.vy / VELOCITY_QUANTUM) + 64
+    return ((qx * 2048 + qy) * 128 + qvy) * 2 + (state.isGrounded ? 1 : 0)
+  }
+
+  /**
+   * Compare touched tiles against the level's goals, coins and checkpoints
+   */
+  private buildReport(
+    level: LevelDefinition,
+    touched: Set<number>,
+    statesExplored: number,
+    truncated: boolean
+  ): ReachabilityReport {
+    const report: ReachabilityReport = {
+      goalReachable: false,
+      unreachableCoins: [],
+      unreachableCheckpoints: [],
+      statesExplored,
+      truncated,
+    }
+
+    for (let row = 0; row < level.height; row++) {
+      for (let col = 0; col < level.width; col++) {
+        const tileId = level.collision[row]?.[col]
+        const reached = touched.has(row * level.width + col)
+
+        if (tileId === TileTypeId.GOAL && reached) {
+          report.goalReachable = true
+        } else if (tileId === TileTypeId.COIN && !reached) {
+          report.unreachableCoins.push({ col, row })
+        } else if (tileId === TileTypeId.CHECKPOINT && !reached) {
+          report.unreachableCheckpoints.push({ col, row })
+        }
+      }
+    }
+
+    return report
+  }
+}
+
+// Singleton instance
+export const reachabilityService = new ReachabilityService()
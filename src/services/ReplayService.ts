@@ -0,0 +1,161 @@
+import { FIXED_TIMESTEP } from '../core/constants'
+import type { InputState } from '../core/types'
+import { InputBit, INPUT_BIT_MASK, type ReplayData, type ReplayFrameRun } from '../core/types/replay'
+
+/**
+ * ReplayService - Encode, decode and serialize input recordings
+ *
+ * Stateless helpers used by ReplayStore (frame packing) and RootStore
+ * (export/import). Frames are packed as bitmasks and run-length encoded,
+ * since held keys produce long runs of identical frames.
+ */
+class ReplayService {
+  /**
+   * Pack an input snapshot into a bitmask
+   */
+  encodeInput(input: InputState): number {
+    let mask = 0
+    if (input.left) mask |= InputBit.LEFT
+    if (input.right) mask |= InputBit.RIGHT
+    if (input.up) mask |= InputBit.UP
+    if (input.down) mask |= InputBit.DOWN
+    if (input.jump) mask |= InputBit.JUMP
+    if (input.jumpJustPressed) mask |= InputBit.JUMP_JUST_PRESSED
+    return mask
+  }
+
+  /**
+   * Unpack a bitmask into an input snapshot
+   */
+  decodeInput(mask: number): InputState {
+    return {
+      left: (mask & InputBit.LEFT) !== 0,
+      right: (mask & InputBit.RIGHT) !== 0,
+      up: (mask & InputBit.UP) !== 0,
+      down: (mask & InputBit.DOWN) !== 0,
+      jump: (mask & InputBit.JUMP) !== 0,
+      jumpJustPressed: (mask & InputBit.JUMP_JUST_PRESSED) !== 0,
+    }
+  }
+
+  /**
+   * Run-length encode per-frame bitmasks
+   */
+  compressFrames(masks: number[]): ReplayFrameRun[] {
+    const runs: ReplayFrameRun[] = []
+    for (const mask of masks) {
+      const last = runs[runs.length - 1]
+      if (last && last[0] === mask) {
+        last[1] += 1
+      } else {
+        runs.push([mask, 1])
+      }
+    }
+    return runs
+  }
+
+  /**
+   * Expand run-length encoded frames back to per-frame bitmasks
+   */
+  expandFrames(runs: ReplayFrameRun[]): number[] {
+    const masks: number[] = []
+    for (const [mask, count] of runs) {
+      for (let i = 0; i < count; i++) {
+        masks.push(mask)
+      }
+    }
+    return masks
+  }
+
+  /**
+   * Build a replay from recorded frames
+   */
+  createReplay(levelId: string, masks: number[]): ReplayData {
+    return {
+      formatVersion: 1,
+      levelId,
+      timestep: FIXED_TIMESTEP,
+      frameCount: masks.length,
+      frames: this.compressFrames(masks),
+      recordedAt: new Date().toISOString(),
+    }
+  }
+
+  /**
+   * Validate parsed JSON as a replay file
+   */
+  validateReplay(data: unknown): { replay: ReplayData | null; errors: string[] } {
+    const errors: string[] = []
+    const replay = data as Partial<ReplayData> | null
+
+    if (!replay || typeof replay !== 'object') {
+      return { replay: null, errors: ['Replay file is not a JSON object'] }
+    }
+    if (replay.formatVersion !== 1) {
+      errors.push(`Unsupported replay format version: ${replay.formatVersion}`)
+    }
+    if (typeof replay.levelId !== 'string' || !replay.levelId) {
+      errors.push('Replay is missing levelId')
+    }
+    if (!Array.isArray(replay.frames)) {
+      errors.push('Replay is missing frames')
+    } else if (!replay.frames.every(run => Array.isArray(run) && run.length === 2)) {
+      errors.push('Replay frames must be [mask, count] pairs')
+    } else {
+      errors.push(...this.validateFrameRuns(replay.frames, replay.frameCount))
+    }
+    if (typeof replay.timestep === 'number' && Math.abs(replay.timestep - FIXED_TIMESTEP) > 1e-9) {
+      errors.push(`Replay was recorded at ${1 / replay.timestep} Hz, expected ${1 / FIXED_TIMESTEP} Hz`)
+    }
+
+    return { replay: errors.length === 0 ? (replay as ReplayData) : null, errors }
+  }
+
+  /**
+   * Check run masks and lengths, and that the runs add up to frameCount
+   */
+  private validateFrameRuns(runs: ReplayFrameRun[], frameCount: unknown): string[] {
+    const errors: string[] = []
+    let total = 0
+
+    runs.forEach(([mask, count], index) => {
+      if (!Number.isInteger(mask) || mask < 0) {
+        errors.push(`Replay frame run ${index} has an invalid input mask: ${mask}`)
+      } else if ((mask & ~INPUT_BIT_MASK) !== 0) {
+        errors.push(`Replay frame run ${index} sets unknown input bits: ${mask}`)
+      }
+      if (!Number.isInteger(count) || count <= 0) {
+        errors.push(`Replay frame run ${index} has an invalid length: ${count}`)
+      } else {
+        total += count
+      }
+    })
+
+    if (typeof frameCount !== 'number') {
+      errors.push('Replay is missing frameCount')
+    } else if (errors.length === 0 && total !== frameCount) {
+      errors.push(`Replay frame runs add up to ${total} frames, expected ${frameCount}`)
+    }
+    return errors
+  }
+
+  /**
+   * Download replay as JSON file
+   */
+  downloadReplay(replay: ReplayData, filename?: string): void {
+    const jsonString = JSON.stringify(replay)
+    const blob = new Blob([jsonString], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename || `${replay.levelId}.replay.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Singleton instance
+export const replayService = new ReplayService()
@@ -0,0 +1,144 @@
+import { FIXED_TIMESTEP } from '../core/constants'
+import type { InputState } from '../core/types'
+import type { ReplayData } from '../core/types/replay'
+import type { RootStore } from '../stores/RootStore'
+import { replayService } from './ReplayService'
+
+/**
+ * One segment of a scripted input sequence
+ * Keys listed as true are held for the whole segment.
+ * Jump presses register on the first frame of a segment that holds jump.
+ */
+export interface ScriptedInputStep {
+  /** Segment length in simulation frames */
+  frames?: number
+  /** Segment length in seconds (used when frames is omitted) */
+  seconds?: number
+  left?: boolean
+  right?: boolean
+  up?: boolean
+  down?: boolean
+  jump?: boolean
+}
+
+/**
+ * Outcome of a headless run
+ */
+export interface SimulationResult {
+  levelId: string
+  reachedGoal: boolean
+  gameOver: boolean
+  /** Simulated time in seconds */
+  time: number
+  /** Simulation frames executed */
+  frames: number
+  deaths: number
+  coins: number
+  errors: string[]
+}
+
+export interface SimulationOptions {
+  /** Stop after this much simulated time (default: 300 seconds) */
+  maxSeconds?: number
+}
+
+const DEFAULT_MAX_SECONDS = 300
+
+const IDLE_INPUT: InputState = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  jump: false,
+  jumpJustPressed: false,
+}
+
+/**
+ * SimulationService - Runs levels without a canvas
+ * 
+ * Drives RootStore.tick() at the fixed timestep with a recorded or scripted
+ * input stream, using the same replay path as in-game playback.
+ * Used by scripts/simulate-levels.js for CI playtesting.
+ */
+class SimulationService {
+  /**
+   * Convert a scripted input sequence into a replay
+   */
+  replayFromScript(levelId: string, steps: ScriptedInputStep[]): ReplayData {
+    const masks: number[] = []
+    let wasJumping = false
+
+    for (const step of steps) {
+      const frameCount = step.frames ?? Math.round((step.seconds ?? 0) / FIXED_TIMESTEP)
+      const jump = step.jump ?? false
+
+      for (let i = 0; i < frameCount; i++) {
+        masks.push(replayService.encodeInput({
+          left: step.left ?? false,
+          right: step.right ?? false,
+          up: step.up ?? false,
+          down: step.down ?? false,
+          jump,
+          jumpJustPressed: jump && !wasJumping,
+        }))
+        wasJumping = jump
+      }
+    }
+
+    return replayService.createReplay(levelId, masks)
+  }
+
+  /**
+   * Play a replay from a clean level state until the goal, game over,
+   * the end of the input stream, or the time limit
+   */
+  run(rootStore: RootStore, replay: ReplayData, options: SimulationOptions = {}): SimulationResult {
+    const { gameStore, replayStore } = rootStore
+    const maxFrames = Math.ceil((options.maxSeconds ?? DEFAULT_MAX_SECONDS) / FIXED_TIMESTEP)
+
+    const result: SimulationResult = {
+      levelId: replay.levelId,
+      reachedGoal: false,
+      gameOver: false,
+      time: 0,
+      frames: 0,
+      deaths: 0,
+      coins: 0,
+      errors: [],
+    }
+
+    const started = rootStore.startReplay(replay)
+    if (!started.success) {
+      result.errors = started.errors
+      return result
+    }
+
+    while (
+      result.frames < maxFrames &&
+      replayStore.isPlaying &&
+      !gameStore.levelComplete &&
+      !gameStore.isGameOver
+    ) {
+      const livesBefore = gameStore.lives
+      rootStore.tick(FIXED_TIMESTEP, () => IDLE_INPUT)
+      if (gameStore.lives < livesBefore) {
+        result.deaths += 1
+      }
+      result.frames += 1
+    }
+
+    replayStore.stop()
+
+    result.reachedGoal = gameStore.levelComplete
+    result.gameOver = gameStore.isGameOver
+    result.time = result.frames * FIXED_TIMESTEP
+    result.coins = gameStore.coinsThisAttempt
+    if (!result.reachedGoal && result.frames >= maxFrames) {
+      result.errors.push(`Time limit reached (${options.maxSeconds ?? DEFAULT_MAX_SECONDS}s)`)
+    }
+    return result
+  }
+}
+
+// Singleton instance
+export const simulationService = new SimulationService()
@@ -15,3 +15,8 @@ export { levelPackService } from './LevelPackService'
 export type { PackValidationResult, ExtractedPack } from './LevelPackService'
 export { audioService } from './AudioService'
 export { hitboxService } from './HitboxService'
+export { replayService } from './ReplayService'
+export { simulationService } from './SimulationService'
+export type { ScriptedInputStep, SimulationResult, SimulationOptions } from './SimulationService'
+export { reachabilityService } from './ReachabilityService'
+export type { ReachabilityOptions, ReachabilityReport } from './ReachabilityService'
@@ -56,6 +56,7 @@ class CanvasRenderer {
   /**
    * Main draw call - renders entire frame
    * Delegates to appropriate sub-renderer based on screen state.
+   * @param alpha - Interpolation factor between previous and current simulation step
    */
   draw(
     levelStore: LevelStore,
@@ -65,7 +66,8 @@ class CanvasRenderer {
     campaignStore?: CampaignStore,
     uiStore?: UIStore,
     assetStore?: AssetStore,
-    entityStore?: EntityStore
+    entityStore?: EntityStore,
+    alpha: number = 1
   ): void {
     if (!this.ctx) return
 
@@ -101,7 +103,7 @@ class CanvasRenderer {
     // ============================================
 
     // Draw gameplay (tiles, player, HUD, entities) - pass assetStore for custom sprites
-    this.gameplayRenderer.draw(ctx, levelStore, playerStore, gameStore, cameraStore, assetStore, entityStore)
+    this.gameplayRenderer.draw(ctx, levelStore, playerStore, gameStore, cameraStore, assetStore, entityStore, alpha)
 
     // Draw debug overlays if enabled
     this.debugRenderer.draw(ctx, levelStore, playerStore, gameStore, cameraStore)
@@ -5,6 +5,7 @@ import type { LevelStore } from '../../stores/LevelStore'
 import type { GameStore } from '../../stores/GameStore'
 import type { CameraStore } from '../../stores/CameraStore'
 import { calculateVisibleTileRange } from './DrawingUtils'
+import { getTileCollisionShape } from '../CollisionUtils'
 
 /**
  * DebugRenderer - Renders debug overlays for development
@@ -110,13 +111,15 @@ export class DebugRenderer {
           ctx.strokeStyle = 'rgba(255, 255, 0, 0.8)'
         } else if (tileType.category === 'trigger') {
           ctx.strokeStyle = 'rgba(0, 255, 0, 0.8)'
+        } else if (tileType.category === 'liquid') {
+          ctx.strokeStyle = 'rgba(0, 160, 255, 0.8)'
         } else {
           // Solid and decoration categories
           ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
         }
         
-        // Draw collision shape
-        const collision = tileType.collision
+        // Draw collision shape (including pack overrides from hitboxes.json)
+        const collision = getTileCollisionShape(tileId)
         if (collision.type === 'rect' && collision.rect) {
           const r = collision.rect
           ctx.strokeRect(
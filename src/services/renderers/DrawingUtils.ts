@@ -86,6 +86,134 @@ export function drawPolygonShape(
   ctx.fill()
 }
 
+/**
+ * Draw a dashed tile outline (mechanisms with no collision in their current state)
+ */
+export function drawTileOutline(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  screenX: number,
+  screenY: number
+): void {
+  ctx.save()
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.setLineDash([6, 6])
+  ctx.strokeRect(screenX + 2, screenY + 2, TILE_SIZE - 4, TILE_SIZE - 4)
+  ctx.restore()
+}
+
+/**
+ * Draw ladder rails and rungs (climbable tiles have no collision shape to fill)
+ */
+export function drawClimbable(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  screenX: number,
+  screenY: number
+): void {
+  const railWidth = 6
+  const rungHeight = 5
+  const rungSpacing = TILE_SIZE / 4
+  const left = screenX + TILE_SIZE * 0.2
+  const right = screenX + TILE_SIZE * 0.8 - railWidth
+
+  ctx.fillStyle = color
+  ctx.fillRect(left, screenY, railWidth, TILE_SIZE)
+  ctx.fillRect(right, screenY, railWidth, TILE_SIZE)
+  for (let y = rungSpacing / 2; y < TILE_SIZE; y += rungSpacing) {
+    ctx.fillRect(left, screenY + y - rungHeight / 2, right + railWidth - left, rungHeight)
+  }
+}
+
+/**
+ * Draw a key: round bow on the left, shaft with two teeth to the right
+ * @param size - Overall width in pixels (the key is half as tall)
+ */
+export function drawKey(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  x: number,
+  y: number,
+  size: number
+): void {
+  const bowRadius = size / 4
+  const shaftHeight = size / 8
+  const centerY = y + size / 4
+
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.arc(x + bowRadius, centerY, bowRadius, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillRect(x + bowRadius, centerY - shaftHeight / 2, size - bowRadius, shaftHeight)
+  ctx.fillRect(x + size * 0.7, centerY, shaftHeight, size / 5)
+  ctx.fillRect(x + size - shaftHeight, centerY, shaftHeight, size / 5)
+
+  // Hole through the bow
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
+  ctx.beginPath()
+  ctx.arc(x + bowRadius, centerY, bowRadius / 2, 0, Math.PI * 2)
+  ctx.fill()
+}
+
+/**
+ * Draw a key pickup tile (keys have a pickup-sized collision box, not a key shape)
+ */
+export function drawKeyTile(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  screenX: number,
+  screenY: number
+): void {
+  drawKey(ctx, color, screenX + TILE_SIZE * 0.2, screenY + TILE_SIZE * 0.35, TILE_SIZE * 0.6)
+}
+
+/**
+ * Draw a keyhole in the middle of a tile (locked doors)
+ */
+export function drawKeyhole(
+  ctx: CanvasRenderingContext2D,
+  screenX: number,
+  screenY: number
+): void {
+  const centerX = screenX + TILE_SIZE / 2
+  const centerY = screenY + TILE_SIZE * 0.4
+  const radius = TILE_SIZE / 10
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+  ctx.beginPath()
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2)
+  ctx.moveTo(centerX - radius / 2, centerY)
+  ctx.lineTo(centerX + radius / 2, centerY)
+  ctx.lineTo(centerX + radius, centerY + radius * 3)
+  ctx.lineTo(centerX - radius, centerY + radius * 3)
+  ctx.closePath()
+  ctx.fill()
+}
+
+/**
+ * Draw a teleporter pad: an upright oval portal with a dark core
+ */
+export function drawTeleporter(
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  screenX: number,
+  screenY: number
+): void {
+  const centerX = screenX + TILE_SIZE / 2
+  const centerY = screenY + TILE_SIZE / 2
+
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.ellipse(centerX, centerY, TILE_SIZE * 0.3, TILE_SIZE * 0.46, 0, 0, Math.PI * 2)
+  ctx.fill()
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)'
+  ctx.beginPath()
+  ctx.ellipse(centerX, centerY, TILE_SIZE * 0.18, TILE_SIZE * 0.32, 0, 0, Math.PI * 2)
+  ctx.fill()
+}
+
 // ============================================
 // General Drawing Utilities
 // ============================================
@@ -1,9 +1,10 @@
 import { TILE_SIZE, VIEWPORT_WIDTH, VIEWPORT_HEIGHT } from '../../core/constants'
-import { getTileType, TileTypeId, TILE_COLORS } from '../../core/types/shapes'
+import { getTileType, TileTypeId, TILE_COLORS, isTileTypeMechanism, isTileTypeClimbable, isTileTypeKey, isTileTypeLockedDoor } from '../../core/types/shapes'
 import type { EditorStore, EditorEntitySpawn } from '../../stores/EditorStore'
 import type { AssetStore } from '../../stores/AssetStore'
-import { getEntityDefinition, ENTITY_DEFINITIONS } from '../../core/types/entities'
-import { calculateVisibleTileRange, drawTileShape } from './DrawingUtils'
+import { getEntityDefinition, getWaypointPath, ENTITY_DEFINITIONS } from '../../core/types/entities'
+import type { EntityType } from '../../core/types/entities'
+import { calculateVisibleTileRange, drawTileShape, drawTileOutline, drawClimbable, drawKeyTile, drawKeyhole, drawTeleporter } from './DrawingUtils'
 
 /**
  * Editor colors
@@ -18,8 +19,25 @@ const EDITOR_COLORS = {
   spawnMarkerBorder: '#00cc66',
   entitySelected: '#f6ad55',
   entityHover: '#fbd38d',
+  waypointPath: 'rgba(246, 173, 85, 0.7)',
+  teleporterLink: 'rgba(0, 181, 216, 0.8)',
+  teleporterUnlinked: '#e53e3e',
 } as const
 
+/**
+ * Single-letter labels drawn on entity markers
+ */
+const ENTITY_TYPE_LABELS: Partial<Record<EntityType, string>> = {
+  enemy_patrol: 'P',
+  enemy_static: 'S',
+  enemy_flying: 'F',
+  enemy_jumping: 'J',
+  enemy_turret: 'T',
+  enemy_boss: 'B',
+  platform_moving: 'M',
+  crate: 'C',
+}
+
 /**
  * EditorRenderer - Renders level editor view
  * 
@@ -50,6 +68,9 @@ export class EditorRenderer {
     // Draw grid lines
     this.drawGridLines(ctx, editorStore)
 
+    // Draw lines between linked teleporters
+    this.drawTeleporterLinks(ctx, editorStore)
+
     // Draw player spawn marker
     this.drawSpawnMarker(ctx, editorStore)
 
@@ -136,15 +157,102 @@ export class EditorRenderer {
           const customSprite = assetStore?.getTileSprite(tileId as TileTypeId)
           if (customSprite) {
             this.drawTileSprite(ctx, customSprite, screenX, screenY)
+          } else if (isTileTypeClimbable(tileId)) {
+            drawClimbable(ctx, tileType.color, screenX, screenY)
+          } else if (isTileTypeKey(tileId)) {
+            drawKeyTile(ctx, tileType.color, screenX, screenY)
+          } else if (tileId === TileTypeId.TELEPORTER) {
+            drawTeleporter(ctx, tileType.color, screenX, screenY)
           } else {
             // Fall back to procedural rendering
             drawTileShape(ctx, tileType.collision, tileType.color, screenX, screenY)
+            if (isTileTypeLockedDoor(tileId)) {
+              drawKeyhole(ctx, screenX, screenY)
+            }
+          }
+
+          // Mechanisms with no collision (open gates, hidden bridges) still need to be visible
+          if (isTileTypeMechanism(tileId) && tileType.collision.type === 'none') {
+            drawTileOutline(ctx, tileType.color, screenX, screenY)
+          }
+
+          // Channel label on switches and mechanisms, ID label on teleporters
+          const channel = editor.getChannelAt(col, row)
+          if (channel) {
+            this.drawTileLabel(ctx, channel, screenX, screenY)
+          }
+          const teleporter = tileId === TileTypeId.TELEPORTER ? editor.getTeleporterAt(col, row) : undefined
+          if (teleporter) {
+            this.drawTileLabel(ctx, teleporter.id, screenX, screenY)
           }
         }
       }
     }
   }
 
+  /**
+   * Draw a tile's channel name or teleporter ID in its top-left corner
+   */
+  private drawTileLabel(
+    ctx: CanvasRenderingContext2D,
+    label: string,
+    screenX: number,
+    screenY: number
+  ): void {
+    ctx.font = 'bold 11px Arial'
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'top'
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(screenX + 2, screenY + 2, ctx.measureText(label).width + 6, 14)
+    ctx.fillStyle = '#ffffff'
+    ctx.fillText(label, screenX + 5, screenY + 3)
+  }
+
+  /**
+   * Draw a dashed line between each linked teleporter pair, and a red
+   * outline on teleporters still waiting for a partner
+   */
+  private drawTeleporterLinks(
+    ctx: CanvasRenderingContext2D,
+    editor: EditorStore
+  ): void {
+    const links = new Map(editor.teleporters.map(t => [t.id, t]))
+    const center = (col: number, row: number) => ({
+      x: Math.round(col * TILE_SIZE + TILE_SIZE / 2 - editor.cameraX),
+      y: Math.round(row * TILE_SIZE + TILE_SIZE / 2 - editor.cameraY),
+    })
+
+    ctx.save()
+    ctx.lineWidth = 2
+    for (const link of editor.teleporters) {
+      const target = links.get(link.target)
+      if (!target || target === link) {
+        ctx.strokeStyle = EDITOR_COLORS.teleporterUnlinked
+        ctx.setLineDash([])
+        ctx.strokeRect(
+          Math.round(link.col * TILE_SIZE - editor.cameraX) + 2,
+          Math.round(link.row * TILE_SIZE - editor.cameraY) + 2,
+          TILE_SIZE - 4,
+          TILE_SIZE - 4
+        )
+        continue
+      }
+
+      // Pairs point at each other, so draw the shared line once
+      if (target.target === link.id && target.id < link.id) continue
+
+      const from = center(link.col, link.row)
+      const to = center(target.col, target.row)
+      ctx.strokeStyle = EDITOR_COLORS.teleporterLink
+      ctx.setLineDash([6, 4])
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+      ctx.stroke()
+    }
+    ctx.restore()
+  }
+
   /**
    * Draw a custom tile sprite
    */
@@ -273,6 +381,11 @@ export class EditorRenderer {
     const screenY = Math.round(row * TILE_SIZE - editor.cameraY)
     const isSelected = editor.selectedEntityId === entitySpawn.editorId
 
+    // Draw waypoint path (moving platforms, path-following flyers)
+    if (entitySpawn.properties?.waypoints?.length) {
+      this.drawWaypointPath(ctx, editor, entitySpawn)
+    }
+
     // Check for custom sprite
     const customSprite = assetStore?.getEntitySprite(entitySpawn.definitionId)
 
@@ -324,12 +437,43 @@ export class EditorRenderer {
     ctx.textAlign = 'center'
     ctx.textBaseline = 'bottom'
     ctx.fillText(
-      definition.type === 'enemy_patrol' ? 'P' : 'S',
+      ENTITY_TYPE_LABELS[definition.type] ?? '?',
       screenX + TILE_SIZE / 2,
       screenY + TILE_SIZE - 2
     )
   }
 
+  /**
+   * Draw a dashed line through an entity's waypoints
+   */
+  private drawWaypointPath(
+    ctx: CanvasRenderingContext2D,
+    editor: EditorStore,
+    entitySpawn: EditorEntitySpawn
+  ): void {
+    const path = getWaypointPath(entitySpawn)
+
+    ctx.save()
+    ctx.strokeStyle = EDITOR_COLORS.waypointPath
+    ctx.lineWidth = 2
+    ctx.setLineDash([6, 4])
+    ctx.beginPath()
+    path.forEach((point, i) => {
+      const x = Math.round(point.col * TILE_SIZE + TILE_SIZE / 2 - editor.cameraX)
+      const y = Math.round(point.row * TILE_SIZE + TILE_SIZE / 2 - editor.cameraY)
+      if (i === 0) {
+        ctx.moveTo(x, y)
+      } else {
+        ctx.lineTo(x, y)
+      }
+    })
+    if (entitySpawn.properties?.loop) {
+      ctx.closePath()
+    }
+    ctx.stroke()
+    ctx.restore()
+  }
+
   /**
    * Draw hover highlight
    */
@@ -417,7 +561,15 @@ export class EditorRenderer {
     } else {
       // Fall back to procedural rendering
       const tileType = getTileType(previewTileId)
-      drawTileShape(ctx, tileType.collision, tileType.color, screenX, screenY)
+      if (isTileTypeClimbable(previewTileId)) {
+        drawClimbable(ctx, tileType.color, screenX, screenY)
+      } else if (isTileTypeKey(previewTileId)) {
+        drawKeyTile(ctx, tileType.color, screenX, screenY)
+      } else if (previewTileId === TileTypeId.TELEPORTER) {
+        drawTeleporter(ctx, tileType.color, screenX, screenY)
+      } else {
+        drawTileShape(ctx, tileType.collision, tileType.color, screenX, screenY)
+      }
     }
     
     ctx.globalAlpha = 1
@@ -3,13 +3,8 @@ import {
   COLORS, 
   VIEWPORT_WIDTH, 
   VIEWPORT_HEIGHT, 
-  TRIPLE_JUMP_DURATION,
-  SPEED_BOOST_DURATION,
-  SUPER_JUMP_DURATION,
-  INVINCIBILITY_DURATION,
 } from '../../core/constants'
-import { TILE_COLORS } from '../../core/types/shapes'
-import { getTileType, TileTypeId } from '../../core/types/shapes'
+import { getTileType, TileTypeId, KEY_TILES, isTileTypeSolid, isTileTypeSwitch, isTileTypeMechanism, isTileTypeClimbable, isTileTypeKey, isTileTypeLockedDoor, type KeyColor } from '../../core/types/shapes'
 import type { PlayerStore } from '../../stores/PlayerStore'
 import type { LevelStore } from '../../stores/LevelStore'
 import type { GameStore } from '../../stores/GameStore'
@@ -18,7 +13,22 @@ import type { AssetStore } from '../../stores/AssetStore'
 import type { EntityStore } from '../../stores/EntityStore'
 import type { Entity } from '../../core/types/entities'
 import { getEntityDefinition } from '../../core/types/entities'
-import { calculateVisibleTileRange, drawTileShape } from './DrawingUtils'
+import { getPowerUpDefinitions, type PowerUpIcon } from '../../core/types/powerups'
+import { calculateVisibleTileRange, drawTileShape, drawTileOutline, drawClimbable, drawKey, drawKeyTile, drawKeyhole, drawTeleporter } from './DrawingUtils'
+
+/** Overlay drawn on switches that are currently on */
+const SWITCH_ON_OVERLAY = 'rgba(255, 255, 255, 0.45)'
+
+/** Sideways shake (px) of crumbling tiles about to give way, and how fast they shake (radians/sec) */
+const CRUMBLE_SHAKE_AMPLITUDE = 3
+const CRUMBLE_SHAKE_RATE = 60
+
+/** Opacity of liquid tiles, drawn over the player and entities */
+const LIQUID_ALPHA = 0.5
+
+/** Highlight along the top of a liquid's surface tiles */
+const LIQUID_SURFACE_COLOR = 'rgba(255, 255, 255, 0.6)'
+const LIQUID_SURFACE_HEIGHT = 4
 
 /**
  * GameplayRenderer - Renders core gameplay elements
@@ -29,6 +39,7 @@ import { calculateVisibleTileRange, drawTileShape } from './DrawingUtils'
 export class GameplayRenderer {
   /**
    * Draw all gameplay elements (called during 'playing' screen state)
+   * @param alpha - Interpolation factor between previous and current simulation step
    */
   draw(
     ctx: CanvasRenderingContext2D,
@@ -37,7 +48,8 @@ export class GameplayRenderer {
     gameStore: GameStore,
     cameraStore: CameraStore,
     assetStore?: AssetStore,
-    entityStore?: EntityStore
+    entityStore?: EntityStore,
+    alpha: number = 1
   ): void {
     // Clear canvas with background color
     ctx.fillStyle = COLORS.background
@@ -53,14 +65,20 @@ export class GameplayRenderer {
 
     // Draw entities (enemies, etc.)
     if (entityStore) {
-      this.drawEntities(ctx, entityStore, cameraStore, assetStore)
+      this.drawEntities(ctx, entityStore, cameraStore, assetStore, alpha)
     }
 
     // Draw player (with camera offset)
-    this.drawPlayer(ctx, playerStore, cameraStore, assetStore)
+    this.drawPlayer(ctx, playerStore, cameraStore, assetStore, alpha)
+
+    // Draw liquids translucently on top, so swimmers show through
+    this.drawLiquids(ctx, levelStore, cameraStore, assetStore)
 
     // Draw HUD (screen space)
     this.drawHUD(ctx, gameStore, playerStore, assetStore)
+    if (entityStore) {
+      this.drawBossHealthBar(ctx, entityStore, cameraStore)
+    }
   }
 
   /**
@@ -125,19 +143,108 @@ export class GameplayRenderer {
           ctx.fillRect(screenX, screenY, TILE_SIZE, TILE_SIZE)
         }
 
-        // Draw tile if not empty
-        if (tileId !== TileTypeId.EMPTY) {
-          // Check for custom sprite first
-          const sprite = assetStore?.getTileSprite(tileId as TileTypeId)
-          if (sprite) {
-            this.drawTileSprite(ctx, sprite, screenX, screenY)
-          } else {
-            // Fall back to procedural rendering using shared utility
-            drawTileShape(ctx, tileType.collision, tileType.color, screenX, screenY)
+        // Draw tile if not empty (liquids get their own layer above the player)
+        if (tileId !== TileTypeId.EMPTY && !tileType.liquid) {
+          // Crumbling tiles shake before they give way
+          const crumble = level.getCrumbleAt(col, row)
+          const shakeX = crumble?.phase === 'shaking'
+            ? Math.round(Math.sin(crumble.timer * CRUMBLE_SHAKE_RATE) * CRUMBLE_SHAKE_AMPLITUDE)
+            : 0
+          this.drawTile(ctx, tileId, screenX + shakeX, screenY, assetStore)
+
+          // Show switch and mechanism state
+          if (isTileTypeSwitch(tileId) && level.isSwitchOn(col, row)) {
+            drawTileShape(ctx, tileType.collision, SWITCH_ON_OVERLAY, screenX, screenY)
+          } else if (isTileTypeMechanism(tileId) && tileType.collision.type === 'none') {
+            drawTileOutline(ctx, tileType.color, screenX, screenY)
           }
         }
       }
     }
+
+    // Fallen tiles drop out of the level after leaving the grid
+    for (const crumble of level.crumbles.values()) {
+      if (crumble.phase !== 'falling') continue
+      const screenX = Math.round(crumble.col * TILE_SIZE - camera.x)
+      const screenY = Math.round(crumble.row * TILE_SIZE + crumble.fallOffset - camera.y)
+      if (screenY > VIEWPORT_HEIGHT || screenX < -TILE_SIZE || screenX > VIEWPORT_WIDTH) continue
+      this.drawTile(ctx, crumble.tileId, screenX, screenY, assetStore)
+    }
+  }
+
+  /**
+   * Draw one tile: custom sprite if loaded, otherwise procedural
+   */
+  private drawTile(
+    ctx: CanvasRenderingContext2D,
+    tileId: number,
+    screenX: number,
+    screenY: number,
+    assetStore?: AssetStore
+  ): void {
+    const tileType = getTileType(tileId)
+
+    // Check for custom sprite first
+    const sprite = assetStore?.getTileSprite(tileId as TileTypeId)
+    if (sprite) {
+      this.drawTileSprite(ctx, sprite, screenX, screenY)
+    } else if (isTileTypeClimbable(tileId)) {
+      drawClimbable(ctx, tileType.color, screenX, screenY)
+    } else if (isTileTypeKey(tileId)) {
+      drawKeyTile(ctx, tileType.color, screenX, screenY)
+    } else if (tileId === TileTypeId.TELEPORTER) {
+      drawTeleporter(ctx, tileType.color, screenX, screenY)
+    } else {
+      // Fall back to procedural rendering using shared utility
+      drawTileShape(ctx, tileType.collision, tileType.color, screenX, screenY)
+      if (isTileTypeLockedDoor(tileId)) {
+        drawKeyhole(ctx, screenX, screenY)
+      }
+    }
+  }
+
+  /**
+   * Draw visible liquid tiles as a translucent layer, with a highlight on the surface
+   */
+  private drawLiquids(
+    ctx: CanvasRenderingContext2D,
+    level: LevelStore,
+    camera: CameraStore,
+    assetStore?: AssetStore
+  ): void {
+    const { startCol, endCol, startRow, endRow } = calculateVisibleTileRange(
+      camera.x, camera.y, VIEWPORT_WIDTH, VIEWPORT_HEIGHT, level.width, level.height
+    )
+
+    ctx.save()
+    for (let row = startRow; row < endRow; row++) {
+      for (let col = startCol; col < endCol; col++) {
+        const tileId = level.collision[row][col]
+        const tileType = getTileType(tileId)
+        if (!tileType.liquid) continue
+
+        const screenX = Math.round(col * TILE_SIZE - camera.x)
+        const screenY = Math.round(row * TILE_SIZE - camera.y)
+
+        ctx.globalAlpha = LIQUID_ALPHA
+        const sprite = assetStore?.getTileSprite(tileId as TileTypeId)
+        if (sprite) {
+          this.drawTileSprite(ctx, sprite, screenX, screenY)
+        } else {
+          ctx.fillStyle = tileType.color
+          ctx.fillRect(screenX, screenY, TILE_SIZE, TILE_SIZE)
+        }
+
+        // Surface tiles have open space above them
+        const above = level.getTileAt(col, row - 1)
+        if (!getTileType(above).liquid && !isTileTypeSolid(above)) {
+          ctx.globalAlpha = 1
+          ctx.fillStyle = LIQUID_SURFACE_COLOR
+          ctx.fillRect(screenX, screenY, TILE_SIZE, LIQUID_SURFACE_HEIGHT)
+        }
+      }
+    }
+    ctx.restore()
   }
 
   /**
@@ -164,12 +271,13 @@ export class GameplayRenderer {
     ctx: CanvasRenderingContext2D,
     entityStore: EntityStore,
     camera: CameraStore,
-    assetStore?: AssetStore
+    assetStore?: AssetStore,
+    alpha: number = 1
   ): void {
     const entities = entityStore.getActive()
     
     for (const entity of entities) {
-      this.drawEntity(ctx, entity, camera, assetStore)
+      this.drawEntity(ctx, entity, camera, assetStore, alpha)
     }
   }
 
@@ -180,11 +288,14 @@ export class GameplayRenderer {
     ctx: CanvasRenderingContext2D,
     entity: Entity,
     camera: CameraStore,
-    assetStore?: AssetStore
+    assetStore?: AssetStore,
+    alpha: number = 1
   ): void {
-    // Convert world position to screen position
-    const screenX = Math.round(entity.x - camera.x)
-    const screenY = Math.round(entity.y - camera.y)
+    // Interpolate between simulation steps, then convert to screen position
+    const worldX = entity.prevX + (entity.x - entity.prevX) * alpha
+    const worldY = entity.prevY + (entity.y - entity.prevY) * alpha
+    const screenX = Math.round(worldX - camera.x)
+    const screenY = Math.round(worldY - camera.y)
 
     // Skip if off-screen
     if (
@@ -216,12 +327,42 @@ export class GameplayRenderer {
       const definition = getEntityDefinition(entity.definitionId)
       const color = definition?.color || '#e53e3e'
 
-      // Draw entity as colored rectangle (MVP rendering)
       ctx.fillStyle = color
+
+      if (entity.type === 'projectile') {
+        // Projectiles are round and faceless
+        ctx.beginPath()
+        ctx.arc(screenX + entity.width / 2, screenY + entity.height / 2, entity.width / 2, 0, Math.PI * 2)
+        ctx.fill()
+        return
+      }
+
+      // Draw entity as colored rectangle (MVP rendering)
       ctx.fillRect(screenX, screenY, entity.width, entity.height)
 
-      // Draw eyes to indicate direction
-      this.drawEntityFace(ctx, entity, screenX, screenY)
+      if (entity.type === 'enemy_boss' && entity.data.phase === 'vulnerable') {
+        // Pale while stunned, so the player knows when to stomp
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.35)'
+        ctx.fillRect(screenX, screenY, entity.width, entity.height)
+      }
+
+      if (entity.type === 'platform_moving') {
+        // Highlight the standable top edge instead of a face
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.35)'
+        ctx.fillRect(screenX, screenY, entity.width, 4)
+      } else if (entity.type === 'crate') {
+        // Frame and cross brace instead of a face
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)'
+        ctx.lineWidth = 4
+        ctx.strokeRect(screenX + 2, screenY + 2, entity.width - 4, entity.height - 4)
+        ctx.beginPath()
+        ctx.moveTo(screenX + 2, screenY + 2)
+        ctx.lineTo(screenX + entity.width - 2, screenY + entity.height - 2)
+        ctx.stroke()
+      } else {
+        // Draw eyes to indicate direction
+        this.drawEntityFace(ctx, entity, screenX, screenY)
+      }
     }
   }
 
@@ -268,11 +409,20 @@ export class GameplayRenderer {
     ctx: CanvasRenderingContext2D, 
     player: PlayerStore,
     camera: CameraStore,
-    assetStore?: AssetStore
+    assetStore?: AssetStore,
+    alpha: number = 1
   ): void {
-    // Convert world position to screen position - round to avoid sub-pixel artifacts
-    const screenX = Math.round(player.x - camera.x)
-    const screenY = Math.round(player.y - camera.y)
+    // Interpolate between simulation steps, then convert to screen position
+    // Round to avoid sub-pixel artifacts
+    const position = player.getInterpolatedPosition(alpha)
+    const screenX = Math.round(position.x - camera.x)
+    const screenY = Math.round(position.y - camera.y)
+
+    // Flash during post-hit i-frames
+    ctx.save()
+    if (player.isHurt && Math.floor(player.hurtTimer * 10) % 2 === 0) {
+      ctx.globalAlpha = 0.3
+    }
 
     // Check for custom player sprites
     const playerSprites = assetStore?.playerSprites
@@ -312,13 +462,14 @@ export class GameplayRenderer {
       // No custom sprites or player is dead - use procedural rendering
       this.drawPlayerProcedural(ctx, player, screenX, screenY)
     }
+    ctx.restore()
 
     // Draw power-up indicators (stacked above player)
     this.drawPowerUpIndicators(ctx, player, screenX, screenY)
   }
 
   /**
-   * Draw power-up indicators above the player
+   * Draw power-up indicators above the player (in registry order)
    */
   private drawPowerUpIndicators(
     ctx: CanvasRenderingContext2D,
@@ -332,122 +483,96 @@ export class GameplayRenderer {
     const timerHeight = 4
     const centerX = screenX + player.width / 2
 
-    // Triple jump indicator
-    if (player.hasTripleJump) {
-      const indicatorY = screenY - 10 - indicatorOffset
-      ctx.fillStyle = COLORS.powerup
-      ctx.beginPath()
-      ctx.arc(centerX, indicatorY, 6, 0, Math.PI * 2)
-      ctx.fill()
-      
-      // Timer bar
-      const timerX = centerX - timerWidth / 2
-      const timerY = indicatorY - 10
-      const fillRatio = player.tripleJumpTimer / TRIPLE_JUMP_DURATION
-      
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
-      ctx.fillRect(timerX, timerY, timerWidth, timerHeight)
-      ctx.fillStyle = COLORS.powerup
-      ctx.fillRect(timerX, timerY, timerWidth * fillRatio, timerHeight)
-      
-      indicatorOffset += indicatorSpacing
-    }
+    for (const definition of getPowerUpDefinitions()) {
+      if (!player.hasPowerUp(definition.id)) continue
 
-    // Speed boost indicator (orange)
-    if (player.hasSpeedBoost) {
+      const { color, glyph, pulse, outlinePlayer } = definition.icon
       const indicatorY = screenY - 10 - indicatorOffset
-      ctx.fillStyle = TILE_COLORS.speedBoost
-      ctx.beginPath()
-      ctx.arc(centerX, indicatorY, 6, 0, Math.PI * 2)
-      ctx.fill()
-      
-      // Speed lines decoration
-      ctx.strokeStyle = TILE_COLORS.speedBoost
-      ctx.lineWidth = 2
-      ctx.beginPath()
-      ctx.moveTo(centerX - 10, indicatorY)
-      ctx.lineTo(centerX - 14, indicatorY)
-      ctx.moveTo(centerX + 10, indicatorY)
-      ctx.lineTo(centerX + 14, indicatorY)
-      ctx.stroke()
-      
-      // Timer bar
-      const timerX = centerX - timerWidth / 2
-      const timerY = indicatorY - 10
-      const fillRatio = player.speedBoostTimer / SPEED_BOOST_DURATION
-      
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
-      ctx.fillRect(timerX, timerY, timerWidth, timerHeight)
-      ctx.fillStyle = TILE_COLORS.speedBoost
-      ctx.fillRect(timerX, timerY, timerWidth * fillRatio, timerHeight)
-      
-      indicatorOffset += indicatorSpacing
-    }
 
-    // Super jump indicator (purple)
-    if (player.hasSuperJump) {
-      const indicatorY = screenY - 10 - indicatorOffset
-      ctx.fillStyle = TILE_COLORS.superJump
+      // Indicator dot (glowing and pulsing for invincibility)
+      const pulseScale = pulse ? 1 + Math.sin(Date.now() / 100) * 0.2 : 1
+      ctx.fillStyle = color
+      if (pulse) {
+        ctx.shadowColor = color
+        ctx.shadowBlur = 10
+      }
       ctx.beginPath()
-      ctx.arc(centerX, indicatorY, 6, 0, Math.PI * 2)
+      ctx.arc(centerX, indicatorY, 6 * pulseScale, 0, Math.PI * 2)
       ctx.fill()
-      
-      // Up arrow decoration
-      ctx.strokeStyle = TILE_COLORS.superJump
-      ctx.lineWidth = 2
-      ctx.beginPath()
-      ctx.moveTo(centerX, indicatorY - 10)
-      ctx.lineTo(centerX, indicatorY - 4)
-      ctx.moveTo(centerX - 3, indicatorY - 7)
-      ctx.lineTo(centerX, indicatorY - 10)
-      ctx.lineTo(centerX + 3, indicatorY - 7)
-      ctx.stroke()
-      
-      // Timer bar
+      ctx.shadowBlur = 0
+
+      if (glyph) {
+        this.drawPowerUpGlyph(ctx, glyph, color, centerX, indicatorY)
+      }
+
+      // Timer bar (raised above glyphs that stick up)
       const timerX = centerX - timerWidth / 2
-      const timerY = indicatorY - 16
-      const fillRatio = player.superJumpTimer / SUPER_JUMP_DURATION
+      const timerY = indicatorY - (glyph === 'arrowUp' || glyph === 'arrowDown' ? 16 : glyph === 'ring' ? 14 : 10)
+      const fillRatio = Math.min(1, player.getPowerUpTimer(definition.id) / definition.duration)
       
       ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
       ctx.fillRect(timerX, timerY, timerWidth, timerHeight)
-      ctx.fillStyle = TILE_COLORS.superJump
+      ctx.fillStyle = color
       ctx.fillRect(timerX, timerY, timerWidth * fillRatio, timerHeight)
+
+      // Outline around the player (invincibility, shield)
+      if (outlinePlayer) {
+        ctx.strokeStyle = color
+        ctx.lineWidth = 3
+        ctx.shadowColor = color
+        ctx.shadowBlur = 5
+        ctx.strokeRect(screenX - 2, screenY - 2, player.width + 4, player.height + 4)
+        ctx.shadowBlur = 0
+      }
       
       indicatorOffset += indicatorSpacing
     }
+  }
 
-    // Invincibility indicator (gold, pulsing)
-    if (player.hasInvincibility) {
-      const indicatorY = screenY - 10 - indicatorOffset
-      const pulseScale = 1 + Math.sin(Date.now() / 100) * 0.2
-      
-      // Glowing effect
-      ctx.fillStyle = TILE_COLORS.invincibility
-      ctx.shadowColor = TILE_COLORS.invincibility
-      ctx.shadowBlur = 10
-      ctx.beginPath()
-      ctx.arc(centerX, indicatorY, 6 * pulseScale, 0, Math.PI * 2)
-      ctx.fill()
-      ctx.shadowBlur = 0
-      
-      // Timer bar
-      const timerX = centerX - timerWidth / 2
-      const timerY = indicatorY - 10
-      const fillRatio = player.invincibilityTimer / INVINCIBILITY_DURATION
-      
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
-      ctx.fillRect(timerX, timerY, timerWidth, timerHeight)
-      ctx.fillStyle = TILE_COLORS.invincibility
-      ctx.fillRect(timerX, timerY, timerWidth * fillRatio, timerHeight)
-      
-      // Also draw gold outline around player when invincible
-      ctx.strokeStyle = TILE_COLORS.invincibility
-      ctx.lineWidth = 3
-      ctx.shadowColor = TILE_COLORS.invincibility
-      ctx.shadowBlur = 5
-      ctx.strokeRect(screenX - 2, screenY - 2, player.width + 4, player.height + 4)
-      ctx.shadowBlur = 0
+  /**
+   * Draw the decoration around a power-up indicator dot
+   */
+  private drawPowerUpGlyph(
+    ctx: CanvasRenderingContext2D,
+    glyph: NonNullable<PowerUpIcon['glyph']>,
+    color: string,
+    centerX: number,
+    indicatorY: number
+  ): void {
+    ctx.strokeStyle = color
+    ctx.lineWidth = 2
+    ctx.beginPath()
+
+    switch (glyph) {
+      case 'speedLines':
+        ctx.moveTo(centerX - 10, indicatorY)
+        ctx.lineTo(centerX - 14, indicatorY)
+        ctx.moveTo(centerX + 10, indicatorY)
+        ctx.lineTo(centerX + 14, indicatorY)
+        break
+      case 'arrowUp':
+        ctx.moveTo(centerX, indicatorY - 10)
+        ctx.lineTo(centerX, indicatorY - 4)
+        ctx.moveTo(centerX - 3, indicatorY - 7)
+        ctx.lineTo(centerX, indicatorY - 10)
+        ctx.lineTo(centerX + 3, indicatorY - 7)
+        break
+      case 'arrowDown':
+        ctx.moveTo(centerX, indicatorY - 10)
+        ctx.lineTo(centerX, indicatorY - 4)
+        ctx.moveTo(centerX - 3, indicatorY - 7)
+        ctx.lineTo(centerX, indicatorY - 4)
+        ctx.lineTo(centerX + 3, indicatorY - 7)
+        break
+      case 'ring':
+        ctx.arc(centerX, indicatorY, 9, 0, Math.PI * 2)
+        break
+      case 'horseshoe':
+        ctx.arc(centerX, indicatorY, 9, 0, Math.PI)
+        break
     }
+
+    ctx.stroke()
   }
 
   /**
@@ -521,7 +646,7 @@ export class GameplayRenderer {
   drawHUD(
     ctx: CanvasRenderingContext2D,
     game: GameStore,
-    _player: PlayerStore,
+    player: PlayerStore,
     assetStore?: AssetStore
   ): void {
     const padding = 20
@@ -532,33 +657,31 @@ export class GameplayRenderer {
     ctx.textAlign = 'left'
     ctx.textBaseline = 'top'
     
-    // Draw heart icons
-    const heartSprite = assetStore?.uiSprites.get('heart')
-    const heartEmptySprite = assetStore?.uiSprites.get('heart_empty')
+    // Hearts show health in levels with a health pool, otherwise lives
+    const heartCount = player.usesHealth ? player.maxHealth : game.maxLives
+    const filledCount = player.usesHealth ? player.health : game.lives
 
-    for (let i = 0; i < game.maxLives; i++) {
-      const heartX = padding + i * 35
-      const heartY = padding
-      const isAlive = i < game.lives
-      
-      // Use custom heart sprites if available
-      if (isAlive && heartSprite) {
-        ctx.drawImage(heartSprite, heartX, heartY, 24, 24)
-      } else if (!isAlive && heartEmptySprite) {
-        ctx.drawImage(heartEmptySprite, heartX, heartY, 24, 24)
-      } else {
-        // Fall back to procedural heart
-        ctx.fillStyle = isAlive ? '#e53e3e' : '#4a5568'
-        ctx.beginPath()
-        ctx.moveTo(heartX + 12, heartY + 6)
-        ctx.bezierCurveTo(heartX + 12, heartY + 2, heartX + 6, heartY, heartX + 6, heartY + 6)
-        ctx.bezierCurveTo(heartX + 6, heartY + 12, heartX + 12, heartY + 18, heartX + 12, heartY + 22)
-        ctx.bezierCurveTo(heartX + 12, heartY + 18, heartX + 18, heartY + 12, heartX + 18, heartY + 6)
-        ctx.bezierCurveTo(heartX + 18, heartY, heartX + 12, heartY + 2, heartX + 12, heartY + 6)
-        ctx.fill()
-      }
+    for (let i = 0; i < heartCount; i++) {
+      this.drawHeart(ctx, padding + i * 35, padding, i < filledCount, assetStore)
     }
 
+    // Lives move under the hearts as a counter
+    if (player.usesHealth) {
+      ctx.font = 'bold 16px Arial'
+      ctx.fillStyle = '#ffffff'
+      ctx.fillText(`Lives: ${game.lives}`, padding, padding + 32)
+      ctx.font = 'bold 24px Arial'
+    }
+
+    // Air meter while it isn't full
+    const showOxygen = player.usesOxygen && player.oxygen < player.maxOxygen
+    if (showOxygen) {
+      this.drawOxygenBar(ctx, padding, padding + (player.usesHealth ? 56 : 36), player.oxygen / player.maxOxygen)
+    }
+
+    // Keys held, below the hearts and air meter
+    this.drawKeyInventory(ctx, game, padding, padding + (player.usesHealth ? 56 : 36) + (showOxygen ? 20 : 0))
+
     // Coins (top-right) - Show wallet total + current level coins
     // When level is complete, coins are already added to totalCoins, so don't double-count
     const displayCoins = game.levelComplete 
@@ -598,4 +721,127 @@ export class GameplayRenderer {
       ctx.fillText(`(${Math.round(game.replayMultiplier * 100)}% rate)`, VIEWPORT_WIDTH - padding, padding + 48)
     }
   }
+
+  /**
+   * Draw one key per color held, with a count when more than one
+   */
+  private drawKeyInventory(
+    ctx: CanvasRenderingContext2D,
+    game: GameStore,
+    left: number,
+    top: number
+  ): void {
+    const keySize = 28
+    let keyX = left
+
+    ctx.font = 'bold 14px Arial'
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'top'
+    for (const color of Object.keys(KEY_TILES) as KeyColor[]) {
+      const count = game.getKeyCount(color)
+      if (count === 0) continue
+
+      drawKey(ctx, getTileType(KEY_TILES[color].key).color, keyX, top, keySize)
+      keyX += keySize + 4
+      if (count > 1) {
+        ctx.fillStyle = '#ffffff'
+        ctx.fillText(`×${count}`, keyX, top)
+        keyX += ctx.measureText(`×${count}`).width + 4
+      }
+      keyX += 8
+    }
+  }
+
+  /**
+   * Draw the health bar of the first boss on screen (bottom center)
+   */
+  private drawBossHealthBar(
+    ctx: CanvasRenderingContext2D,
+    entityStore: EntityStore,
+    camera: CameraStore
+  ): void {
+    const boss = entityStore.getActiveBosses().find(e =>
+      e.x + e.width > camera.x &&
+      e.x < camera.x + VIEWPORT_WIDTH &&
+      e.y + e.height > camera.y &&
+      e.y < camera.y + VIEWPORT_HEIGHT
+    )
+    if (!boss) return
+
+    const definition = getEntityDefinition(boss.definitionId)
+    const maxHealth = definition?.health ?? boss.health
+    const barWidth = VIEWPORT_WIDTH / 2
+    const barHeight = 14
+    const barX = (VIEWPORT_WIDTH - barWidth) / 2
+    const barY = VIEWPORT_HEIGHT - 40
+
+    // Name above the bar
+    ctx.font = 'bold 16px Arial'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'bottom'
+    ctx.fillStyle = '#ffffff'
+    ctx.fillText(definition?.displayName ?? 'Boss', VIEWPORT_WIDTH / 2, barY - 4)
+
+    // Background, fill, border
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(barX, barY, barWidth, barHeight)
+    ctx.fillStyle = boss.data.phase === 'vulnerable' ? '#f6e05e' : '#e53e3e'
+    ctx.fillRect(barX, barY, barWidth * Math.max(0, boss.health / maxHealth), barHeight)
+    ctx.strokeStyle = '#ffffff'
+    ctx.lineWidth = 2
+    ctx.strokeRect(barX, barY, barWidth, barHeight)
+  }
+
+  /**
+   * Draw the air meter (empties while submerged)
+   * @param fraction - Air remaining (0-1)
+   */
+  private drawOxygenBar(
+    ctx: CanvasRenderingContext2D,
+    barX: number,
+    barY: number,
+    fraction: number
+  ): void {
+    const barWidth = 120
+    const barHeight = 10
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(barX, barY, barWidth, barHeight)
+    ctx.fillStyle = fraction > 0.25 ? '#63b3ed' : '#e53e3e'
+    ctx.fillRect(barX, barY, barWidth * fraction, barHeight)
+    ctx.strokeStyle = '#ffffff'
+    ctx.lineWidth = 2
+    ctx.strokeRect(barX, barY, barWidth, barHeight)
+  }
+
+  /**
+   * Draw a single HUD heart (custom sprite or procedural)
+   */
+  private drawHeart(
+    ctx: CanvasRenderingContext2D,
+    heartX: number,
+    heartY: number,
+    isFull: boolean,
+    assetStore?: AssetStore
+  ): void {
+    const heartSprite = assetStore?.uiSprites.get('heart')
+    const heartEmptySprite = assetStore?.uiSprites.get('heart_empty')
+
+    // Use custom heart sprites if available
+    if (isFull && heartSprite) {
+      ctx.drawImage(heartSprite, heartX, heartY, 24, 24)
+    } else if (!isFull && heartEmptySprite) {
+      ctx.drawImage(heartEmptySprite, heartX, heartY, 24, 24)
+    } else {
+      // Fall back to procedural heart
+      ctx.fillStyle = isFull ? '#e53e3e' : '#4a5568'
+      ctx.beginPath()
+      ctx.moveTo(heartX + 12, heartY + 6)
+      ctx.bezierCurveTo(heartX + 12, heartY + 2, heartX + 6, heartY, heartX + 6, heartY + 6)
+      ctx.bezierCurveTo(heartX + 6, heartY + 12, heartX + 12, heartY + 18, heartX + 12, heartY + 22)
+      ctx.bezierCurveTo(heartX + 12, heartY + 18, heartX + 18, heartY + 12, heartX + 18, heartY + 6)
+      ctx.bezierCurveTo(heartX + 18, heartY, heartX + 12, heartY + 2, heartX + 12, heartY + 6)
+      ctx.fill()
+    }
+  }
 }
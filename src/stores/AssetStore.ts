@@ -1,5 +1,10 @@
 import { makeAutoObservable, runInAction } from 'mobx'
-import { TileTypeId } from '../core/types/shapes'
+import { TileTypeId, findTileTypeIdByName, setTileSurfaceOverrides, isTileTypePowerUp } from '../core/types/shapes'
+import type { CollisionShape, SurfaceProperties } from '../core/types/shapes'
+import { setPowerUpOverrides, type PowerUpOverride } from '../core/types/powerups'
+import { setPackPhysicsOverrides, type PhysicsOverrides } from '../core/types/physics'
+import { hitboxService } from '../services/HitboxService'
+import { setTileShapeOverrides } from '../services/CollisionUtils'
 
 /**
  * Polygon hitbox definition with normalized coordinates (0-1)
@@ -34,6 +39,12 @@ export interface HitboxDefinition {
   rects?: HitboxRect[]
 }
 
+/**
+ * Power-up in a pack manifest: definition fields plus the name of the
+ * pickup tile that grants it
+ */
+export type PackPowerUp = Omit<PowerUpOverride, 'tileId'> & { tile?: string }
+
 /**
  * Pack manifest format - describes contents of a level pack zip
  */
@@ -59,10 +70,16 @@ export interface PackManifest {
 
   audio?: {
     music?: string
-    sfx?: Record<string, string>  // 'jump' | 'coin' | 'death' | 'goal' -> path
+    sfx?: Record<string, string>  // 'jump' | 'coin' | 'death' | 'hurt' | 'goal' | 'checkpoint' | 'key' | 'unlock' | 'teleport' -> path
   }
 
   hitboxes?: string  // Path to hitboxes.json
+
+  surfaces?: Record<string, SurfaceProperties>  // Tile name -> friction/speed/bounce overrides
+
+  powerUps?: Record<string, PackPowerUp>  // Power-up ID -> new power-up or built-in overrides
+
+  params?: string  // Path to params.json (physics overrides)
 }
 
 /**
@@ -88,6 +105,15 @@ export interface LoadedAssets {
 
   // Hitbox definitions
   hitboxes: Map<string, HitboxDefinition>
+
+  // Surface overrides by tile name
+  surfaces: Map<string, SurfaceProperties>
+
+  // Power-up definitions by ID
+  powerUps: Map<string, PackPowerUp>
+
+  // Physics overrides from params.json
+  physics: PhysicsOverrides
 }
 
 /**
@@ -142,6 +168,15 @@ export class AssetStore {
   /** Custom hitbox definitions */
   hitboxes: Map<string, HitboxDefinition> = new Map()
 
+  /** Custom tile surface properties, by tile name */
+  surfaces: Map<string, SurfaceProperties> = new Map()
+
+  /** Custom power-ups, by power-up ID */
+  powerUps: Map<string, PackPowerUp> = new Map()
+
+  /** Physics overrides for every level in the pack */
+  physics: PhysicsOverrides = {}
+
   /** Raw blob URLs for cleanup */
   private blobUrls: string[] = []
 
@@ -193,6 +228,7 @@ export class AssetStore {
    */
   setHitbox(key: string, hitbox: HitboxDefinition): void {
     this.hitboxes.set(key, hitbox)
+    this.syncTileShapes()
   }
 
   /**
@@ -242,6 +278,7 @@ export class AssetStore {
    */
   addTileSprite(tileTypeId: TileTypeId, image: HTMLImageElement): void {
     this.tileSprites.set(tileTypeId, image)
+    this.syncTileShapes()
   }
 
   /**
@@ -249,6 +286,7 @@ export class AssetStore {
    */
   removeTileSprite(tileTypeId: TileTypeId): void {
     this.tileSprites.delete(tileTypeId)
+    this.syncTileShapes()
   }
 
   /**
@@ -327,6 +365,7 @@ export class AssetStore {
    */
   setHitboxes(hitboxes: Map<string, HitboxDefinition>): void {
     this.hitboxes = hitboxes
+    this.syncTileShapes()
   }
 
   /**
@@ -334,6 +373,59 @@ export class AssetStore {
    */
   addHitbox(key: string, hitbox: HitboxDefinition): void {
     this.hitboxes.set(key, hitbox)
+    this.syncTileShapes()
+  }
+
+  /**
+   * Hand tile hitboxes to the collision system
+   * Keys that name a tile type (same names as sprites.tiles) replace that tile's
+   * collision shape; 'auto' hitboxes are traced from the tile's sprite.
+   */
+  private syncTileShapes(): void {
+    const shapes = new Map<number, CollisionShape>()
+    for (const [key, hitbox] of this.hitboxes) {
+      const tileTypeId = findTileTypeIdByName(key)
+      if (tileTypeId === undefined) continue
+
+      const shape = hitboxService.toCollisionShape(hitbox, this.tileSprites.get(tileTypeId))
+      if (shape) shapes.set(tileTypeId, shape)
+    }
+    setTileShapeOverrides(shapes)
+  }
+
+  /**
+   * Hand tile surface overrides to the physics system
+   */
+  private syncTileSurfaces(): void {
+    const surfaces = new Map<number, SurfaceProperties>()
+    for (const [key, surface] of this.surfaces) {
+      const tileTypeId = findTileTypeIdByName(key)
+      if (tileTypeId !== undefined) surfaces.set(tileTypeId, { ...surface })
+    }
+    setTileSurfaceOverrides(surfaces)
+  }
+
+  /**
+   * Hand pack power-ups to the power-up registry
+   * Tile names resolve to pickup tile IDs; other tiles can't grant power-ups.
+   * Entries without a usable tile keep the built-in's pickup tile.
+   */
+  private syncPowerUps(): void {
+    const overrides = new Map<string, PowerUpOverride>()
+    for (const [id, { tile, ...fields }] of this.powerUps) {
+      const override: PowerUpOverride = { ...fields }
+      const tileId = tile !== undefined ? findTileTypeIdByName(tile) : undefined
+      if (tileId !== undefined && isTileTypePowerUp(tileId)) override.tileId = tileId
+      overrides.set(id, override)
+    }
+    setPowerUpOverrides(overrides)
+  }
+
+  /**
+   * Hand pack physics overrides to the physics profile (levels can override them again)
+   */
+  private syncPhysics(): void {
+    setPackPhysicsOverrides(this.physics)
   }
 
   /**
@@ -366,8 +458,15 @@ export class AssetStore {
       this.music = undefined
       this.sfx.clear()
       this.hitboxes.clear()
+      this.surfaces.clear()
+      this.powerUps.clear()
+      this.physics = {}
       this.blobUrls = []
     })
+    setTileShapeOverrides(new Map())
+    setTileSurfaceOverrides(new Map())
+    setPowerUpOverrides(new Map())
+    setPackPhysicsOverrides({})
   }
 
   /**
@@ -418,6 +517,23 @@ export class AssetStore {
       for (const [key, value] of assets.hitboxes) {
         this.hitboxes.set(key, value)
       }
+
+      // Copy surfaces
+      for (const [key, value] of assets.surfaces) {
+        this.surfaces.set(key, value)
+      }
+
+      // Copy power-ups
+      for (const [key, value] of assets.powerUps) {
+        this.powerUps.set(key, value)
+      }
+
+      // Copy physics overrides
+      this.physics = { ...assets.physics }
     })
+    this.syncTileShapes()
+    this.syncTileSurfaces()
+    this.syncPowerUps()
+    this.syncPhysics()
   }
 }
@@ -46,6 +46,13 @@ export class CameraStore {
     this.clampToBounds()
   }
 
+  /**
+   * Center the camera on a world position instantly (e.g., after a teleport)
+   */
+  centerOn(targetWorldX: number, targetWorldY: number): void {
+    this.setPosition(targetWorldX - this.viewportWidth / 2, targetWorldY - this.viewportHeight / 2)
+  }
+
   /**
    * Set level bounds for camera clamping
    */
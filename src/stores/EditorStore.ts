@@ -1,7 +1,9 @@
 import { makeAutoObservable } from 'mobx'
-import { TileTypeId } from '../core/types'
-import type { GridPosition, LevelDefinition } from '../levels/types'
+import { DEFAULT_CHANNEL } from '../core/constants'
+import { TileTypeId, isTileTypeSwitch, isTileTypeMechanism } from '../core/types'
+import type { ChannelWire, GridPosition, JumpSettings, LevelDefinition, TeleportCamera, TeleporterLink, WinCondition } from '../levels/types'
 import type { EntitySpawn, EntityDirection } from '../core/types/entities'
+import { PHYSICS_PRESETS, type PhysicsOverrides, type PhysicsPresetId } from '../core/types/physics'
 import { createEmptyGrid } from '../levels/helpers'
 
 /**
@@ -29,6 +31,8 @@ interface HistoryEntry {
   collision: number[][]
   playerSpawn: GridPosition
   entitySpawns: EditorEntitySpawn[]
+  wiring: ChannelWire[]
+  teleporters: TeleporterLink[]
 }
 
 /**
@@ -97,6 +101,37 @@ export class EditorStore {
   
   // Counter for generating unique editor entity IDs
   private entityIdCounter: number = 0
+  
+  // Channel assignments for switch/mechanism tiles (default channel is left unwired)
+  wiring: ChannelWire[] = []
+  
+  // Channel given to switches/mechanisms as they are painted
+  selectedChannel: string = DEFAULT_CHANNEL
+  
+  // Teleporter links (each painted teleporter pairs with the last unpaired one)
+  teleporters: TeleporterLink[] = []
+  
+  // Options given to teleporter pairs as they are linked
+  teleportKeepVelocity: boolean = false
+  teleportCamera: TeleportCamera = 'snap'
+  
+  // Player health pool for the level (0 = one-hit deaths)
+  maxHealth: number = 0
+  
+  // How the level is completed (GOAL tile or boss kill)
+  winCondition: WinCondition = 'goal'
+  
+  // Jump forgiveness overrides (omitted fields use the game defaults)
+  jumpSettings: JumpSettings = {}
+  
+  // Seconds of air underwater (0 = unlimited)
+  oxygenTime: number = 0
+  
+  // Keys and opened doors survive a death from the last checkpoint
+  keepKeysAtCheckpoint: boolean = false
+  
+  // Physics overrides (omitted fields use the pack or game defaults)
+  physics: PhysicsOverrides = {}
 
   constructor() {
     makeAutoObservable(this)
@@ -143,6 +178,101 @@ export class EditorStore {
     this.selectedTileType = tileType
   }
 
+  /**
+   * Set the channel for newly painted switches/mechanisms
+   */
+  setSelectedChannel(channel: string): void {
+    this.selectedChannel = channel
+  }
+
+  /**
+   * Set whether newly linked teleporters carry the player's velocity through
+   */
+  setTeleportKeepVelocity(keep: boolean): void {
+    this.teleportKeepVelocity = keep
+  }
+
+  /**
+   * Set how the camera follows newly linked teleporters
+   */
+  setTeleportCamera(camera: TeleportCamera): void {
+    this.teleportCamera = camera
+  }
+
+  /**
+   * Set the level's player health pool (0 = one-hit deaths)
+   */
+  setMaxHealth(maxHealth: number): void {
+    this.maxHealth = Math.max(0, Math.floor(maxHealth) || 0)
+  }
+
+  /**
+   * Set how the level is completed
+   */
+  setWinCondition(winCondition: WinCondition): void {
+    this.winCondition = winCondition
+  }
+
+  /**
+   * Set the level's air supply underwater (0 = unlimited)
+   */
+  setOxygenTime(seconds: number): void {
+    this.oxygenTime = Math.max(0, seconds || 0)
+  }
+
+  /**
+   * Set whether keys held at the last checkpoint survive a death
+   */
+  setKeepKeysAtCheckpoint(keep: boolean): void {
+    this.keepKeysAtCheckpoint = keep
+  }
+
+  /**
+   * Override one jump setting for the level (undefined = game default)
+   */
+  setJumpSetting(key: keyof JumpSettings, value: number | undefined): void {
+    const settings = { ...this.jumpSettings }
+    if (value === undefined || Number.isNaN(value)) {
+      delete settings[key]
+    } else {
+      settings[key] = Math.max(0, value)
+    }
+    this.jumpSettings = settings
+  }
+
+  /**
+   * Override one physics value for the level (undefined = pack or game default)
+   */
+  setPhysicsValue(key: keyof PhysicsOverrides, value: number | undefined): void {
+    const physics = { ...this.physics }
+    if (value === undefined || Number.isNaN(value)) {
+      delete physics[key]
+    } else {
+      physics[key] = value
+    }
+    this.physics = physics
+  }
+
+  /**
+   * Replace the level's physics overrides with a preset (null = game defaults)
+   */
+  applyPhysicsPreset(presetId: PhysicsPresetId | null): void {
+    this.physics = presetId ? { ...PHYSICS_PRESETS[presetId].overrides } : {}
+  }
+
+  /**
+   * Preset matching the current overrides exactly ('default' when there are none)
+   */
+  get physicsPreset(): PhysicsPresetId | 'default' | 'custom' {
+    const keys = Object.keys(this.physics) as (keyof PhysicsOverrides)[]
+    if (keys.length === 0) return 'default'
+
+    const preset = Object.values(PHYSICS_PRESETS).find(({ overrides }) =>
+      Object.keys(overrides).length === keys.length && keys.every(key => overrides[key] === this.physics[key])
+    )
+    return preset?.id ?? 'custom'
+  }
+
   // ============================================
   // Grid Operations
   // ============================================
@@ -165,6 +295,14 @@ export class EditorStore {
     this.entitySpawns = []
     this.selectedEntityId = null
     this.entityIdCounter = 0
+    this.wiring = []
+    this.teleporters = []
+    this.maxHealth = 0
+    this.winCondition = 'goal'
+    this.jumpSettings = {}
+    this.oxygenTime = 0
+    this.keepKeysAtCheckpoint = false
+    this.physics = {}
   }
 
   /**
@@ -191,6 +329,14 @@ export class EditorStore {
       editorId: this.generateEditorEntityId(),
     }))
     this.selectedEntityId = null
+    this.wiring = (level.wiring || []).map(w => ({ ...w }))
+    this.teleporters = (level.teleporters || []).map(t => ({ ...t }))
+    this.maxHealth = level.maxHealth ?? 0
+    this.winCondition = level.winCondition ?? 'goal'
+    this.jumpSettings = { ...level.jumpSettings }
+    this.oxygenTime = level.oxygenTime ?? 0
+    this.keepKeysAtCheckpoint = level.keepKeysAtCheckpoint ?? false
+    this.physics = { ...level.physics }
   }
 
   /**
@@ -212,6 +358,14 @@ export class EditorStore {
       playerSpawn: { ...this.playerSpawn },
       collision: this.collision.map(row => [...row]),
       entities: entities.length > 0 ? entities : undefined,
+      wiring: this.wiring.length > 0 ? this.wiring.map(w => ({ ...w })) : undefined,
+      teleporters: this.teleporters.length > 0 ? this.teleporters.map(t => ({ ...t })) : undefined,
+      maxHealth: this.maxHealth > 0 ? this.maxHealth : undefined,
+      winCondition: this.winCondition === 'boss' ? 'boss' : undefined,
+      jumpSettings: Object.keys(this.jumpSettings).length > 0 ? { ...this.jumpSettings } : undefined,
+      oxygenTime: this.oxygenTime > 0 ? this.oxygenTime : undefined,
+      keepKeysAtCheckpoint: this.keepKeysAtCheckpoint || undefined,
+      physics: Object.keys(this.physics).length > 0 ? { ...this.physics } : undefined,
     }
   }
 
@@ -227,6 +381,8 @@ export class EditorStore {
         position: { ...e.position },
         properties: e.properties ? { ...e.properties } : undefined,
       })),
+      wiring: this.wiring.map(w => ({ ...w })),
+      teleporters: this.teleporters.map(t => ({ ...t })),
     }
     
     this.undoStack.push(entry)
@@ -249,6 +405,8 @@ export class EditorStore {
     
     this.pushHistory()
     this.collision[row][col] = tileType
+    this.updateWire(col, row, tileType)
+    this.updateTeleporter(col, row, tileType)
   }
 
   /**
@@ -257,6 +415,8 @@ export class EditorStore {
   setTileDrag(col: number, row: number, tileType: number): void {
     if (!this.isValidPosition(col, row)) return
     this.collision[row][col] = tileType
+    this.updateWire(col, row, tileType)
+    this.updateTeleporter(col, row, tileType)
   }
 
   /**
@@ -308,6 +468,8 @@ export class EditorStore {
       
       visited.add(key)
       this.collision[row][col] = newType
+      this.updateWire(col, row, newType)
+      this.updateTeleporter(col, row, newType)
       
       // Add neighbors
       queue.push({ col: col + 1, row })
@@ -325,6 +487,74 @@ export class EditorStore {
     return this.collision[row][col]
   }
 
+  /**
+   * Get the channel of a switch/mechanism tile (undefined for other tiles)
+   */
+  getChannelAt(col: number, row: number): string | undefined {
+    const tileId = this.getTileAt(col, row)
+    if (!isTileTypeSwitch(tileId) && !isTileTypeMechanism(tileId)) return undefined
+    return this.wiring.find(w => w.col === col && w.row === row)?.channel ?? DEFAULT_CHANNEL
+  }
+
+  /**
+   * Rewire a tile after painting: switches/mechanisms join the selected channel
+   */
+  private updateWire(col: number, row: number, tileType: number): void {
+    this.wiring = this.wiring.filter(w => w.col !== col || w.row !== row)
+    
+    const channel = this.selectedChannel.trim() || DEFAULT_CHANNEL
+    const isChannelTile = isTileTypeSwitch(tileType) || isTileTypeMechanism(tileType)
+    if (isChannelTile && channel !== DEFAULT_CHANNEL) {
+      this.wiring.push({ col, row, channel })
+    }
+  }
+
+  /**
+   * Get the link of the teleporter at a tile
+   */
+  getTeleporterAt(col: number, row: number): TeleporterLink | undefined {
+    return this.teleporters.find(t => t.col === col && t.row === row)
+  }
+
+  /**
+   * Relink a tile after painting: a new teleporter pairs with the last one
+   * left without a partner (or waits for the next one), and a painted-over
+   * teleporter leaves its partner waiting
+   */
+  private updateTeleporter(col: number, row: number, tileType: number): void {
+    const existing = this.getTeleporterAt(col, row)
+    if (existing && tileType === TileTypeId.TELEPORTER) return
+    
+    if (existing) {
+      this.teleporters = this.teleporters
+        .filter(t => t !== existing)
+        .map(t => t.target === existing.id ? { ...t, target: '' } : t)
+    }
+    if (tileType !== TileTypeId.TELEPORTER) return
+    
+    const ids = new Set(this.teleporters.map(t => t.id))
+    let n = 1
+    while (ids.has(`tp${n}`)) n++
+    const id = `tp${n}`
+    
+    const partner = [...this.teleporters].reverse().find(t => !t.target)
+    if (!partner) {
+      this.teleporters.push({ id, col, row, target: '' })
+      return
+    }
+    
+    const options = {
+      ...(this.teleportKeepVelocity && { keepVelocity: true }),
+      ...(this.teleportCamera === 'pan' && { camera: this.teleportCamera }),
+    }
+    this.teleporters = [
+      ...this.teleporters.map(t => t === partner
+        ? { id: t.id, col: t.col, row: t.row, target: id, ...options }
+        : t),
+      { id, col, row, target: partner.id, ...options },
+    ]
+  }
+
   /**
    * Check if position is within grid bounds
    */
@@ -351,6 +581,8 @@ export class EditorStore {
         position: { ...e.position },
         properties: e.properties ? { ...e.properties } : undefined,
       })),
+      wiring: this.wiring.map(w => ({ ...w })),
+      teleporters: this.teleporters.map(t => ({ ...t })),
     }
     this.redoStack.push(current)
     
@@ -359,6 +591,8 @@ export class EditorStore {
     this.collision = previous.collision
     this.playerSpawn = previous.playerSpawn
     this.entitySpawns = previous.entitySpawns
+    this.wiring = previous.wiring
+    this.teleporters = previous.teleporters
     this.selectedEntityId = null
   }
 
@@ -377,6 +611,8 @@ export class EditorStore {
         position: { ...e.position },
         properties: e.properties ? { ...e.properties } : undefined,
       })),
+      wiring: this.wiring.map(w => ({ ...w })),
+      teleporters: this.teleporters.map(t => ({ ...t })),
     }
     this.undoStack.push(current)
     
@@ -385,6 +621,8 @@ export class EditorStore {
     this.collision = next.collision
     this.playerSpawn = next.playerSpawn
     this.entitySpawns = next.entitySpawns
+    this.wiring = next.wiring
+    this.teleporters = next.teleporters
     this.selectedEntityId = null
   }
 
@@ -488,6 +726,10 @@ export class EditorStore {
     this.entitySpawns = this.entitySpawns.filter(
       e => e.position.col < newWidth && e.position.row < newHeight
     )
+    this.wiring = this.wiring.filter(w => w.col < newWidth && w.row < newHeight)
+    const teleporters = this.teleporters.filter(t => t.col < newWidth && t.row < newHeight)
+    const ids = new Set(teleporters.map(t => t.id))
+    this.teleporters = teleporters.map(t => ids.has(t.target) ? t : { ...t, target: '' })
   }
 
   // ============================================
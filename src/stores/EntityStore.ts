@@ -8,6 +8,7 @@ import type {
 } from '../core/types/entities'
 import { 
   getEntityDefinition, 
+  getWaypointPath,
   generateEntityId,
   resetEntityIdCounter 
 } from '../core/types/entities'
@@ -25,6 +26,9 @@ export class EntityStore {
   /** Original spawn data for level reset */
   private originalSpawns: EntitySpawn[] = []
 
+  /** Inactive projectiles kept for reuse (they spawn and despawn every few frames) */
+  private projectilePool: Entity[] = []
+
   constructor() {
     makeAutoObservable(this)
   }
@@ -48,6 +52,8 @@ export class EntityStore {
       definitionId: definition.id,
       x,
       y,
+      prevX: x,
+      prevY: y,
       vx: 0,
       vy: 0,
       width: definition.width,
@@ -60,7 +66,10 @@ export class EntityStore {
     }
     
     this.entities.set(entity.id, entity)
-    return entity
+    
+    // Return the stored instance - the observable map wraps a copy, so writes
+    // to the plain object (e.g. spawn properties in data) would be lost
+    return this.entities.get(entity.id)!
   }
 
   /**
@@ -87,10 +96,86 @@ export class EntityStore {
     if (spawn.properties?.respawns !== undefined) {
       entity.data.respawns = spawn.properties.respawns
     }
+    if (spawn.properties?.speed !== undefined) {
+      entity.data.speed = spawn.properties.speed
+    }
+    if (spawn.properties?.waveAmplitude !== undefined) {
+      entity.data.waveAmplitude = spawn.properties.waveAmplitude
+    }
+    if (spawn.properties?.wavePeriod !== undefined) {
+      entity.data.wavePeriod = spawn.properties.wavePeriod
+    }
+    if (spawn.properties?.jumpInterval !== undefined) {
+      entity.data.jumpInterval = spawn.properties.jumpInterval
+    }
+    if (spawn.properties?.jumpDirection !== undefined) {
+      entity.data.jumpDirection = spawn.properties.jumpDirection
+    }
+    if (spawn.properties?.fireInterval !== undefined) {
+      entity.data.fireInterval = spawn.properties.fireInterval
+    }
+    if (spawn.properties?.fireMode !== undefined) {
+      entity.data.fireMode = spawn.properties.fireMode
+    }
+    if (spawn.properties?.sightRange !== undefined) {
+      entity.data.sightRange = spawn.properties.sightRange
+    }
+    
+    // Waypoint path in world pixels, heading for the first waypoint
+    // (moving platforms and waypoint-following flyers)
+    if (spawn.properties?.waypoints?.length) {
+      entity.data.path = getWaypointPath(spawn).map(p => ({ x: p.col * TILE_SIZE, y: p.row * TILE_SIZE }))
+      entity.data.pathIndex = 1
+      entity.data.pathStep = 1
+      entity.data.loop = spawn.properties.loop ?? false
+    }
     
     return entity
   }
 
+  /**
+   * Fire a projectile, reusing a pooled one when available
+   * @param x - Center X in world pixels
+   * @param y - Center Y in world pixels
+   * @param ownerId - Entity that fired it
+   */
+  spawnProjectile(x: number, y: number, vx: number, vy: number, ownerId: string): Entity {
+    const definition = getEntityDefinition('projectile')!
+    const left = x - definition.width / 2
+    const top = y - definition.height / 2
+    const direction: EntityDirection = vx < 0 ? 'left' : 'right'
+
+    const pooled = this.projectilePool.pop()
+    if (!pooled) {
+      const entity = this.spawn(definition, left, top, direction)
+      entity.vx = vx
+      entity.vy = vy
+      entity.data = { ownerId, age: 0 }
+      return entity
+    }
+
+    pooled.x = left
+    pooled.y = top
+    pooled.prevX = left
+    pooled.prevY = top
+    pooled.vx = vx
+    pooled.vy = vy
+    pooled.direction = direction
+    pooled.health = definition.health
+    pooled.data = { ownerId, age: 0 }
+    pooled.isActive = true
+    return pooled
+  }
+
+  /**
+   * Return a projectile to the pool (stays in the map, inactive)
+   */
+  releaseProjectile(entity: Entity): void {
+    if (!entity.isActive) return
+    entity.isActive = false
+    this.projectilePool.push(entity)
+  }
+
   /**
    * Remove an entity from the world
    */
@@ -98,6 +183,17 @@ export class EntityStore {
     this.entities.delete(id)
   }
 
+  /**
+   * Snapshot entity positions as interpolation start points
+   * Called at the start of each fixed simulation step
+   */
+  savePreviousPositions(): void {
+    for (const entity of this.entities.values()) {
+      entity.prevX = entity.x
+      entity.prevY = entity.y
+    }
+  }
+
   /**
    * Deactivate an entity (keeps it but stops updates)
    */
@@ -140,6 +236,34 @@ export class EntityStore {
     return this.getActive().filter(e => e.type.startsWith('enemy_'))
   }
 
+  /**
+   * Get all active bosses
+   */
+  getActiveBosses(): Entity[] {
+    return this.getActive().filter(e => e.type === 'enemy_boss')
+  }
+
+  /**
+   * Get all active projectiles
+   */
+  getActiveProjectiles(): Entity[] {
+    return this.getActive().filter(e => e.type === 'projectile')
+  }
+
+  /**
+   * Get all active moving platforms
+   */
+  getActivePlatforms(): Entity[] {
+    return this.getActive().filter(e => e.type === 'platform_moving')
+  }
+
+  /**
+   * Get all active crates
+   */
+  getActiveCrates(): Entity[] {
+    return this.getActive().filter(e => e.type === 'crate')
+  }
+
   /**
    * Count of active entities
    */
@@ -186,6 +310,7 @@ export class EntityStore {
    */
   clear(): void {
     this.entities.clear()
+    this.projectilePool = []
   }
 
   /**
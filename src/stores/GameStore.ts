@@ -1,5 +1,6 @@
 import { makeAutoObservable } from 'mobx'
 import { DEFAULT_LIVES } from '../core/constants'
+import type { KeyColor } from '../core/types/shapes'
 import type { GridPosition } from '../levels/types'
 import { audioService } from '../services/AudioService'
 
@@ -7,7 +8,7 @@ import { audioService } from '../services/AudioService'
  * GameStore - Top-level game state
  * 
  * Manages game running state, level completion, lives, checkpoints,
- * and coin economy.
+ * coin economy and the key inventory.
  */
 export class GameStore {
   // Game state
@@ -50,6 +51,10 @@ export class GameStore {
   levelCompletionCount: Record<string, number> = {}  // Times completed per level
   lastCompletionEarnings = 0  // Earnings from last level completion (for subsequent calls)
   
+  // Key inventory (per attempt, count by key color)
+  keys: Partial<Record<KeyColor, number>> = {}
+  private checkpointKeys: Partial<Record<KeyColor, number>> = {}  // Keys held at the last checkpoint
+  
   // Current level ID for tracking
   currentLevelId: string | null = null
 
@@ -142,6 +147,8 @@ export class GameStore {
     this.lastCheckpoint = null
     this.coinsThisAttempt = 0
     this.lastCompletionEarnings = 0
+    this.keys = {}
+    this.checkpointKeys = {}
   }
 
   /**
@@ -199,8 +206,9 @@ export class GameStore {
   onPlayerDeath(): void {
     this.lives -= 1
     
-    // Reset coins collected this attempt
+    // Reset coins and keys collected this attempt
     this.coinsThisAttempt = 0
+    this.keys = {}
     
     if (this.lives <= 0) {
       this.gameOver()
@@ -229,17 +237,22 @@ export class GameStore {
 
   /**
    * Set checkpoint position
+   * Remembers the keys held, for levels that keep them at checkpoints.
+   * @returns true if this is a new checkpoint
    */
-  setCheckpoint(col: number, row: number): void {
+  setCheckpoint(col: number, row: number): boolean {
     // Only set if different from current checkpoint
     if (!this.lastCheckpoint || 
         this.lastCheckpoint.col !== col || 
         this.lastCheckpoint.row !== row) {
       this.lastCheckpoint = { col, row }
+      this.checkpointKeys = { ...this.keys }
       
       // Play checkpoint sound effect
       audioService.playSfx('checkpoint')
+      return true
     }
+    return false
   }
 
   // ============================================
@@ -256,6 +269,51 @@ export class GameStore {
     audioService.playSfx('coin')
   }
 
+  // ============================================
+  // Keys
+  // ============================================
+
+  /**
+   * Add a key to the inventory
+   */
+  collectKey(color: KeyColor): void {
+    this.keys = { ...this.keys, [color]: this.getKeyCount(color) + 1 }
+    audioService.playSfx('key')
+  }
+
+  /**
+   * Use up a key to open a locked door
+   * @returns false if no key of that color is held
+   */
+  useKey(color: KeyColor): boolean {
+    const count = this.getKeyCount(color)
+    if (count === 0) return false
+    
+    const keys = { ...this.keys }
+    if (count === 1) {
+      delete keys[color]
+    } else {
+      keys[color] = count - 1
+    }
+    this.keys = keys
+    audioService.playSfx('unlock')
+    return true
+  }
+
+  /**
+   * Number of keys of a color held
+   */
+  getKeyCount(color: KeyColor): number {
+    return this.keys[color] ?? 0
+  }
+
+  /**
+   * Give back the keys held at the last checkpoint (after a death, in levels that keep them)
+   */
+  restoreCheckpointKeys(): void {
+    this.keys = { ...this.checkpointKeys }
+  }
+
   /**
    * Get replay multiplier for current level
    */
@@ -281,6 +339,8 @@ export class GameStore {
     this.lastCheckpoint = null
     this.coinsThisAttempt = 0
     this.lastCompletionEarnings = 0
+    this.keys = {}
+    this.checkpointKeys = {}
   }
 
   /**
@@ -1,8 +1,51 @@
 import { makeAutoObservable } from 'mobx'
-import { TILE_SIZE } from '../core/constants'
+import { TILE_SIZE, TIMED_SWITCH_DURATION, DEFAULT_CHANNEL } from '../core/constants'
 import { CollisionType, type LevelData, type Vector2 } from '../core/types'
-import { TileTypeId, isTileTypeSolid, isTileTypeHazard, isTileTypePlatform } from '../core/types/shapes'
-import type { LevelDefinition } from '../levels/types'
+import {
+  TileTypeId,
+  isTileTypeSolid,
+  isTileTypeHazard,
+  isTileTypePlatform,
+  isTileTypeSwitch,
+  isTileTypeMechanism,
+  getMechanismTile,
+  getTileCrumble,
+  isTileTypeKey,
+  isTileTypeLockedDoor,
+} from '../core/types/shapes'
+import { getPhysicsProfile, setLevelPhysicsOverrides, type PhysicsOverrides } from '../core/types/physics'
+import type { ChannelWire, GridPosition, JumpSettings, LevelDefinition, TeleporterLink, WinCondition } from '../levels/types'
+
+/**
+ * Key for per-tile lookups
+ */
+function tileKey(col: number, row: number): string {
+  return `${col},${row}`
+}
+
+/**
+ * Crumbling tile phases
+ * - shaking: still solid, gives way when the timer runs out
+ * - falling: already gone from the grid, drawn dropping out of the level
+ * - gone: waiting to regenerate (or gone for the rest of the attempt)
+ */
+export type CrumblePhase = 'shaking' | 'falling' | 'gone'
+
+/**
+ * Runtime state of a crumbling tile that has been stood on
+ */
+export interface CrumbleState {
+  col: number
+  row: number
+  /** Tile restored when it regenerates */
+  tileId: number
+  phase: CrumblePhase
+  /** Seconds until it gives way (shaking) or regenerates (falling, gone) */
+  timer: number
+  /** Pixels fallen below its row, and fall speed (falling) */
+  fallOffset: number
+  fallSpeed: number
+}
 
 /**
  * LevelStore - Level data and collision queries
@@ -34,6 +77,46 @@ export class LevelStore {
   
   // Starting lives for this level
   startingLives = 3
+  
+  // Player health pool for this level (0 = one-hit deaths)
+  maxHealth = 0
+  
+  // How the level is completed
+  winCondition: WinCondition = 'goal'
+  
+  // Jump forgiveness overrides for this level (empty = defaults)
+  jumpSettings: JumpSettings = {}
+  
+  // Seconds of air underwater (0 = unlimited)
+  oxygenTime = 0
+  
+  // Keys and opened doors survive a death from the last checkpoint
+  keepKeysAtCheckpoint = false
+  
+  // Physics overrides for this level (empty = pack or game defaults)
+  physics: PhysicsOverrides = {}
+  
+  // Channel assignment of every switch and mechanism tile (by tile key)
+  private channelTiles: Map<string, ChannelWire> = new Map()
+  
+  // Channels currently switched on
+  activeChannels: Set<string> = new Set()
+  
+  // Runtime switch state (by tile key)
+  private toggledSwitches: Set<string> = new Set()
+  private touchedSwitches: Set<string> = new Set()
+  private switchTimers: Map<string, number> = new Map()
+  private lockedArenas: Set<string> = new Set()
+  private arenaCleared = false
+  
+  // Teleporter links (by tile key)
+  private teleporters: Map<string, TeleporterLink> = new Map()
+  
+  // Runtime state of crumbling tiles that have been stood on (by tile key)
+  crumbles: Map<string, CrumbleState> = new Map()
+  
+  // Key and locked door tiles as they were at the last checkpoint (by tile key)
+  private checkpointTiles: Map<string, number> = new Map()
 
   constructor() {
     makeAutoObservable(this)
@@ -100,10 +183,21 @@ export class LevelStore {
     this.width = level.width
     this.height = level.height
     this.startingLives = level.startingLives ?? 3
+    this.maxHealth = level.maxHealth ?? 0
+    this.winCondition = level.winCondition ?? 'goal'
+    this.jumpSettings = { ...level.jumpSettings }
+    this.oxygenTime = level.oxygenTime ?? 0
+    this.keepKeysAtCheckpoint = level.keepKeysAtCheckpoint ?? false
+    this.physics = { ...level.physics }
+    setLevelPhysicsOverrides(this.physics)
     
     // Deep copy collision grid (no conversion needed - new format uses TileTypeId directly)
     this.collision = level.collision.map(row => [...row])
     this.originalCollision = level.collision.map(row => [...row])
+    this.buildChannels(level.wiring ?? [])
+    this.teleporters = new Map((level.teleporters ?? []).map(t => [tileKey(t.col, t.row), { ...t }]))
+    this.resetCrumbles()
+    this.checkpointTiles = new Map()
     
     this.playerSpawn = {
       x: level.playerSpawn.col * TILE_SIZE,
@@ -137,13 +231,331 @@ export class LevelStore {
     this.currentLevelId = null
     this.currentLevelName = null
     this.startingLives = 3
+    this.maxHealth = 0
+    this.winCondition = 'goal'
+    this.jumpSettings = {}
+    this.oxygenTime = 0
+    this.keepKeysAtCheckpoint = false
+    this.physics = {}
+    setLevelPhysicsOverrides()
+    this.buildChannels([])
+    this.teleporters = new Map()
+    this.resetCrumbles()
+    this.checkpointTiles = new Map()
   }
 
   /**
-   * Reset level to original state (restores collected items)
+   * Reset level to original state (restores collected items, switches, doors and crumbled tiles)
+   * @param fromCheckpoint - Keep keys taken and doors opened before the last checkpoint (respawns)
    */
-  resetToOriginal(): void {
+  resetToOriginal(fromCheckpoint = false): void {
     this.collision = this.originalCollision.map(row => [...row])
+    this.resetSwitches()
+    this.resetCrumbles()
+    
+    if (!fromCheckpoint) {
+      this.checkpointTiles = new Map()
+      return
+    }
+    for (const [key, tileId] of this.checkpointTiles) {
+      const [col, row] = key.split(',').map(Number)
+      this.setTileAt(col, row, tileId)
+    }
+  }
+
+  // ============================================
+  // Keys & Locked Doors
+  // ============================================
+
+  /**
+   * Remember which keys are taken and doors opened, for respawning at this checkpoint
+   */
+  saveCheckpointTiles(): void {
+    this.checkpointTiles = new Map()
+    for (let row = 0; row < this.height; row++) {
+      for (let col = 0; col < this.width; col++) {
+        const tileId = this.originalCollision[row][col]
+        if (!isTileTypeKey(tileId) && !isTileTypeLockedDoor(tileId)) continue
+        if (this.collision[row][col] !== tileId) {
+          this.checkpointTiles.set(tileKey(col, row), this.collision[row][col])
+        }
+      }
+    }
+  }
+
+  /**
+   * Open a locked door: the touched tile and every connected tile of the same door
+   * (a tall or wide door takes a single key)
+   */
+  unlockDoorAt(col: number, row: number): void {
+    const doorId = this.getTileAt(col, row)
+    if (!isTileTypeLockedDoor(doorId)) return
+    
+    const pending: GridPosition[] = [{ col, row }]
+    while (pending.length > 0) {
+      const tile = pending.pop()!
+      if (tile.col < 0 || tile.col >= this.width || tile.row < 0 || tile.row >= this.height) continue
+      if (this.collision[tile.row][tile.col] !== doorId) continue
+      
+      this.setTileAt(tile.col, tile.row, TileTypeId.EMPTY)
+      pending.push(
+        { col: tile.col - 1, row: tile.row },
+        { col: tile.col + 1, row: tile.row },
+        { col: tile.col, row: tile.row - 1 },
+        { col: tile.col, row: tile.row + 1 },
+      )
+    }
+  }
+
+  // ============================================
+  // Switches & Channels
+  // ============================================
+
+  /**
+   * Assign every switch and mechanism tile to its wired (or default) channel
+   */
+  private buildChannels(wiring: ChannelWire[]): void {
+    const wires = new Map(wiring.map(w => [tileKey(w.col, w.row), w]))
+    
+    this.channelTiles = new Map()
+    for (let row = 0; row < this.height; row++) {
+      for (let col = 0; col < this.width; col++) {
+        const tileId = this.originalCollision[row][col]
+        if (!isTileTypeSwitch(tileId) && !isTileTypeMechanism(tileId)) continue
+        
+        const key = tileKey(col, row)
+        const wire = wires.get(key)
+        this.channelTiles.set(key, {
+          col,
+          row,
+          channel: wire?.channel || DEFAULT_CHANNEL,
+          duration: wire?.duration,
+        })
+      }
+    }
+    this.resetSwitches()
+  }
+
+  /**
+   * Turn all switches off
+   */
+  private resetSwitches(): void {
+    this.toggledSwitches = new Set()
+    this.touchedSwitches = new Set()
+    this.switchTimers = new Map()
+    this.lockedArenas = new Set()
+    this.arenaCleared = false
+    this.activeChannels = new Set()
+  }
+
+  /**
+   * Advance switch state for one simulation step
+   * @param touched - Switch tiles the player overlaps this step
+   */
+  updateSwitches(touched: GridPosition[], deltaTime: number): void {
+    // Timed switches count down
+    for (const [key, remaining] of this.switchTimers) {
+      if (remaining - deltaTime <= 0) {
+        this.switchTimers.delete(key)
+      } else {
+        this.switchTimers.set(key, remaining - deltaTime)
+      }
+    }
+    
+    const touchedNow = new Set<string>()
+    for (const { col, row } of touched) {
+      const key = tileKey(col, row)
+      const wire = this.channelTiles.get(key)
+      if (!wire) continue
+      touchedNow.add(key)
+      
+      const tileId = this.getTileAt(col, row)
+      if (tileId === TileTypeId.SWITCH_TOGGLE && !this.touchedSwitches.has(key)) {
+        // Toggle once per touch, not every step while overlapping
+        if (this.toggledSwitches.has(key)) {
+          this.toggledSwitches.delete(key)
+        } else {
+          this.toggledSwitches.add(key)
+        }
+      } else if (tileId === TileTypeId.SWITCH_TIMED) {
+        this.switchTimers.set(key, wire.duration ?? TIMED_SWITCH_DURATION)
+      } else if (tileId === TileTypeId.SWITCH_ARENA_LOCK && !this.arenaCleared) {
+        this.lockedArenas.add(key)
+      }
+    }
+    this.touchedSwitches = touchedNow
+    
+    this.refreshChannels()
+  }
+
+  /**
+   * Release every arena lock once the bosses are defeated
+   * Locks stay released for the rest of the attempt.
+   */
+  releaseArenaLocks(): void {
+    this.arenaCleared = true
+    this.lockedArenas = new Set()
+    this.refreshChannels()
+  }
+
+  /**
+   * Recompute channel states and swap mechanism tiles whose channel changed
+   */
+  private refreshChannels(): void {
+    const active = new Set<string>()
+    for (const [key, wire] of this.channelTiles) {
+      if (this.isSwitchOnAt(key, this.getTileAt(wire.col, wire.row))) {
+        active.add(wire.channel)
+      }
+    }
+    
+    const changed = active.size !== this.activeChannels.size ||
+      [...active].some(channel => !this.activeChannels.has(channel))
+    if (!changed) return
+    
+    this.activeChannels = active
+    for (const wire of this.channelTiles.values()) {
+      const tileId = this.getTileAt(wire.col, wire.row)
+      if (!isTileTypeMechanism(tileId)) continue
+      
+      const nextId = getMechanismTile(tileId, active.has(wire.channel))
+      if (nextId !== tileId) {
+        this.setTileAt(wire.col, wire.row, nextId)
+      }
+    }
+  }
+
+  /**
+   * Check whether a switch tile is currently on
+   */
+  private isSwitchOnAt(key: string, tileId: number): boolean {
+    switch (tileId) {
+      case TileTypeId.SWITCH_PRESSURE_PLATE:
+        return this.touchedSwitches.has(key)
+      case TileTypeId.SWITCH_TOGGLE:
+        return this.toggledSwitches.has(key)
+      case TileTypeId.SWITCH_TIMED:
+        return this.switchTimers.has(key)
+      case TileTypeId.SWITCH_ARENA_LOCK:
+        return this.lockedArenas.has(key)
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Check whether the switch at grid coordinates is on (for rendering)
+   */
+  isSwitchOn(col: number, row: number): boolean {
+    return this.isSwitchOnAt(tileKey(col, row), this.getTileAt(col, row))
+  }
+
+  /**
+   * Get the channel of a switch or mechanism tile
+   */
+  getChannelAt(col: number, row: number): string | undefined {
+    return this.channelTiles.get(tileKey(col, row))?.channel
+  }
+
+  /**
+   * Check whether a channel is currently on
+   */
+  isChannelActive(channel: string): boolean {
+    return this.activeChannels.has(channel)
+  }
+
+  // ============================================
+  // Teleporters
+  // ============================================
+
+  /**
+   * Get the link of the teleporter at grid coordinates
+   */
+  getTeleporterAt(col: number, row: number): TeleporterLink | undefined {
+    return this.teleporters.get(tileKey(col, row))
+  }
+
+  /**
+   * Get the link of the teleporter that the one at grid coordinates sends to
+   */
+  getTeleportTarget(col: number, row: number): TeleporterLink | undefined {
+    const link = this.getTeleporterAt(col, row)
+    if (!link) return undefined
+    for (const target of this.teleporters.values()) {
+      if (target.id === link.target) return target
+    }
+    return undefined
+  }
+
+  // ============================================
+  // Crumbling Tiles
+  // ============================================
+
+  /**
+   * Forget all crumbling tile state (the grid itself is restored separately)
+   */
+  private resetCrumbles(): void {
+    this.crumbles = new Map()
+  }
+
+  /**
+   * Advance crumbling tiles for one simulation step
+   * @param stoodOn - Crumbling tiles the player stands on this step (start shaking)
+   * @param occupied - Tiles the player, crates or enemies overlap (regenerating tiles wait until they are clear)
+   */
+  updateCrumbles(stoodOn: GridPosition[], occupied: GridPosition[], deltaTime: number): void {
+    for (const { col, row } of stoodOn) {
+      const key = tileKey(col, row)
+      const crumble = getTileCrumble(this.getTileAt(col, row))
+      if (!crumble || this.crumbles.has(key)) continue
+
+      this.crumbles.set(key, {
+        col,
+        row,
+        tileId: this.getTileAt(col, row),
+        phase: 'shaking',
+        timer: crumble.delay,
+        fallOffset: 0,
+        fallSpeed: 0,
+      })
+    }
+
+    const blocked = new Set(occupied.map(({ col, row }) => tileKey(col, row)))
+    for (const [key, state] of this.crumbles) {
+      state.timer -= deltaTime
+      const crumble = getTileCrumble(state.tileId)
+
+      if (state.phase === 'shaking') {
+        if (state.timer > 0) continue
+        // Give way: the tile leaves the grid, then counts down to regenerating
+        this.setTileAt(state.col, state.row, TileTypeId.EMPTY)
+        state.phase = crumble?.falls ? 'falling' : 'gone'
+        state.timer = crumble?.regenerateAfter ?? Infinity
+        continue
+      }
+
+      if (state.phase === 'falling') {
+        const { gravity, maxFallSpeed } = getPhysicsProfile()
+        state.fallSpeed = Math.min(state.fallSpeed + gravity * deltaTime, maxFallSpeed)
+        state.fallOffset += state.fallSpeed * deltaTime
+        if ((state.row * TILE_SIZE) + state.fallOffset >= this.levelHeight) {
+          state.phase = 'gone'
+        }
+      }
+
+      // Regrow once the timer is up and nothing stands in the tile's space
+      if (state.timer <= 0 && !blocked.has(key)) {
+        this.setTileAt(state.col, state.row, state.tileId)
+        this.crumbles.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Get the runtime state of a crumbling tile (undefined if it hasn't been stood on)
+   */
+  getCrumbleAt(col: number, row: number): CrumbleState | undefined {
+    return this.crumbles.get(tileKey(col, row))
   }
 
   /**
@@ -260,7 +672,15 @@ export class LevelStore {
         row: Math.floor(this.playerSpawn.y / TILE_SIZE),
       },
       collision: this.collision.map(row => [...row]),
+      wiring: [...this.channelTiles.values()].map(w => ({ ...w })),
+      teleporters: this.teleporters.size > 0 ? [...this.teleporters.values()].map(t => ({ ...t })) : undefined,
       startingLives: this.startingLives,
+      maxHealth: this.maxHealth || undefined,
+      winCondition: this.winCondition === 'boss' ? 'boss' : undefined,
+      jumpSettings: Object.keys(this.jumpSettings).length > 0 ? { ...this.jumpSettings } : undefined,
+      oxygenTime: this.oxygenTime || undefined,
+      keepKeysAtCheckpoint: this.keepKeysAtCheckpoint || undefined,
+      physics: Object.keys(this.physics).length > 0 ? { ...this.physics } : undefined,
     }
   }
 }
@@ -1,17 +1,33 @@
 import { makeAutoObservable } from 'mobx'
 import { 
-  PLAYER_SPEED, 
-  JUMP_VELOCITY, 
   PLAYER_WIDTH, 
   PLAYER_HEIGHT, 
-  TRIPLE_JUMP_DURATION,
-  SPEED_BOOST_DURATION,
-  SUPER_JUMP_DURATION,
-  INVINCIBILITY_DURATION,
-  SPEED_BOOST_MULTIPLIER,
-  SUPER_JUMP_MULTIPLIER,
+  HURT_INVULNERABILITY_DURATION,
+  KNOCKBACK_DURATION,
+  KNOCKBACK_VELOCITY_X,
+  KNOCKBACK_VELOCITY_Y,
+  COYOTE_TIME,
+  JUMP_BUFFER_TIME,
+  JUMP_CUT_MULTIPLIER,
+  WALL_JUMP_VELOCITY_X,
+  WALL_JUMP_VELOCITY_Y,
+  WALL_JUMP_LOCK_DURATION,
+  SWIM_STROKE_VELOCITY,
+  OXYGEN_REFILL_RATE,
+  CLIMB_SPEED,
+  LAUNCH_LOCK_DURATION,
+  DROP_THROUGH_DURATION,
+  TELEPORT_COOLDOWN,
 } from '../core/constants'
 import type { InputState, Vector2 } from '../core/types'
+import type { JumpSettings } from '../levels/types'
+import {
+  combinePowerUpEffects,
+  getPowerUpDefinition,
+  getStackedDuration,
+  type PowerUpEffects,
+} from '../core/types/powerups'
+import { getPhysicsProfile } from '../core/types/physics'
 import { audioService } from '../services/AudioService'
 
 /**
@@ -29,6 +45,13 @@ export class PlayerStore {
   vx = 0
   vy = 0
   
+  // Horizontal speed the input steers toward; physics eases vx to it per the surface underfoot
+  targetVx = 0
+  
+  // Position at the start of the current simulation step (for render interpolation)
+  prevX = 0
+  prevY = 0
+  
   // State flags
   isGrounded = false
   isFacingRight = true
@@ -46,21 +69,52 @@ export class PlayerStore {
   baseMaxJumps = 1
   jumpsRemaining = 1
   
-  // Triple jump power-up
-  hasTripleJump = false
-  tripleJumpTimer = 0  // Seconds remaining
+  // Jump feel - set per level
+  coyoteTime = COYOTE_TIME
+  jumpBufferTime = JUMP_BUFFER_TIME
+  jumpCutMultiplier = JUMP_CUT_MULTIPLIER
+  hasGroundJump = true    // Ground jump not yet spent since the last landing
+  coyoteTimer = 0         // Seconds the unspent ground jump survives in the air
+  jumpBufferTimer = 0     // Seconds an early jump press stays queued
+  canCutJump = false      // Current rise came from a jump and can still be cut short
+  
+  // Wall slide & wall jump - unlocked per level
+  wallJumpUnlocked = false
+  wallContact = 0         // Side of the wall being touched (-1 left, 1 right, 0 none), set by physics
+  wallJumpTimer = 0       // Seconds horizontal input is ignored after a wall jump
+  
+  // Springs & bounce pads
+  launchTimer = 0         // Seconds horizontal input is ignored after a sideways launch
+  
+  // One-way platforms - down+jump drops through the one underfoot
+  onPlatform = false      // Standing only on one-way platforms, set by physics
+  dropThroughTimer = 0    // Seconds one-way platforms are ignored after dropping
+  
+  // Teleporters - stepping on one sends the player to its partner
+  onTeleporter = false      // Overlapping a teleporter tile, set by physics
+  teleportCooldown = 0      // Seconds until teleporters work again (counts down off the pads)
+  cameraSnapPending = false // Camera should jump to the player next frame instead of panning
   
-  // Speed boost power-up
-  hasSpeedBoost = false
-  speedBoostTimer = 0
+  // Swimming - set by physics from the liquid tiles around the player
+  inLiquid = false        // Center is inside a liquid (jump presses become swim strokes)
+  isSubmerged = false     // Head is under the surface (uses up oxygen)
   
-  // Super jump power-up
-  hasSuperJump = false
-  superJumpTimer = 0
+  // Climbing - grabbed with up/down while overlapping a ladder or vine
+  onClimbable = false     // Overlapping a climbable or hanging at its top, set by physics
+  isClimbing = false      // Holding on: gravity is suspended and up/down move vertically
   
-  // Invincibility power-up
-  hasInvincibility = false
-  invincibilityTimer = 0
+  // Air supply - set per level, 0 means unlimited
+  maxOxygen = 0
+  oxygen = 0
+  
+  // Active power-ups: definition ID -> seconds remaining
+  activePowerUps: Map<string, number> = new Map()
+  
+  // Health pool - set per level, 0 means any damage is a death
+  maxHealth = 0
+  health = 0
+  hurtTimer = 0       // I-frame seconds remaining after taking damage
+  knockbackTimer = 0  // Seconds horizontal input is ignored after knockback
 
   constructor() {
     makeAutoObservable(this)
@@ -72,45 +126,129 @@ export class PlayerStore {
   setPosition(pos: Vector2): void {
     this.x = pos.x
     this.y = pos.y
+    this.savePreviousPosition()
+  }
+
+  /**
+   * Snapshot current position as the interpolation start point
+   * Called at the start of each fixed simulation step
+   */
+  savePreviousPosition(): void {
+    this.prevX = this.x
+    this.prevY = this.y
+  }
+
+  /**
+   * Get render position blended between previous and current simulation steps
+   * @param alpha - Interpolation factor (0 = previous step, 1 = current step)
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return {
+      x: this.prevX + (this.x - this.prevX) * alpha,
+      y: this.prevY + (this.y - this.prevY) * alpha,
+    }
   }
 
   /**
    * Apply input state to set intended velocity
-   * Called each frame before physics update
+   * Called each frame before physics update, which moves vx toward targetVx.
    */
   applyInput(input: InputState): void {
     if (this.isDead) return
 
     // Calculate effective speed (with speed boost if active)
-    const effectiveSpeed = this.hasSpeedBoost 
-      ? PLAYER_SPEED * SPEED_BOOST_MULTIPLIER 
-      : PLAYER_SPEED
+    const { playerSpeed, jumpVelocity } = getPhysicsProfile()
+    const effectiveSpeed = playerSpeed * this.powerUpEffects.speedMultiplier
 
-    // Horizontal movement
-    if (input.left && !input.right) {
-      this.vx = -effectiveSpeed
+    // Horizontal movement (knockback, wall jump kicks and pad launches override input briefly)
+    if (this.knockbackTimer > 0 || this.wallJumpTimer > 0 || this.launchTimer > 0) {
+      // Keep knockback/kick/launch velocity
+    } else if (input.left && !input.right) {
+      this.targetVx = -effectiveSpeed
       this.isFacingRight = false
     } else if (input.right && !input.left) {
-      this.vx = effectiveSpeed
+      this.targetVx = effectiveSpeed
       this.isFacingRight = true
     } else {
-      this.vx = 0
+      this.targetVx = 0
+    }
+
+    // Grab a climbable with up (or down while airborne); reaching the ground lets go
+    if (!this.isClimbing && this.onClimbable && (input.up || (input.down && !this.isGrounded))) {
+      this.isClimbing = true
+      this.canCutJump = false
+      this.refillJumps()
+    } else if (this.isClimbing && this.isGrounded && !input.up) {
+      this.isClimbing = false
+    }
+
+    if (this.isClimbing) {
+      if (input.up && !input.down) this.vy = -CLIMB_SPEED
+      else if (input.down && !input.up) this.vy = CLIMB_SPEED
+      else this.vy = 0
     }
 
-    // Jump (uses jumpsRemaining for double jump support)
-    if (input.jumpJustPressed && this.jumpsRemaining > 0) {
+    // Up doubles as jump, so holding it on a climbable climbs instead of jumping off
+    const climbingUp = this.isClimbing && input.up
+    if (climbingUp) {
+      this.jumpBufferTimer = 0
+    } else if (input.jumpJustPressed) {
+      // Queue the press so one made just before landing still counts
+      this.jumpBufferTimer = this.jumpBufferTime
+    }
+
+    const wantsJump = !climbingUp && (input.jumpJustPressed || this.jumpBufferTimer > 0)
+
+    // Down+jump on a one-way platform drops through it (like walking off a ledge,
+    // so the ground jump survives for the coyote window),
+    // a swim stroke in a liquid leaps out at full jump height from the surface,
+    // a wall jump when airborne against a wall (neither uses up jumpsRemaining),
+    // otherwise a regular jump (uses jumpsRemaining for double jump support).
+    // Strokes and regular jumps also let go of a climbable.
+    if (wantsJump && input.down && this.onPlatform && this.isGrounded && !this.isClimbing) {
+      this.dropThroughTimer = DROP_THROUGH_DURATION
+      this.isGrounded = false
+      this.onPlatform = false
+      this.jumpBufferTimer = 0
+    } else if (wantsJump && this.inLiquid) {
+      this.vy = this.isSubmerged ? SWIM_STROKE_VELOCITY : jumpVelocity
+      this.isClimbing = false
+      this.jumpBufferTimer = 0
+      this.canCutJump = false
+
+      audioService.playSfx('jump')
+    } else if (wantsJump && this.canWallJump) {
+      this.vx = -this.wallContact * WALL_JUMP_VELOCITY_X
+      this.targetVx = this.vx
+      this.vy = WALL_JUMP_VELOCITY_Y
+      this.isFacingRight = this.wallContact < 0
+      this.wallContact = 0
+      this.wallJumpTimer = WALL_JUMP_LOCK_DURATION
+      this.jumpBufferTimer = 0
+      this.canCutJump = true
+
+      audioService.playSfx('jump')
+    } else if (wantsJump && this.jumpsRemaining > 0) {
       // Calculate effective jump velocity (with super jump if active)
-      const effectiveJumpVelocity = this.hasSuperJump
-        ? JUMP_VELOCITY * SUPER_JUMP_MULTIPLIER
-        : JUMP_VELOCITY
-      
-      this.vy = effectiveJumpVelocity
+      this.vy = jumpVelocity * this.powerUpEffects.jumpMultiplier
       this.jumpsRemaining -= 1
       this.isGrounded = false
+      this.isClimbing = false
+      this.hasGroundJump = false
+      this.jumpBufferTimer = 0
+      this.canCutJump = true
       
       // Play jump sound effect
       audioService.playSfx('jump')
     }
+
+    // Releasing jump while still rising cuts the jump short (once per jump)
+    if (this.vy >= 0) {
+      this.canCutJump = false
+    } else if (this.canCutJump && !input.jump) {
+      this.vy *= this.jumpCutMultiplier
+      this.canCutJump = false
+    }
   }
 
   /**
@@ -118,48 +256,80 @@ export class PlayerStore {
    * Called each frame with deltaTime
    */
   updatePowerUps(deltaTime: number): void {
-    // Triple jump timer
-    if (this.hasTripleJump && this.tripleJumpTimer > 0) {
-      this.tripleJumpTimer -= deltaTime
-      
-      if (this.tripleJumpTimer <= 0) {
-        this.hasTripleJump = false
-        this.tripleJumpTimer = 0
-        // Don't reset jumpsRemaining mid-air
+    for (const [id, remaining] of this.activePowerUps) {
+      if (remaining - deltaTime <= 0) {
+        // Expiring jump power-ups don't take away jumpsRemaining mid-air
+        this.activePowerUps.delete(id)
+      } else {
+        this.activePowerUps.set(id, remaining - deltaTime)
       }
     }
-    
-    // Speed boost timer
-    if (this.hasSpeedBoost && this.speedBoostTimer > 0) {
-      this.speedBoostTimer -= deltaTime
-      
-      if (this.speedBoostTimer <= 0) {
-        this.hasSpeedBoost = false
-        this.speedBoostTimer = 0
-      }
+  }
+
+  /**
+   * Update i-frame and knockback timers
+   * Called each frame with deltaTime
+   */
+  updateDamageTimers(deltaTime: number): void {
+    if (this.hurtTimer > 0) {
+      this.hurtTimer = Math.max(0, this.hurtTimer - deltaTime)
     }
-    
-    // Super jump timer
-    if (this.hasSuperJump && this.superJumpTimer > 0) {
-      this.superJumpTimer -= deltaTime
-      
-      if (this.superJumpTimer <= 0) {
-        this.hasSuperJump = false
-        this.superJumpTimer = 0
-      }
+    if (this.knockbackTimer > 0) {
+      this.knockbackTimer = Math.max(0, this.knockbackTimer - deltaTime)
     }
-    
-    // Invincibility timer
-    if (this.hasInvincibility && this.invincibilityTimer > 0) {
-      this.invincibilityTimer -= deltaTime
-      
-      if (this.invincibilityTimer <= 0) {
-        this.hasInvincibility = false
-        this.invincibilityTimer = 0
+  }
+
+  /**
+   * Update jump buffer and coyote timers
+   * Called each frame with deltaTime
+   */
+  updateJumpTimers(deltaTime: number): void {
+    if (this.jumpBufferTimer > 0) {
+      this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime)
+    }
+    if (this.wallJumpTimer > 0) {
+      this.wallJumpTimer = Math.max(0, this.wallJumpTimer - deltaTime)
+    }
+    if (this.launchTimer > 0) {
+      this.launchTimer = Math.max(0, this.launchTimer - deltaTime)
+    }
+    if (this.dropThroughTimer > 0) {
+      this.dropThroughTimer = Math.max(0, this.dropThroughTimer - deltaTime)
+    }
+    if (this.teleportCooldown > 0 && !this.onTeleporter) {
+      this.teleportCooldown = Math.max(0, this.teleportCooldown - deltaTime)
+    }
+
+    if (this.isGrounded || this.inLiquid || this.isClimbing) {
+      this.coyoteTimer = this.coyoteTime
+      return
+    }
+
+    // Walked off a ledge: the unspent ground jump lapses once the coyote window closes
+    if (this.hasGroundJump) {
+      this.coyoteTimer -= deltaTime
+      if (this.coyoteTimer <= 0) {
+        this.coyoteTimer = 0
+        this.hasGroundJump = false
+        this.jumpsRemaining = Math.max(0, this.jumpsRemaining - 1)
       }
     }
   }
 
+  /**
+   * Drain air while submerged and refill it above the surface
+   * Called each frame with deltaTime; physics ends the life when it runs out.
+   */
+  updateOxygen(deltaTime: number): void {
+    if (!this.usesOxygen) return
+
+    if (this.isSubmerged) {
+      this.oxygen = Math.max(0, this.oxygen - deltaTime)
+    } else if (this.oxygen < this.maxOxygen) {
+      this.oxygen = Math.min(this.maxOxygen, this.oxygen + OXYGEN_REFILL_RATE * deltaTime)
+    }
+  }
+
   /**
    * Update run animation frame
    * @param deltaTime - Time since last frame in seconds
@@ -187,8 +357,96 @@ export class PlayerStore {
    */
   onLand(): void {
     this.isGrounded = true
-    // Reset jumps: baseMaxJumps normally (1 or 2), 3 with triple jump power-up
-    this.jumpsRemaining = this.hasTripleJump ? 3 : this.baseMaxJumps
+    this.coyoteTimer = this.coyoteTime
+    this.refillJumps()
+  }
+
+  /**
+   * Called when a spring or bounce pad launches the player
+   * The launch spends the ground jump like a jump would, and a sideways
+   * launch holds its speed briefly so pads can redirect momentum.
+   */
+  onLaunch(): void {
+    this.hasGroundJump = false
+    this.jumpsRemaining = Math.max(0, this.jumpsRemaining - 1)
+    this.jumpBufferTimer = 0
+    this.canCutJump = false
+    this.isClimbing = false
+    this.targetVx = this.vx
+    this.launchTimer = this.vx !== 0 ? LAUNCH_LOCK_DURATION : 0
+    if (this.vx !== 0) this.isFacingRight = this.vx > 0
+
+    audioService.playSfx('jump')
+  }
+
+  /**
+   * Update liquid contact after physics
+   * Entering a liquid restores jumps, as landing does.
+   */
+  setLiquidState(inLiquid: boolean, isSubmerged: boolean): void {
+    if (inLiquid && !this.inLiquid) {
+      this.refillJumps()
+    }
+    this.inLiquid = inLiquid
+    this.isSubmerged = isSubmerged
+  }
+
+  /**
+   * Update climbable contact after physics
+   * Leaving the climbable lets go, dropping from rest.
+   */
+  setClimbableContact(onClimbable: boolean): void {
+    this.onClimbable = onClimbable
+    if (!onClimbable && this.isClimbing) {
+      this.isClimbing = false
+      this.vy = 0
+    }
+  }
+
+  /**
+   * Update one-way platform contact after physics
+   */
+  setPlatformContact(onPlatform: boolean): void {
+    this.onPlatform = onPlatform
+  }
+
+  /**
+   * Update teleporter contact after physics
+   */
+  setTeleporterContact(onTeleporter: boolean): void {
+    this.onTeleporter = onTeleporter
+  }
+
+  /**
+   * Move the player to a teleporter's destination
+   * The arrival pad is ignored until the player steps off it and the cooldown
+   * runs out, so standing still never bounces them back.
+   * @param keepVelocity - Carry the current velocity through instead of arriving at rest
+   * @param snapCamera - Jump the camera to the destination rather than panning there
+   */
+  teleport(position: Vector2, keepVelocity: boolean, snapCamera: boolean): void {
+    this.setPosition(position)
+    if (!keepVelocity) {
+      this.vx = 0
+      this.vy = 0
+      this.targetVx = 0
+    }
+    this.isGrounded = false
+    this.isClimbing = false
+    this.onTeleporter = true
+    this.teleportCooldown = TELEPORT_COOLDOWN
+    this.cameraSnapPending = snapCamera
+
+    audioService.playSfx('teleport')
+  }
+
+  /**
+   * Take a pending camera snap request (cleared once read)
+   */
+  consumeCameraSnap(): boolean {
+    const pending = this.cameraSnapPending
+    this.cameraSnapPending = false
+    return pending
   }
 
   /**
@@ -198,49 +456,60 @@ export class PlayerStore {
   setBaseMaxJumps(maxJumps: number): void {
     this.baseMaxJumps = maxJumps
     // Update jumpsRemaining if grounded and no power-up active
-    if (this.isGrounded && !this.hasTripleJump) {
+    if (this.isGrounded && this.powerUpEffects.maxJumps === 0) {
       this.jumpsRemaining = maxJumps
     }
   }
 
   /**
-   * Grant triple jump power-up
+   * Enable wall slide and wall jump for current level
    */
-  grantTripleJump(): void {
-    this.hasTripleJump = true
-    this.tripleJumpTimer = TRIPLE_JUMP_DURATION
-    
-    // If grounded, immediately get triple jump
-    if (this.isGrounded) {
-      this.jumpsRemaining = 3
-    } else {
-      // If mid-air, grant additional jumps up to 3
-      this.jumpsRemaining = Math.min(this.jumpsRemaining + (3 - this.baseMaxJumps), 3)
-    }
+  setWallJumpUnlocked(unlocked: boolean): void {
+    this.wallJumpUnlocked = unlocked
+    if (!unlocked) this.wallContact = 0
   }
 
   /**
-   * Grant speed boost power-up (2x movement speed)
+   * Grant a power-up by definition ID (a repeat pickup follows its stacking rule)
    */
-  grantSpeedBoost(): void {
-    this.hasSpeedBoost = true
-    this.speedBoostTimer = SPEED_BOOST_DURATION
+  grantPowerUp(id: string): void {
+    const definition = getPowerUpDefinition(id)
+    if (!definition) return
+
+    this.activePowerUps.set(id, getStackedDuration(definition, this.activePowerUps.get(id)))
+
+    const extraJumps = definition.modifiers.maxJumps
+    if (extraJumps) {
+      // If grounded, immediately get the extra jumps
+      if (this.isGrounded) {
+        this.jumpsRemaining = this.maxJumps
+      } else {
+        // If mid-air, grant the additional jumps up to the new maximum
+        this.jumpsRemaining = Math.min(this.jumpsRemaining + Math.max(0, extraJumps - this.baseMaxJumps), this.maxJumps)
+      }
+    }
   }
 
   /**
-   * Grant super jump power-up (1.5x jump height)
+   * Spend a hit-absorbing power-up (shield) instead of taking a hit
+   * I-frames follow, as after damage, so lingering hazards don't hit straight away.
+   * @returns True if the hit was absorbed
    */
-  grantSuperJump(): void {
-    this.hasSuperJump = true
-    this.superJumpTimer = SUPER_JUMP_DURATION
+  absorbHit(): boolean {
+    const shieldId = [...this.activePowerUps.keys()]
+      .find(id => getPowerUpDefinition(id)?.modifiers.absorbsHit)
+    if (!shieldId) return false
+
+    this.activePowerUps.delete(shieldId)
+    this.hurtTimer = HURT_INVULNERABILITY_DURATION
+    return true
   }
 
   /**
-   * Grant invincibility power-up (immune to damage)
+   * Seconds left on a power-up (0 if inactive)
    */
-  grantInvincibility(): void {
-    this.hasInvincibility = true
-    this.invincibilityTimer = INVINCIBILITY_DURATION
+  getPowerUpTimer(id: string): number {
+    return this.activePowerUps.get(id) ?? 0
   }
 
   /**
@@ -265,6 +534,49 @@ export class PlayerStore {
     }
   }
 
+  /**
+   * Set the level's health pool and fill it (0 = one-hit deaths)
+   */
+  setMaxHealth(maxHealth: number): void {
+    this.maxHealth = maxHealth
+    this.health = maxHealth
+  }
+
+  /**
+   * Set the level's air supply and fill it (0 = unlimited)
+   */
+  setMaxOxygen(seconds: number): void {
+    this.maxOxygen = seconds
+    this.oxygen = seconds
+  }
+
+  /**
+   * Set the level's jump forgiveness (omitted fields use the defaults)
+   */
+  setJumpSettings(settings: JumpSettings = {}): void {
+    this.coyoteTime = settings.coyoteTime ?? COYOTE_TIME
+    this.jumpBufferTime = settings.jumpBuffer ?? JUMP_BUFFER_TIME
+    this.jumpCutMultiplier = settings.jumpCut ?? JUMP_CUT_MULTIPLIER
+  }
+
+  /**
+   * Lose health, start i-frames and knock the player away from the source
+   * @param sourceX - World X of the damage source's center
+   */
+  takeDamage(amount: number, sourceX: number): void {
+    this.health = Math.max(0, this.health - amount)
+    this.hurtTimer = HURT_INVULNERABILITY_DURATION
+    this.knockbackTimer = KNOCKBACK_DURATION
+
+    const pushRight = this.x + this.width / 2 >= sourceX
+    this.vx = pushRight ? KNOCKBACK_VELOCITY_X : -KNOCKBACK_VELOCITY_X
+    this.vy = KNOCKBACK_VELOCITY_Y
+    this.isGrounded = false
+    this.isClimbing = false
+
+    audioService.playSfx('hurt')
+  }
+
   /**
    * Mark player as dead (for death animation)
    */
@@ -272,6 +584,7 @@ export class PlayerStore {
     this.isDead = true
     this.vx = 0
     this.vy = 0
+    this.targetVx = 0
     
     // Play death sound effect
     audioService.playSfx('death')
@@ -283,23 +596,23 @@ export class PlayerStore {
   reset(spawnPosition: Vector2): void {
     this.x = spawnPosition.x
     this.y = spawnPosition.y
+    this.savePreviousPosition()
     this.vx = 0
     this.vy = 0
+    this.targetVx = 0
     this.isGrounded = false
     this.isFacingRight = true
     this.isDead = false
     
     // Reset all power-ups
-    this.hasTripleJump = false
-    this.tripleJumpTimer = 0
-    this.hasSpeedBoost = false
-    this.speedBoostTimer = 0
-    this.hasSuperJump = false
-    this.superJumpTimer = 0
-    this.hasInvincibility = false
-    this.invincibilityTimer = 0
+    this.activePowerUps = new Map()
+    
+    this.health = this.maxHealth
+    this.hurtTimer = 0
+    this.knockbackTimer = 0
     
     this.jumpsRemaining = this.baseMaxJumps
+    this.resetJumpState()
   }
 
   /**
@@ -308,18 +621,133 @@ export class PlayerStore {
   respawn(spawnPosition: Vector2): void {
     this.x = spawnPosition.x
     this.y = spawnPosition.y
+    this.savePreviousPosition()
     this.vx = 0
     this.vy = 0
+    this.targetVx = 0
     this.isGrounded = false
     this.isDead = false
     // Keep power-ups if timer still active (they persist through death)
-    this.jumpsRemaining = this.hasTripleJump ? 3 : this.baseMaxJumps
+    this.jumpsRemaining = this.maxJumps
+    this.resetJumpState()
+    // A death costs a life, so start the next one at full health
+    this.health = this.maxHealth
+    this.hurtTimer = 0
+    this.knockbackTimer = 0
+  }
+
+  /**
+   * Restore the ground jump: baseMaxJumps normally (1 or 2), 3 with triple jump power-up
+   */
+  private refillJumps(): void {
+    this.hasGroundJump = true
+    this.jumpsRemaining = this.maxJumps
+  }
+
+  /**
+   * Restore the ground jump and air, and clear queued/cuttable jumps and wall/launch/platform/liquid/climb/teleporter state (spawn and respawn)
+   */
+  private resetJumpState(): void {
+    this.hasGroundJump = true
+    this.coyoteTimer = this.coyoteTime
+    this.jumpBufferTimer = 0
+    this.canCutJump = false
+    this.wallContact = 0
+    this.wallJumpTimer = 0
+    this.launchTimer = 0
+    this.onPlatform = false
+    this.dropThroughTimer = 0
+    this.inLiquid = false
+    this.isSubmerged = false
+    this.onClimbable = false
+    this.isClimbing = false
+    this.onTeleporter = false
+    this.teleportCooldown = 0
+    this.cameraSnapPending = false
+    this.oxygen = this.maxOxygen
+  }
+
+  /**
+   * Whether one-way platforms are being fallen through (after down+jump)
+   */
+  get isDroppingThrough(): boolean {
+    return this.dropThroughTimer > 0
+  }
+
+  /**
+   * Whether a jump press now would be a wall jump
+   */
+  get canWallJump(): boolean {
+    return this.wallJumpUnlocked && !this.isGrounded && !this.isClimbing && this.wallContact !== 0
+  }
+
+  /**
+   * Whether the player is pushing into a wall while falling (fall speed is capped)
+   */
+  get isWallSliding(): boolean {
+    return this.canWallJump && this.vy >= 0 && Math.sign(this.targetVx) === this.wallContact
+  }
+
+  /**
+   * Whether this level limits air underwater
+   */
+  get usesOxygen(): boolean {
+    return this.maxOxygen > 0
+  }
+
+  /**
+   * Whether the player has run out of air
+   */
+  get isDrowning(): boolean {
+    return this.usesOxygen && this.oxygen <= 0
+  }
+
+  /**
+   * Whether this level uses a health pool instead of one-hit deaths
+   */
+  get usesHealth(): boolean {
+    return this.maxHealth > 0
+  }
+
+  /**
+   * Whether the player is in post-hit i-frames
+   */
+  get isHurt(): boolean {
+    return this.hurtTimer > 0
   }
 
   /**
    * Check if player has any active power-up
    */
   get hasAnyPowerUp(): boolean {
-    return this.hasTripleJump || this.hasSpeedBoost || this.hasSuperJump || this.hasInvincibility
+    return this.activePowerUps.size > 0
+  }
+
+  /**
+   * Check if a power-up is active
+   */
+  hasPowerUp(id: string): boolean {
+    return this.activePowerUps.has(id)
+  }
+
+  /**
+   * Combined modifiers of the active power-ups
+   */
+  get powerUpEffects(): PowerUpEffects {
+    return combinePowerUpEffects(this.activePowerUps.keys())
+  }
+
+  /**
+   * Jumps per landing: the level's own, or more with a jump power-up
+   */
+  get maxJumps(): number {
+    return Math.max(this.baseMaxJumps, this.powerUpEffects.maxJumps)
+  }
+
+  /**
+   * Whether power-ups make the player immune to damage
+   */
+  get isDamageImmune(): boolean {
+    return this.powerUpEffects.damageImmunity
   }
 }
@@ -0,0 +1,150 @@
+import { makeAutoObservable } from 'mobx'
+import type { InputState } from '../core/types'
+import type { ReplayData } from '../core/types/replay'
+import { replayService } from '../services/ReplayService'
+
+/**
+ * Replay mode
+ */
+export type ReplayMode = 'idle' | 'recording' | 'playback'
+
+/**
+ * ReplayStore - Input recording and playback state
+ *
+ * While recording, captures one input frame per simulation step.
+ * While playing back, substitutes recorded frames for live keyboard input
+ * so the game runs through the exact same tick path.
+ */
+export class ReplayStore {
+  mode: ReplayMode = 'idle'
+
+  /** Level of the active recording/playback */
+  levelId: string | null = null
+
+  /** Per-frame input bitmasks (recording buffer or expanded playback frames) */
+  frames: number[] = []
+
+  /** Next frame index during playback */
+  cursor = 0
+
+  /** Most recently finished recording (for export or instant playback) */
+  lastRecording: ReplayData | null = null
+
+  constructor() {
+    makeAutoObservable(this)
+  }
+
+  // ============================================
+  // Recording
+  // ============================================
+
+  /**
+   * Begin capturing input frames
+   */
+  startRecording(levelId: string): void {
+    this.mode = 'recording'
+    this.levelId = levelId
+    this.frames = []
+    this.cursor = 0
+  }
+
+  /**
+   * Finish recording and store it as lastRecording
+   */
+  stopRecording(): ReplayData | null {
+    if (this.mode !== 'recording' || !this.levelId) return null
+
+    this.lastRecording = replayService.createReplay(this.levelId, this.frames)
+    this.mode = 'idle'
+    this.frames = []
+    return this.lastRecording
+  }
+
+  // ============================================
+  // Playback
+  // ============================================
+
+  /**
+   * Begin feeding recorded frames instead of live input
+   */
+  startPlayback(replay: ReplayData): void {
+    this.mode = 'playback'
+    this.levelId = replay.levelId
+    this.frames = replayService.expandFrames(replay.frames)
+    this.cursor = 0
+  }
+
+  /**
+   * End playback and return to live input
+   */
+  stopPlayback(): void {
+    if (this.mode !== 'playback') return
+    this.mode = 'idle'
+    this.frames = []
+    this.cursor = 0
+  }
+
+  /**
+   * Stop whatever is active (recordings are kept as lastRecording)
+   */
+  stop(): void {
+    if (this.mode === 'recording') {
+      this.stopRecording()
+    } else {
+      this.stopPlayback()
+    }
+  }
+
+  // ============================================
+  // Per-Step Input
+  // ============================================
+
+  /**
+   * Route one simulation step's input through the recorder
+   * Called once per fixed step by the game loop.
+   * @returns Input to apply this step (recorded frame during playback, otherwise live)
+   */
+  processInput(liveInput: InputState): InputState {
+    if (this.mode === 'recording') {
+      this.frames.push(replayService.encodeInput(liveInput))
+      return liveInput
+    }
+
+    if (this.mode === 'playback') {
+      if (this.cursor >= this.frames.length) {
+        this.stopPlayback()
+        return liveInput
+      }
+      return replayService.decodeInput(this.frames[this.cursor++])
+    }
+
+    return liveInput
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  get isRecording(): boolean {
+    return this.mode === 'recording'
+  }
+
+  get isPlaying(): boolean {
+    return this.mode === 'playback'
+  }
+
+  /**
+   * Frames captured so far (recording) or total frames (playback)
+   */
+  get frameCount(): number {
+    return this.frames.length
+  }
+
+  /**
+   * Playback progress (0-1)
+   */
+  get progress(): number {
+    if (this.mode !== 'playback' || this.frames.length === 0) return 0
+    return this.cursor / this.frames.length
+  }
+}
@@ -9,11 +9,18 @@ import { UIStore } from './UIStore'
 import { EditorStore } from './EditorStore'
 import { AssetStore } from './AssetStore'
 import { EntityStore } from './EntityStore'
+import { ReplayStore } from './ReplayStore'
 import { levelLoaderService } from '../services/LevelLoaderService'
+import { physicsService } from '../services/PhysicsService'
+import { entityService } from '../services/EntityService'
 import { audioService } from '../services/AudioService'
-import { CAMPAIGN_LEVELS, hasDoubleJumpUnlocked } from '../levels'
+import { replayService } from '../services/ReplayService'
+import { CAMPAIGN_LEVELS, hasDoubleJumpUnlocked, hasWallJumpUnlocked } from '../levels'
 import type { LevelDefinition } from '../levels/types'
 import type { LevelJSON } from '../levels/types'
+import type { ReplayData } from '../core/types/replay'
+import type { InputState } from '../core/types'
+import { setLevelPhysicsOverrides } from '../core/types/physics'
 
 /**
  * RootStore - Composes all stores and provides context
@@ -31,6 +38,12 @@ export class RootStore {
   editorStore: EditorStore
   assetStore: AssetStore
   entityStore: EntityStore
+  replayStore: ReplayStore
+
+  // Simulation step bookkeeping (not observable - only read inside tick)
+  private needsRespawn = false
+  private prevLives = 0
+  private wasLevelComplete = false
 
   constructor() {
     this.gameStore = new GameStore()
@@ -42,6 +55,8 @@ export class RootStore {
     this.editorStore = new EditorStore()
     this.assetStore = new AssetStore()
     this.entityStore = new EntityStore()
+    this.replayStore = new ReplayStore()
+    this.prevLives = this.gameStore.lives
   }
 
   /**
@@ -87,6 +102,9 @@ export class RootStore {
     
     if (!levelId) return
     
+    // Finish any recording so the replay ends at the goal
+    this.replayStore.stop()
+    
     // Get raw coins collected before completing (completeLevel doesn't reset this)
     const coinsCollected = this.gameStore.coinsThisAttempt
     
@@ -103,6 +121,8 @@ export class RootStore {
   restartCampaign(): void {
     this.campaignStore.returnToIntro()
     this.gameStore.fullReset()
+    // Leaving the level drops its physics overrides
+    setLevelPhysicsOverrides()
   }
 
   /**
@@ -133,6 +153,9 @@ export class RootStore {
    * Load a level by ID from the registry
    */
   loadLevel(levelId: string): boolean {
+    // Recordings/playbacks are tied to the level they started on
+    this.replayStore.stop()
+    
     const success = levelLoaderService.loadFromRegistry(
       levelId,
       this.levelStore,
@@ -147,6 +170,10 @@ export class RootStore {
       this.gameStore.initLevel(levelId, this.levelStore.startingLives)
       // Set base max jumps: 2 for level 4+, 1 for levels 0-3
       this.playerStore.setBaseMaxJumps(hasDoubleJumpUnlocked(levelId) ? 2 : 1)
+      this.playerStore.setWallJumpUnlocked(hasWallJumpUnlocked(levelId))
+      this.playerStore.setMaxHealth(this.levelStore.maxHealth)
+      this.playerStore.setJumpSettings(this.levelStore.jumpSettings)
+      this.playerStore.setMaxOxygen(this.levelStore.oxygenTime)
     }
     
     return success
@@ -170,6 +197,10 @@ export class RootStore {
       this.gameStore.initLevel(level.id, level.startingLives ?? 3)
       // Set base max jumps: 2 for level 4+, 1 for levels 0-3
       this.playerStore.setBaseMaxJumps(hasDoubleJumpUnlocked(level.id) ? 2 : 1)
+      this.playerStore.setWallJumpUnlocked(hasWallJumpUnlocked(level.id))
+      this.playerStore.setMaxHealth(level.maxHealth ?? 0)
+      this.playerStore.setJumpSettings(level.jumpSettings)
+      this.playerStore.setMaxOxygen(level.oxygenTime ?? 0)
     }
     
     return success
@@ -198,8 +229,12 @@ export class RootStore {
     
     if (success) {
       this.gameStore.initLevel(level.id, level.startingLives ?? 3)
-      // Custom editor levels get double jump by default
+      // Custom editor levels get double jump and wall jump by default
       this.playerStore.setBaseMaxJumps(2)
+      this.playerStore.setWallJumpUnlocked(true)
+      this.playerStore.setMaxHealth(level.maxHealth ?? 0)
+      this.playerStore.setJumpSettings(level.jumpSettings)
+      this.playerStore.setMaxOxygen(level.oxygenTime ?? 0)
       
       // Set up for playing - this is the key: we're in playing state
       // with the editor level loaded, not the campaign's first level
@@ -231,6 +266,10 @@ export class RootStore {
       this.gameStore.initLevel(json.id, json.startingLives ?? 3)
       // Custom/imported levels get double jump by default
       this.playerStore.setBaseMaxJumps(hasDoubleJumpUnlocked(json.id) ? 2 : 1)
+      this.playerStore.setWallJumpUnlocked(hasWallJumpUnlocked(json.id))
+      this.playerStore.setMaxHealth(json.maxHealth ?? 0)
+      this.playerStore.setJumpSettings(json.jumpSettings)
+      this.playerStore.setMaxOxygen(json.oxygenTime ?? 0)
     }
     
     return result
@@ -269,7 +308,12 @@ export class RootStore {
     }
     
     // Reset level to restore collected coins/powerups
-    this.levelStore.resetToOriginal()
+    // (keys and doors stay as they were at the checkpoint in levels that keep keys)
+    const keepKeys = this.levelStore.keepKeysAtCheckpoint
+    this.levelStore.resetToOriginal(keepKeys)
+    if (keepKeys) {
+      this.gameStore.restoreCheckpointKeys()
+    }
     
     // Reset entities to original positions
     this.entityStore.reset()
@@ -301,6 +345,140 @@ export class RootStore {
     )
   }
 
+  // ============================================
+  // Simulation
+  // ============================================
+
+  /**
+   * Advance the game by one fixed simulation step
+   * 
+   * Shared by the browser game loop and the headless simulation runner.
+   * Input is only read while playing, so menu key presses don't leak into the level.
+   */
+  tick(deltaTime: number, readInput: () => InputState): void {
+    const { gameStore, playerStore, levelStore, entityStore } = this
+
+    // Only run game logic when playing
+    if (this.campaignStore.screenState === 'playing') {
+      // Snapshot positions so rendering can interpolate between steps
+      playerStore.savePreviousPosition()
+      entityStore.savePreviousPositions()
+
+      // Check if player died (lives decreased)
+      if (gameStore.lives < this.prevLives && !gameStore.isGameOver) {
+        this.needsRespawn = true
+      }
+      this.prevLives = gameStore.lives
+
+      // Handle respawn after death
+      if (this.needsRespawn && !gameStore.isGameOver) {
+        this.needsRespawn = false
+        this.respawnPlayer()
+      }
+
+      // 1. Consume input (live keyboard; recorded frames replace it during replay playback)
+      const liveInput = readInput()
+
+      // Hold the simulation while paused so recorded input stays in lockstep with the steps it drove
+      if (!gameStore.isPaused) {
+        const input = this.replayStore.processInput(liveInput)
+
+        // 2. Apply input to player
+        playerStore.applyInput(input)
+
+        // 3. Update power-up, damage, jump and oxygen timers
+        playerStore.updatePowerUps(deltaTime)
+        playerStore.updateDamageTimers(deltaTime)
+        playerStore.updateJumpTimers(deltaTime)
+        playerStore.updateOxygen(deltaTime)
+
+        // 4. Update animation
+        playerStore.updateAnimation(deltaTime)
+
+        // 5. Update entities (AI, movement)
+        entityService.update(deltaTime, entityStore, levelStore, playerStore)
+
+        // 6. Update physics (pass input for noclip vertical movement, entityStore for enemy collision)
+        physicsService.update(deltaTime, playerStore, levelStore, gameStore, input, entityStore)
+      }
+
+      // 7. Check for level completion (transition to campaign screen)
+      if (gameStore.levelComplete && !this.wasLevelComplete) {
+        this.wasLevelComplete = true
+        this.onLevelComplete()
+      }
+    }
+    
+    // Reset level complete tracking when starting new level
+    if (!gameStore.levelComplete) {
+      this.wasLevelComplete = false
+    }
+  }
+
+  // ============================================
+  // Input Recording & Replay
+  // ============================================
+
+  /**
+   * Restart the current level and begin recording input
+   */
+  startRecording(): boolean {
+    const levelId = this.levelStore.currentLevelId
+    if (!levelId) return false
+    
+    this.replayStore.stop()
+    this.reset()
+    this.replayStore.startRecording(levelId)
+    return true
+  }
+
+  /**
+   * Stop recording and keep the result as the last recording
+   */
+  stopRecording(): ReplayData | null {
+    return this.replayStore.stopRecording()
+  }
+
+  /**
+   * Load the replay's level from a clean state and play it back
+   */
+  startReplay(replay: ReplayData): { success: boolean; errors: string[] } {
+    this.replayStore.stop()
+    
+    if (replay.levelId !== this.levelStore.currentLevelId) {
+      if (!this.loadLevel(replay.levelId)) {
+        return { success: false, errors: [`Level not found: ${replay.levelId}`] }
+      }
+    }
+    
+    this.reset()
+    this.campaignStore.setScreenState('playing')
+    this.replayStore.startPlayback(replay)
+    return { success: true, errors: [] }
+  }
+
+  /**
+   * Import a replay from parsed JSON and play it back
+   */
+  loadReplayFromJSON(json: unknown): { success: boolean; errors: string[] } {
+    const { replay, errors } = replayService.validateReplay(json)
+    if (!replay) {
+      return { success: false, errors }
+    }
+    return this.startReplay(replay)
+  }
+
+  /**
+   * Download the last recording as a JSON file
+   */
+  downloadLastReplay(filename?: string): boolean {
+    const replay = this.replayStore.lastRecording
+    if (!replay) return false
+    
+    replayService.downloadReplay(replay, filename)
+    return true
+  }
+
   /**
    * Teleport player to grid position (debug/admin tool)
    */
@@ -407,3 +585,7 @@ export function useAssetStore(): AssetStore {
 export function useEntityStore(): EntityStore {
   return useRootStore().entityStore
 }
+
+export function useReplayStore(): ReplayStore {
+  return useRootStore().replayStore
+}
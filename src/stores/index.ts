@@ -23,6 +23,8 @@ export type {
   PackManifest, 
   LoadedAssets 
 } from './AssetStore'
+export { ReplayStore } from './ReplayStore'
+export type { ReplayMode } from './ReplayStore'
 
 // Root store and hooks
 export { 
@@ -38,4 +40,5 @@ export {
   useUIStore,
   useEditorStore,
   useAssetStore,
+  useReplayStore,
 } from './RootStore'